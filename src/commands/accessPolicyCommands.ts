@@ -0,0 +1,433 @@
+import * as vscode from 'vscode';
+import {
+    AccessKeyType,
+    AccessPolicy,
+    AccessPolicyScope,
+    AccessRight,
+    EntityKind,
+    ServiceBusService
+} from '../servicebus/serviceBusService';
+import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
+import {
+    NamespaceTreeItem,
+    QueueTreeItem,
+    TopicTreeItem,
+    SubscriptionTreeItem
+} from '../tree/treeItems';
+import { pickNamespace } from './pickers';
+
+/**
+ * What a SAS token is issued for, and the scopes whose policies can sign it (most specific first)
+ */
+interface SasTarget {
+    namespace: string;
+    label: string;
+    entityPath?: string;
+    scopes: AccessPolicyScope[];
+}
+
+interface PolicyPick {
+    keyName: string;
+    scope: AccessPolicyScope;
+    /** Known up front for the policy of the namespace's own connection string */
+    key?: string;
+}
+
+export function registerAccessPolicyCommands(
+    context: vscode.ExtensionContext,
+    treeProvider: ServiceBusTreeProvider,
+    serviceBusService: ServiceBusService
+): void {
+    // Manage Shared Access Policies Command
+    const manageAccessPoliciesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.manageAccessPolicies',
+        async (item?: NamespaceTreeItem | QueueTreeItem | TopicTreeItem) => {
+            const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace whose policies to manage');
+            if (!namespace) {
+                return;
+            }
+
+            const scope: AccessPolicyScope = item instanceof QueueTreeItem
+                ? { kind: 'queue', name: item.queueName }
+                : item instanceof TopicTreeItem
+                    ? { kind: 'topic', name: item.topicName }
+                    : { kind: 'namespace' };
+            const scopeLabel = describeScope(namespace, scope);
+
+            let policies: AccessPolicy[];
+            try {
+                policies = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Reading the shared access policies of ${scopeLabel}` },
+                    () => serviceBusService.listAccessPolicies(namespace, scope)
+                );
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to list shared access policies: ${errorMessage}`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: '$(add) New Policy...', description: '', keyName: undefined },
+                    ...policies.map(policy => ({
+                        label: `$(key) ${policy.keyName}`,
+                        description: policy.rights.join(', '),
+                        keyName: policy.keyName
+                    }))
+                ],
+                { placeHolder: `Shared access policies of ${scopeLabel}` }
+            );
+            if (!picked) {
+                return;
+            }
+
+            if (!picked.keyName) {
+                await createPolicy(serviceBusService, namespace, scope, policies.map(policy => policy.keyName));
+                return;
+            }
+
+            await managePolicy(serviceBusService, namespace, scope, picked.keyName);
+        }
+    );
+
+    // Generate SAS Token Command
+    const generateSasTokenCommand = vscode.commands.registerCommand(
+        'azureServiceBus.generateSasToken',
+        async (item?: NamespaceTreeItem | QueueTreeItem | TopicTreeItem | SubscriptionTreeItem) => {
+            const target = item instanceof QueueTreeItem
+                ? getSasTarget(item.namespace, 'queue', item.queueName)
+                : item instanceof TopicTreeItem
+                    ? getSasTarget(item.namespace, 'topic', item.topicName)
+                    : item instanceof SubscriptionTreeItem
+                        ? getSasTarget(item.namespace, 'subscription', item.subscriptionName, item.topicName)
+                        : await pickSasTarget(treeProvider, serviceBusService, item?.namespace);
+            if (!target) {
+                return;
+            }
+
+            const policy = await pickPolicy(serviceBusService, target);
+            if (!policy) {
+                return;
+            }
+
+            await generateSas(serviceBusService, target, policy);
+        }
+    );
+
+    context.subscriptions.push(
+        manageAccessPoliciesCommand,
+        generateSasTokenCommand
+    );
+}
+
+function describeScope(namespace: string, scope: AccessPolicyScope): string {
+    return scope.kind === 'namespace' ? `namespace ${namespace}` : `${scope.kind} ${scope.name}`;
+}
+
+/**
+ * A subscription's token is scoped to the subscription but signed with a policy of its topic
+ */
+function getSasTarget(namespace: string, kind: EntityKind, name: string, topicName?: string): SasTarget {
+    const namespaceScope: AccessPolicyScope = { kind: 'namespace' };
+    if (kind === 'subscription') {
+        return {
+            namespace,
+            label: `subscription ${topicName}/${name}`,
+            entityPath: `${topicName}/subscriptions/${name}`,
+            scopes: [{ kind: 'topic', name: topicName ?? '' }, namespaceScope]
+        };
+    }
+    return {
+        namespace,
+        label: `${kind} ${name}`,
+        entityPath: name,
+        scopes: [{ kind, name }, namespaceScope]
+    };
+}
+
+/**
+ * Let the user choose the whole namespace or one of its queues, topics or subscriptions
+ */
+async function pickSasTarget(
+    treeProvider: ServiceBusTreeProvider,
+    serviceBusService: ServiceBusService,
+    selectedNamespace?: string
+): Promise<SasTarget | undefined> {
+    const namespace = selectedNamespace ?? await pickNamespace(treeProvider, 'Select the namespace to issue a SAS token for');
+    if (!namespace) {
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        (async () => {
+            const [queues, topics] = await Promise.all([
+                serviceBusService.listQueues(namespace),
+                serviceBusService.listTopics(namespace)
+            ]);
+            const subscriptions = (await Promise.all(
+                topics.map(topic => serviceBusService.listSubscriptions(namespace, topic.name))
+            )).flat();
+            return [
+                {
+                    label: `$(server) ${namespace}`,
+                    description: 'Entire namespace',
+                    target: { namespace, label: `namespace ${namespace}`, scopes: [{ kind: 'namespace' as const }] }
+                },
+                ...queues.map(queue => ({
+                    label: `$(mail) ${queue.name}`,
+                    description: 'Queue',
+                    target: getSasTarget(namespace, 'queue', queue.name)
+                })),
+                ...topics.map(topic => ({
+                    label: `$(broadcast) ${topic.name}`,
+                    description: 'Topic',
+                    target: getSasTarget(namespace, 'topic', topic.name)
+                })),
+                ...subscriptions.map(subscription => ({
+                    label: `$(inbox) ${subscription.topicName}/${subscription.name}`,
+                    description: 'Subscription',
+                    target: getSasTarget(namespace, 'subscription', subscription.name, subscription.topicName)
+                }))
+            ];
+        })(),
+        { placeHolder: 'Select what the SAS token grants access to', matchOnDescription: true }
+    );
+
+    return picked?.target;
+}
+
+/**
+ * Let the user choose a policy of the entity or the namespace to sign the token with. When the
+ * namespace policies cannot be listed, the policy of the namespace's connection string is offered.
+ */
+async function pickPolicy(serviceBusService: ServiceBusService, target: SasTarget): Promise<PolicyPick | undefined> {
+    const failures: string[] = [];
+    const items = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Reading the shared access policies for ${target.label}` },
+        async () => {
+            const picks: (vscode.QuickPickItem & { policy: PolicyPick })[] = [];
+            for (const scope of target.scopes) {
+                const scopeLabel = describeScope(target.namespace, scope);
+                try {
+                    const policies = await serviceBusService.listAccessPolicies(target.namespace, scope);
+                    picks.push(...policies.map(policy => ({
+                        label: `$(key) ${policy.keyName}`,
+                        description: `${policy.rights.join(', ')} · ${scopeLabel}`,
+                        policy: { keyName: policy.keyName, scope, key: policy.primaryKey }
+                    })));
+                } catch (error) {
+                    const connectionStringPolicy = scope.kind === 'namespace'
+                        ? serviceBusService.getConnectionStringPolicy(target.namespace)
+                        : undefined;
+                    if (connectionStringPolicy) {
+                        picks.push({
+                            label: `$(key) ${connectionStringPolicy.keyName}`,
+                            description: `${scopeLabel} · from its connection string`,
+                            policy: { keyName: connectionStringPolicy.keyName, scope, key: connectionStringPolicy.key }
+                        });
+                    } else {
+                        failures.push(`${scopeLabel}: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                }
+            }
+            return picks;
+        }
+    );
+
+    if (items.length === 0) {
+        vscode.window.showErrorMessage(
+            `No shared access policies found for ${target.label}${failures.length > 0 ? `. ${failures.join('; ')}` : ''}`
+        );
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select the policy to sign the SAS token for ${target.label} with`,
+        matchOnDescription: true
+    });
+    return picked?.policy;
+}
+
+async function generateSas(serviceBusService: ServiceBusService, target: SasTarget, policy: PolicyPick): Promise<void> {
+    const validity = await vscode.window.showQuickPick(
+        [
+            { label: '1 hour', seconds: 3600 },
+            { label: '1 day', seconds: 86400 },
+            { label: '7 days', seconds: 7 * 86400 },
+            { label: '30 days', seconds: 30 * 86400 },
+            { label: '1 year', seconds: 365 * 86400 },
+            { label: 'Custom...', seconds: 0 }
+        ],
+        { placeHolder: 'How long should the SAS token be valid?' }
+    );
+    if (!validity) {
+        return;
+    }
+
+    let seconds = validity.seconds;
+    if (seconds === 0) {
+        const hours = await vscode.window.showInputBox({
+            prompt: 'Validity of the SAS token in hours',
+            placeHolder: '12',
+            validateInput: (value) => {
+                const parsed = Number(value);
+                return Number.isFinite(parsed) && parsed > 0 ? null : 'Enter a positive number of hours';
+            }
+        });
+        if (!hours) {
+            return;
+        }
+        seconds = Math.round(Number(hours) * 3600);
+    }
+
+    const output = await vscode.window.showQuickPick(
+        [
+            { label: 'SAS Token', description: 'For the Authorization header or a SAS credential', format: 'token' as const },
+            { label: 'Connection String', description: 'Endpoint and SAS token, for SDKs and tools that take a connection string', format: 'connectionString' as const }
+        ],
+        { placeHolder: 'What should be copied to the clipboard?' }
+    );
+    if (!output) {
+        return;
+    }
+
+    try {
+        const key = policy.key ?? (await serviceBusService.getAccessPolicyKeys(target.namespace, policy.scope, policy.keyName)).primaryKey;
+        const credentials = serviceBusService.createSasCredentials(target.namespace, policy.keyName, key, seconds, target.entityPath);
+        await vscode.env.clipboard.writeText(output.format === 'token' ? credentials.token : credentials.connectionString);
+        vscode.window.showInformationMessage(
+            `Copied a ${output.label.toLowerCase()} for ${target.label} signed with ${policy.keyName}, valid until ${credentials.expiresOn.toLocaleString()}`
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to generate SAS token: ${errorMessage}`);
+    }
+}
+
+async function createPolicy(
+    serviceBusService: ServiceBusService,
+    namespace: string,
+    scope: AccessPolicyScope,
+    existing: string[]
+): Promise<void> {
+    const keyName = await vscode.window.showInputBox({
+        prompt: `Name of the new shared access policy on ${describeScope(namespace, scope)}`,
+        placeHolder: 'PartnerSend',
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Policy name cannot be empty';
+            }
+            if (value.length > 256) {
+                return 'Policy name cannot be longer than 256 characters';
+            }
+            if (!/^[\w.-]+$/.test(value)) {
+                return 'Policy name can only contain letters, numbers, periods, hyphens and underscores';
+            }
+            if (existing.includes(value)) {
+                return `A policy named ${value} already exists`;
+            }
+            return null;
+        }
+    });
+    if (!keyName) {
+        return;
+    }
+
+    const rights = await vscode.window.showQuickPick(
+        [
+            { label: 'Send', right: 'Send' as AccessRight },
+            { label: 'Listen', right: 'Listen' as AccessRight },
+            { label: 'Manage', description: 'Includes Send and Listen', right: 'Manage' as AccessRight }
+        ],
+        { placeHolder: `Rights granted by ${keyName}`, canPickMany: true }
+    );
+    if (!rights || rights.length === 0) {
+        return;
+    }
+
+    try {
+        await serviceBusService.createAccessPolicy(namespace, scope, keyName, rights.map(r => r.right));
+        vscode.window.showInformationMessage(`Created shared access policy ${keyName} on ${describeScope(namespace, scope)}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to create shared access policy: ${errorMessage}`);
+    }
+}
+
+async function managePolicy(
+    serviceBusService: ServiceBusService,
+    namespace: string,
+    scope: AccessPolicyScope,
+    keyName: string
+): Promise<void> {
+    const scopeLabel = describeScope(namespace, scope);
+    const entityPath = scope.kind === 'namespace' ? undefined : scope.name;
+
+    const action = await vscode.window.showQuickPick(
+        [
+            { label: '$(copy) Copy Primary Connection String', action: 'copyConnectionString', keyType: 'primary' as AccessKeyType },
+            { label: '$(copy) Copy Secondary Connection String', action: 'copyConnectionString', keyType: 'secondary' as AccessKeyType },
+            { label: '$(copy) Copy Primary Key', action: 'copyKey', keyType: 'primary' as AccessKeyType },
+            { label: '$(copy) Copy Secondary Key', action: 'copyKey', keyType: 'secondary' as AccessKeyType },
+            { label: '$(shield) Generate SAS Token...', action: 'generateSas' },
+            { label: '$(refresh) Regenerate Primary Key', action: 'regenerate', keyType: 'primary' as AccessKeyType },
+            { label: '$(refresh) Regenerate Secondary Key', action: 'regenerate', keyType: 'secondary' as AccessKeyType },
+            { label: '$(trash) Delete Policy', action: 'delete' }
+        ],
+        { placeHolder: `Policy ${keyName} on ${scopeLabel}` }
+    );
+    if (!action) {
+        return;
+    }
+
+    try {
+        switch (action.action) {
+            case 'copyConnectionString':
+            case 'copyKey': {
+                const keys = await serviceBusService.getAccessPolicyKeys(namespace, scope, keyName);
+                const key = action.keyType === 'primary' ? keys.primaryKey : keys.secondaryKey;
+                await vscode.env.clipboard.writeText(action.action === 'copyKey'
+                    ? key
+                    : serviceBusService.buildConnectionString(namespace, keyName, key, entityPath));
+                vscode.window.showInformationMessage(`Copied the ${action.keyType} ${action.action === 'copyKey' ? 'key' : 'connection string'} of ${keyName}`);
+                break;
+            }
+            case 'generateSas':
+                await generateSas(
+                    serviceBusService,
+                    { namespace, label: scopeLabel, entityPath, scopes: [scope] },
+                    { keyName, scope }
+                );
+                break;
+            case 'regenerate': {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Regenerate the ${action.keyType} key of ${keyName} on ${scopeLabel}?`,
+                    { modal: true, detail: 'Connection strings and SAS tokens that use the current key will stop working.' },
+                    'Regenerate'
+                );
+                if (confirm !== 'Regenerate') {
+                    return;
+                }
+                await serviceBusService.regenerateAccessPolicyKey(namespace, scope, keyName, action.keyType!);
+                vscode.window.showInformationMessage(`Regenerated the ${action.keyType} key of ${keyName}`);
+                break;
+            }
+            case 'delete': {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Delete shared access policy ${keyName} from ${scopeLabel}?`,
+                    { modal: true, detail: 'Anyone using its keys, connection strings or SAS tokens will lose access.' },
+                    'Delete'
+                );
+                if (confirm !== 'Delete') {
+                    return;
+                }
+                await serviceBusService.deleteAccessPolicy(namespace, scope, keyName);
+                vscode.window.showInformationMessage(`Deleted shared access policy ${keyName}`);
+                break;
+            }
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to update shared access policy ${keyName}: ${errorMessage}`);
+    }
+}
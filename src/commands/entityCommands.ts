@@ -0,0 +1,368 @@
+import * as vscode from 'vscode';
+import { EntityStatus } from '@azure/service-bus';
+import { ENTITY_STATUSES, ServiceBusService } from '../servicebus/serviceBusService';
+import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
+import { RuleEditorProvider } from '../views/ruleEditorProvider';
+import { FilterTesterPanel, FilterTestTarget } from '../views/filterTesterPanel';
+import { CreateEntityPanel } from '../views/createEntityPanel';
+import { EntityPropertiesPanel } from '../views/entityPropertiesPanel';
+import { pickNamespace } from './pickers';
+import {
+    NamespaceTreeItem,
+    QueuesFolderTreeItem,
+    TopicsFolderTreeItem,
+    QueueTreeItem,
+    TopicTreeItem,
+    SubscriptionTreeItem,
+    RulesTreeItem,
+    RuleTreeItem
+} from '../tree/treeItems';
+
+export function registerEntityCommands(
+    context: vscode.ExtensionContext,
+    treeProvider: ServiceBusTreeProvider,
+    serviceBusService: ServiceBusService
+): void {
+    // Virtual documents used to create and edit subscription rules
+    const ruleEditorProvider = new RuleEditorProvider(serviceBusService);
+    const ruleEditorRegistration = vscode.workspace.registerFileSystemProvider(
+        RuleEditorProvider.scheme,
+        ruleEditorProvider,
+        { isCaseSensitive: true }
+    );
+
+    // Create Queue Command
+    const createQueueCommand = vscode.commands.registerCommand(
+        'azureServiceBus.createQueue',
+        (item?: QueuesFolderTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select the Queues folder of a namespace');
+                return;
+            }
+            CreateEntityPanel.createOrShow(
+                context.extensionUri,
+                serviceBusService,
+                { namespace: item.namespace, kind: 'queue' },
+                () => treeProvider.refresh(item)
+            );
+        }
+    );
+
+    // Create Topic Command
+    const createTopicCommand = vscode.commands.registerCommand(
+        'azureServiceBus.createTopic',
+        (item?: TopicsFolderTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select the Topics folder of a namespace');
+                return;
+            }
+            CreateEntityPanel.createOrShow(
+                context.extensionUri,
+                serviceBusService,
+                { namespace: item.namespace, kind: 'topic' },
+                () => treeProvider.refresh(item)
+            );
+        }
+    );
+
+    // Create Subscription Command
+    const createSubscriptionCommand = vscode.commands.registerCommand(
+        'azureServiceBus.createSubscription',
+        (item?: TopicTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a topic');
+                return;
+            }
+            CreateEntityPanel.createOrShow(
+                context.extensionUri,
+                serviceBusService,
+                { namespace: item.namespace, kind: 'subscription', topicName: item.topicName },
+                () => treeProvider.refresh(item)
+            );
+        }
+    );
+
+    // Delete Entity Command
+    const deleteEntityCommand = vscode.commands.registerCommand(
+        'azureServiceBus.deleteEntity',
+        async (item?: QueueTreeItem | TopicTreeItem | SubscriptionTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue, topic or subscription to delete');
+                return;
+            }
+
+            let kind: string;
+            let name: string;
+            let warning: string;
+            if (item instanceof QueueTreeItem) {
+                kind = 'queue';
+                name = item.queueName;
+                warning = 'All of its messages, including dead-lettered and scheduled messages, will be lost.';
+            } else if (item instanceof TopicTreeItem) {
+                kind = 'topic';
+                name = item.topicName;
+                warning = 'All of its subscriptions, rules and messages will be deleted too.';
+            } else {
+                kind = 'subscription';
+                name = item.subscriptionName;
+                warning = 'All of its rules and messages, including dead-lettered messages, will be lost.';
+            }
+
+            const confirmation = await vscode.window.showInputBox({
+                title: `Delete ${kind} "${name}"`,
+                prompt: `${warning} This cannot be undone. Type "${name}" to confirm.`,
+                placeHolder: name,
+                ignoreFocusOut: true,
+                validateInput: (value) => value === name ? null : `Type "${name}" exactly to confirm the deletion`
+            });
+            if (confirmation !== name) {
+                return;
+            }
+
+            try {
+                if (item instanceof QueueTreeItem) {
+                    await serviceBusService.deleteQueue(item.namespace, item.queueName);
+                } else if (item instanceof TopicTreeItem) {
+                    await serviceBusService.deleteTopic(item.namespace, item.topicName);
+                } else {
+                    await serviceBusService.deleteSubscription(item.namespace, item.topicName, item.subscriptionName);
+                }
+                vscode.window.showInformationMessage(`Deleted ${kind} "${name}"`);
+                treeProvider.refresh();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to delete ${kind}: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Show Properties Command
+    const showPropertiesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.showProperties',
+        async (item?: QueueTreeItem | TopicTreeItem | SubscriptionTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue, topic or subscription');
+                return;
+            }
+
+            const target = item instanceof QueueTreeItem
+                ? { namespace: item.namespace, kind: 'queue' as const, name: item.queueName }
+                : item instanceof TopicTreeItem
+                    ? { namespace: item.namespace, kind: 'topic' as const, name: item.topicName }
+                    : { namespace: item.namespace, kind: 'subscription' as const, name: item.subscriptionName, topicName: item.topicName };
+
+            await EntityPropertiesPanel.createOrShow(context.extensionUri, serviceBusService, target, () => treeProvider.refresh());
+        }
+    );
+
+    // Set Status Command
+    const setEntityStatusCommand = vscode.commands.registerCommand(
+        'azureServiceBus.setEntityStatus',
+        async (item?: QueueTreeItem | TopicTreeItem | SubscriptionTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue, topic or subscription');
+                return;
+            }
+
+            const kind = item instanceof QueueTreeItem ? 'queue' : item instanceof TopicTreeItem ? 'topic' : 'subscription';
+            const name = item instanceof QueueTreeItem
+                ? item.queueName
+                : item instanceof TopicTreeItem ? item.topicName : `${item.topicName}/${item.subscriptionName}`;
+
+            const descriptions: Partial<Record<EntityStatus, string>> = {
+                Active: 'Messages can be sent and received',
+                Disabled: 'Nothing can be sent or received',
+                SendDisabled: 'Stop producers; consumers keep receiving',
+                ReceiveDisabled: 'Stop consumers; producers keep sending'
+            };
+            const picked = await vscode.window.showQuickPick(
+                ENTITY_STATUSES[kind].map(status => ({
+                    label: status === item.status ? `$(check) ${status}` : status,
+                    description: descriptions[status],
+                    status
+                })),
+                { placeHolder: `Set the status of ${kind} ${name} (currently ${item.status})` }
+            );
+            if (!picked || picked.status === item.status) {
+                return;
+            }
+
+            try {
+                if (item instanceof QueueTreeItem) {
+                    await serviceBusService.updateQueue(item.namespace, item.queueName, { status: picked.status });
+                } else if (item instanceof TopicTreeItem) {
+                    await serviceBusService.updateTopic(item.namespace, item.topicName, { status: picked.status });
+                } else {
+                    await serviceBusService.updateSubscription(item.namespace, item.topicName, item.subscriptionName, { status: picked.status });
+                }
+                vscode.window.showInformationMessage(`Set the status of ${kind} ${name} to ${picked.status}`);
+                treeProvider.refresh();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to set status: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Add Rule Command
+    const addRuleCommand = vscode.commands.registerCommand(
+        'azureServiceBus.addRule',
+        async (item?: RulesTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select the Rules folder of a subscription');
+                return;
+            }
+
+            const ruleName = await vscode.window.showInputBox({
+                prompt: `Name of the new rule on ${item.topicName}/${item.subscriptionName}`,
+                placeHolder: 'OrdersOnly',
+                validateInput: (value) => {
+                    if (!value.trim()) {
+                        return 'Rule name cannot be empty';
+                    }
+                    if (value.length > 50) {
+                        return 'Rule name cannot be longer than 50 characters';
+                    }
+                    if (/[\\/?#*]/.test(value)) {
+                        return 'Rule name cannot contain \\, /, ?, # or *';
+                    }
+                    return null;
+                }
+            });
+            if (!ruleName) {
+                return;
+            }
+
+            const filterType = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: 'SQL Filter',
+                        description: 'A SQL-like condition over system and application properties',
+                        value: 'sql' as const
+                    },
+                    {
+                        label: 'Correlation Filter',
+                        description: 'Exact matches on system and application properties; cheaper to evaluate',
+                        value: 'correlation' as const
+                    }
+                ],
+                { placeHolder: 'Select the type of filter' }
+            );
+            if (!filterType) {
+                return;
+            }
+
+            const filter = filterType.value === 'sql'
+                ? { sqlExpression: "sys.Label = 'Example'" }
+                : { correlationId: '', subject: '', applicationProperties: {} };
+
+            await ruleEditorProvider.openForEdit(item, ruleName.trim(), { filter }, true, () => treeProvider.refresh(item));
+        }
+    );
+
+    // Edit Rule Command
+    const editRuleCommand = vscode.commands.registerCommand(
+        'azureServiceBus.editRule',
+        async (item?: RuleTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a rule to edit');
+                return;
+            }
+
+            const { filter, action } = item.rule;
+            await ruleEditorProvider.openForEdit(
+                item.parentElement,
+                item.rule.name,
+                { filter, action: action?.sqlExpression ? action : undefined },
+                false,
+                () => treeProvider.refresh(item.parentElement)
+            );
+        }
+    );
+
+    // Delete Rule Command
+    const deleteRuleCommand = vscode.commands.registerCommand(
+        'azureServiceBus.deleteRule',
+        async (item?: RuleTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a rule to delete');
+                return;
+            }
+
+            const { namespace, topicName, subscriptionName } = item.parentElement;
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete rule "${item.rule.name}" from ${topicName}/${subscriptionName}? A subscription without rules receives no messages.`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm !== 'Delete') {
+                return;
+            }
+
+            try {
+                await serviceBusService.deleteRule(namespace, topicName, subscriptionName, item.rule.name);
+                vscode.window.showInformationMessage(`Deleted rule "${item.rule.name}"`);
+                treeProvider.refresh(item.parentElement);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to delete rule: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Test Filter Command
+    const testFilterCommand = vscode.commands.registerCommand(
+        'azureServiceBus.testFilter',
+        async (item?: RuleTreeItem | RulesTreeItem | SubscriptionTreeItem | NamespaceTreeItem) => {
+            let target: FilterTestTarget;
+
+            if (item instanceof RuleTreeItem) {
+                const { namespace, topicName, subscriptionName } = item.parentElement;
+                target = { namespace, topicName, subscriptionName, filter: item.rule.filter, filterLabel: item.rule.name };
+            } else if (item instanceof RulesTreeItem || item instanceof SubscriptionTreeItem) {
+                const { namespace, topicName, subscriptionName } = item;
+                // Start from one of the subscription's rules, or from a blank filter
+                const picked = await vscode.window.showQuickPick(
+                    (async () => {
+                        const rules = await serviceBusService.listRules(namespace, topicName, subscriptionName);
+                        return [
+                            { label: '$(edit) Type a filter', rule: undefined },
+                            ...rules.map(rule => ({
+                                label: `$(filter) ${rule.name}`,
+                                description: 'sqlExpression' in rule.filter ? rule.filter.sqlExpression : 'Correlation filter',
+                                rule
+                            }))
+                        ];
+                    })(),
+                    { placeHolder: `Select a rule of ${topicName}/${subscriptionName} to test, or type a filter` }
+                );
+                if (!picked) {
+                    return;
+                }
+                target = { namespace, topicName, subscriptionName, filter: picked.rule?.filter, filterLabel: picked.rule?.name };
+            } else {
+                const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace to test a filter in');
+                if (!namespace) {
+                    return;
+                }
+                target = { namespace };
+            }
+
+            FilterTesterPanel.createOrShow(context.extensionUri, serviceBusService, target);
+        }
+    );
+
+    context.subscriptions.push(
+        ruleEditorRegistration,
+        createQueueCommand,
+        createTopicCommand,
+        createSubscriptionCommand,
+        deleteEntityCommand,
+        showPropertiesCommand,
+        setEntityStatusCommand,
+        addRuleCommand,
+        editRuleCommand,
+        deleteRuleCommand,
+        testFilterCommand
+    );
+}
@@ -1,13 +1,40 @@
 import * as vscode from 'vscode';
-import { ServiceBusService } from '../servicebus/serviceBusService';
+import Long from 'long';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import {
+    ServiceBusService,
+    BulkOperationOptions,
+    BulkOperationResult,
+    DeferredMessageAction,
+    describeSubQueue
+} from '../servicebus/serviceBusService';
+import { parseJsonLines, fromExportedMessage } from '../servicebus/messageSerializer';
+import { MessageFilter, matchesFilter, describeFilter, parseTimestamp } from '../servicebus/messageFilter';
+import { MessageSearchQuery, SearchField, compileSearch, describeSearch } from '../servicebus/messageSearch';
 import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
 import { MessagePanel } from '../views/messagePanel';
+import { SendMessagePanel } from '../views/sendMessagePanel';
+import { ResubmitEditorProvider } from '../views/resubmitEditorProvider';
+import { SessionStateEditorProvider } from '../views/sessionStateEditorProvider';
+import { DeadLetterAnalyticsPanel } from '../views/deadLetterAnalyticsPanel';
+import { CorrelationTracePanel, TraceField } from '../views/correlationTracePanel';
+import { showBulkOperationReport } from '../views/bulkOperationReport';
+import { exportMessagesToFile } from '../views/exportMessages';
+import { pickEntity, pickNamespace } from './pickers';
 import {
+    NamespaceTreeItem,
     MessageTreeItem,
     DeadLetterQueueTreeItem,
     QueueTreeItem,
+    TopicTreeItem,
     SubscriptionTreeItem,
-    ActiveMessagesTreeItem
+    ActiveMessagesTreeItem,
+    MessageFolderTreeItem,
+    SessionTreeItem,
+    ScheduledMessagesTreeItem,
+    ScheduledMessageTreeItem,
+    LoadMoreMessagesTreeItem,
+    SearchResultsTreeItem
 } from '../tree/treeItems';
 
 export function registerMessageCommands(
@@ -15,10 +42,31 @@ export function registerMessageCommands(
     treeProvider: ServiceBusTreeProvider,
     serviceBusService: ServiceBusService
 ): void {
+    // Virtual documents used by Edit and Resubmit
+    const resubmitEditorProvider = new ResubmitEditorProvider(serviceBusService);
+    const resubmitEditorRegistration = vscode.workspace.registerFileSystemProvider(
+        ResubmitEditorProvider.scheme,
+        resubmitEditorProvider,
+        { isCaseSensitive: true }
+    );
+    const resubmitEditorCloseListener = vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme === ResubmitEditorProvider.scheme) {
+            resubmitEditorProvider.delete(document.uri);
+        }
+    });
+
+    // Virtual documents used to view and edit session state
+    const sessionStateEditorProvider = new SessionStateEditorProvider(serviceBusService);
+    const sessionStateEditorRegistration = vscode.workspace.registerFileSystemProvider(
+        SessionStateEditorProvider.scheme,
+        sessionStateEditorProvider,
+        { isCaseSensitive: true }
+    );
+
     // View Message Command
     const viewMessageCommand = vscode.commands.registerCommand(
         'azureServiceBus.viewMessage',
-        async (item?: MessageTreeItem) => {
+        async (item?: MessageTreeItem | ScheduledMessageTreeItem) => {
             if (!item) {
                 vscode.window.showWarningMessage('Please select a message to view');
                 return;
@@ -31,46 +79,13 @@ export function registerMessageCommands(
     // Peek Messages Command
     const peekMessagesCommand = vscode.commands.registerCommand(
         'azureServiceBus.peekMessages',
-        async (item?: QueueTreeItem | SubscriptionTreeItem | ActiveMessagesTreeItem | DeadLetterQueueTreeItem) => {
+        async (item?: QueueTreeItem | SubscriptionTreeItem | MessageFolderTreeItem) => {
             if (!item) {
                 vscode.window.showWarningMessage('Please select a queue, subscription, or message folder to peek');
                 return;
             }
 
             try {
-                let namespace: string;
-                let queueName: string | undefined;
-                let topicName: string | undefined;
-                let subscriptionName: string | undefined;
-                let isDeadLetter = false;
-
-                switch (item.itemType) {
-                    case 'queue':
-                        namespace = (item as QueueTreeItem).namespace;
-                        queueName = (item as QueueTreeItem).queueName;
-                        break;
-                    case 'subscription':
-                        namespace = (item as SubscriptionTreeItem).namespace;
-                        topicName = (item as SubscriptionTreeItem).topicName;
-                        subscriptionName = (item as SubscriptionTreeItem).subscriptionName;
-                        break;
-                    case 'activeMessages':
-                        namespace = (item as ActiveMessagesTreeItem).namespace;
-                        queueName = (item as ActiveMessagesTreeItem).queueName;
-                        topicName = (item as ActiveMessagesTreeItem).topicName;
-                        subscriptionName = (item as ActiveMessagesTreeItem).subscriptionName;
-                        break;
-                    case 'deadLetterQueue':
-                        namespace = (item as DeadLetterQueueTreeItem).namespace;
-                        queueName = (item as DeadLetterQueueTreeItem).queueName;
-                        topicName = (item as DeadLetterQueueTreeItem).topicName;
-                        subscriptionName = (item as DeadLetterQueueTreeItem).subscriptionName;
-                        isDeadLetter = true;
-                        break;
-                    default:
-                        return;
-                }
-
                 const countInput = await vscode.window.showInputBox({
                     prompt: 'How many messages to peek?',
                     value: '10',
@@ -89,6 +104,18 @@ export function registerMessageCommands(
 
                 const count = parseInt(countInput, 10);
 
+                // Message folders page through their messages, so peeking there just changes the page size
+                if (item instanceof MessageFolderTreeItem) {
+                    item.pageSize = count;
+                    item.loadNextPage = false;
+                    treeProvider.refresh(item);
+                    return;
+                }
+
+                const queueName = item instanceof QueueTreeItem ? item.queueName : undefined;
+                const topicName = item instanceof SubscriptionTreeItem ? item.topicName : undefined;
+                const subscriptionName = item instanceof SubscriptionTreeItem ? item.subscriptionName : undefined;
+
                 await vscode.window.withProgress(
                     {
                         location: vscode.ProgressLocation.Notification,
@@ -96,21 +123,13 @@ export function registerMessageCommands(
                         cancellable: false
                     },
                     async () => {
-                        const messages = isDeadLetter
-                            ? await serviceBusService.peekDeadLetterMessages(
-                                namespace,
-                                queueName,
-                                topicName,
-                                subscriptionName,
-                                count
-                            )
-                            : await serviceBusService.peekActiveMessages(
-                                namespace,
-                                queueName,
-                                topicName,
-                                subscriptionName,
-                                count
-                            );
+                        const messages = await serviceBusService.peekActiveMessages(
+                            item.namespace,
+                            queueName,
+                            topicName,
+                            subscriptionName,
+                            count
+                        );
 
                         vscode.window.showInformationMessage(
                             `Peeked ${messages.length} messages. Refresh the tree to see them.`
@@ -125,6 +144,170 @@ export function registerMessageCommands(
         }
     );
 
+    // Import Messages Command
+    const importMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.importMessages',
+        async (item?: QueueTreeItem | TopicTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue or topic to import messages into');
+                return;
+            }
+
+            const entityName = item.itemType === 'queue' ? item.queueName : item.topicName;
+
+            const files = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                filters: { 'JSON Lines': ['jsonl'], 'All Files': ['*'] },
+                openLabel: 'Import'
+            });
+            if (!files || files.length === 0) {
+                return;
+            }
+
+            const selectedOptions = await vscode.window.showQuickPick(
+                [
+                    { label: 'Regenerate message IDs', description: 'Give every message a new unique ID', value: 'regenerate' },
+                    { label: 'Dry run', description: 'Validate the file and report what would be sent, without sending', value: 'dryRun' }
+                ],
+                { canPickMany: true, placeHolder: 'Import options (press Enter to continue)' }
+            );
+            if (!selectedOptions) {
+                return;
+            }
+            const regenerateMessageId = selectedOptions.some(o => o.value === 'regenerate');
+            const dryRun = selectedOptions.some(o => o.value === 'dryRun');
+
+            let maxMessagesPerSecond: number | undefined;
+            if (!dryRun) {
+                const rateInput = await vscode.window.showInputBox({
+                    prompt: 'Maximum messages per second (leave empty for no limit)',
+                    validateInput: (value) => {
+                        if (value.trim() && !(Number(value) > 0)) {
+                            return 'Please enter a positive number, or leave empty';
+                        }
+                        return null;
+                    }
+                });
+                if (rateInput === undefined) {
+                    return;
+                }
+                maxMessagesPerSecond = rateInput.trim() ? Number(rateInput) : undefined;
+            }
+
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8');
+                const messages = parseJsonLines(content).map(m => fromExportedMessage(m, { regenerateMessageId }));
+                if (messages.length === 0) {
+                    vscode.window.showWarningMessage('The file contains no messages');
+                    return;
+                }
+
+                if (dryRun) {
+                    const sessionCount = new Set(messages.map(m => m.sessionId).filter(id => id !== undefined)).size;
+                    vscode.window.showInformationMessage(
+                        `Dry run: ${messages.length} messages (${sessionCount} sessions) would be sent to ${entityName}. No messages were sent.`
+                    );
+                    return;
+                }
+
+                const confirm = await vscode.window.showWarningMessage(
+                    `Send ${messages.length} messages to ${entityName}?`,
+                    { modal: true },
+                    'Send'
+                );
+                if (confirm !== 'Send') {
+                    return;
+                }
+
+                const sentCount = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Importing messages into ${entityName}`,
+                        cancellable: true
+                    },
+                    (progress, token) => {
+                        let lastSent = 0;
+                        return serviceBusService.sendMessagesInBatches(item.namespace, entityName, messages, {
+                            maxMessagesPerSecond,
+                            isCancellationRequested: () => token.isCancellationRequested,
+                            onProgress: (sent, total) => {
+                                progress.report({ increment: ((sent - lastSent) / total) * 100, message: `${sent}/${total}` });
+                                lastSent = sent;
+                            }
+                        });
+                    }
+                );
+
+                vscode.window.showInformationMessage(`Imported ${sentCount} of ${messages.length} messages into ${entityName}`);
+                treeProvider.refresh(item);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to import messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Load More Messages Command
+    const loadMoreMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.loadMoreMessages',
+        (item?: LoadMoreMessagesTreeItem | MessageFolderTreeItem | ScheduledMessagesTreeItem) => {
+            if (!item) {
+                return;
+            }
+
+            const folder = item instanceof LoadMoreMessagesTreeItem ? item.parentElement : item;
+            folder.loadNextPage = true;
+            treeProvider.refresh(folder);
+        }
+    );
+
+    // Jump to Sequence Number Command
+    const jumpToSequenceNumberCommand = vscode.commands.registerCommand(
+        'azureServiceBus.jumpToSequenceNumber',
+        async (item?: MessageFolderTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a message folder to browse');
+                return;
+            }
+
+            const sequenceInput = await vscode.window.showInputBox({
+                prompt: 'Peek messages starting at which sequence number?',
+                value: item.startSequenceNumber.toString(),
+                validateInput: (value) => {
+                    if (!/^\d+$/.test(value.trim()) || Long.fromString(value.trim()).lessThan(1)) {
+                        return 'Please enter a sequence number of 1 or greater';
+                    }
+                    return null;
+                }
+            });
+
+            if (!sequenceInput) {
+                return;
+            }
+
+            item.setStartSequenceNumber(Long.fromString(sequenceInput.trim()));
+            treeProvider.refresh(item);
+        }
+    );
+
+    // Send Message Command
+    const sendMessageCommand = vscode.commands.registerCommand(
+        'azureServiceBus.sendMessage',
+        async (item?: QueueTreeItem | TopicTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue or topic to send a message to');
+                return;
+            }
+
+            SendMessagePanel.createOrShow(context.extensionUri, serviceBusService, {
+                namespace: item.namespace,
+                queueName: item.itemType === 'queue' ? item.queueName : undefined,
+                topicName: item.itemType === 'topic' ? item.topicName : undefined
+            });
+        }
+    );
+
     // Resubmit Message Command
     const resubmitMessageCommand = vscode.commands.registerCommand(
         'azureServiceBus.resubmitMessage',
@@ -152,14 +335,16 @@ export function registerMessageCommands(
                         cancellable: false
                     },
                     async () => {
-                        const { namespace, message, queueName, topicName, subscriptionName } = item.messageInfo;
+                        const { namespace, message, queueName, topicName, subscriptionName, deadLetterSubQueue } = item.messageInfo;
 
                         await serviceBusService.resubmitMessage(
                             namespace,
                             message,
                             queueName,
                             topicName,
-                            subscriptionName
+                            subscriptionName,
+                            undefined,
+                            deadLetterSubQueue
                         );
 
                         vscode.window.showInformationMessage('Message resubmitted successfully');
@@ -173,6 +358,137 @@ export function registerMessageCommands(
         }
     );
 
+    // Edit and Resubmit Message Command
+    const editAndResubmitMessageCommand = vscode.commands.registerCommand(
+        'azureServiceBus.editAndResubmitMessage',
+        async (item?: MessageTreeItem) => {
+            if (!item || !item.messageInfo.isDeadLetter) {
+                vscode.window.showWarningMessage('Please select a dead-letter message to edit and resubmit');
+                return;
+            }
+
+            try {
+                await resubmitEditorProvider.openForEdit(item.messageInfo, () => treeProvider.refresh(item.parentElement));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to open message for editing: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Bulk Resubmit Messages Command
+    const resubmitMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.resubmitMessages',
+        async (item?: MessageTreeItem | DeadLetterQueueTreeItem, selectedItems?: (MessageTreeItem | DeadLetterQueueTreeItem)[]) => {
+            const groups = collectMessageSelection(item, selectedItems).filter(g => g.folder instanceof DeadLetterQueueTreeItem);
+            if (groups.length === 0) {
+                vscode.window.showWarningMessage('Please select dead-letter messages or a dead-letter queue to resubmit');
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Are you sure you want to resubmit ${describeSelection(groups)} to the main queue?`,
+                { modal: true },
+                'Resubmit'
+            );
+            if (confirm !== 'Resubmit') {
+                return;
+            }
+
+            await runBulkOperation('Resubmit', groups, serviceBusService, treeProvider, (folder, messages, options) =>
+                serviceBusService.resubmitMessages(
+                    folder.namespace,
+                    toSequenceNumbers(messages),
+                    folder.queueName,
+                    folder.topicName,
+                    folder.subscriptionName,
+                    options,
+                    undefined,
+                    folder instanceof DeadLetterQueueTreeItem ? folder.subQueue : undefined
+                )
+            );
+        }
+    );
+
+    // Move Messages Command
+    const moveMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.moveMessages',
+        async (item?: MessageTreeItem | MessageFolderTreeItem, selectedItems?: (MessageTreeItem | MessageFolderTreeItem)[]) => {
+            // Hand-picked messages are found by locking the folder's messages in turn, which only dead-letter
+            // queues tolerate; a whole Active Messages folder is received in full, so nothing is held
+            const selection = collectMessageSelection(item, selectedItems);
+            const groups = selection.filter(g => g.folder instanceof DeadLetterQueueTreeItem
+                || (g.allMessages && g.folder instanceof ActiveMessagesTreeItem));
+            if (groups.length === 0) {
+                vscode.window.showWarningMessage('Please select dead-letter messages, a dead-letter queue or a whole Active Messages folder to move. Individual active messages can only be copied.');
+                return;
+            }
+            if (groups.length < selection.length) {
+                vscode.window.showWarningMessage('Individual active messages are skipped; they can only be copied. Move the whole Active Messages folder instead.');
+            }
+
+            const target = await pickEntity(treeProvider, serviceBusService, 'Select the queue or topic to move messages to');
+            if (!target) {
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Are you sure you want to move ${describeSelection(groups)} to ${target.entityName} (${target.namespace})? They will be removed from their current location.`,
+                { modal: true },
+                'Move'
+            );
+            if (confirm !== 'Move') {
+                return;
+            }
+
+            await runBulkOperation('Move', groups, serviceBusService, treeProvider, (folder, messages, options) =>
+                folder instanceof ActiveMessagesTreeItem
+                    ? serviceBusService.moveAllActiveMessages(
+                        folder.namespace,
+                        messages,
+                        folder.queueName,
+                        folder.topicName,
+                        folder.subscriptionName,
+                        target.namespace,
+                        target.entityName,
+                        options
+                    )
+                    : serviceBusService.moveMessages(
+                        folder.namespace,
+                        folder.subQueue,
+                        toSequenceNumbers(messages),
+                        folder.queueName,
+                        folder.topicName,
+                        folder.subscriptionName,
+                        target.namespace,
+                        target.entityName,
+                        options
+                    )
+            );
+        }
+    );
+
+    // Copy Messages Command
+    const copyMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.copyMessages',
+        async (item?: MessageTreeItem | MessageFolderTreeItem, selectedItems?: (MessageTreeItem | MessageFolderTreeItem)[]) => {
+            const groups = collectMessageSelection(item, selectedItems);
+            if (groups.length === 0) {
+                vscode.window.showWarningMessage('Please select messages or a message folder to copy');
+                return;
+            }
+
+            const target = await pickEntity(treeProvider, serviceBusService, 'Select the queue or topic to copy messages to');
+            if (!target) {
+                return;
+            }
+
+            await runBulkOperation('Copy', groups, serviceBusService, treeProvider, (_folder, messages, options) =>
+                serviceBusService.copyMessages(target.namespace, target.entityName, messages, options)
+            );
+        }
+    );
+
     // Delete Message Command
     const deleteMessageCommand = vscode.commands.registerCommand(
         'azureServiceBus.deleteMessage',
@@ -200,14 +516,15 @@ export function registerMessageCommands(
                         cancellable: false
                     },
                     async () => {
-                        const { namespace, message, queueName, topicName, subscriptionName } = item.messageInfo;
+                        const { namespace, message, queueName, topicName, subscriptionName, deadLetterSubQueue } = item.messageInfo;
 
                         await serviceBusService.deleteMessage(
                             namespace,
                             message,
                             queueName,
                             topicName,
-                            subscriptionName
+                            subscriptionName,
+                            deadLetterSubQueue
                         );
 
                         vscode.window.showInformationMessage('Message deleted successfully');
@@ -221,6 +538,381 @@ export function registerMessageCommands(
         }
     );
 
+    // Search Messages Command
+    const searchMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.searchMessages',
+        async (item?: QueueTreeItem | SubscriptionTreeItem | ActiveMessagesTreeItem | DeadLetterQueueTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue, subscription, or message folder to search');
+                return;
+            }
+
+            const query = await promptForSearchQuery();
+            if (!query) {
+                return;
+            }
+
+            const queueName = item instanceof SubscriptionTreeItem ? undefined : item.queueName;
+            const topicName = item instanceof QueueTreeItem ? undefined : item.topicName;
+            const subscriptionName = item instanceof QueueTreeItem ? undefined : item.subscriptionName;
+            const scope = {
+                active: !(item instanceof DeadLetterQueueTreeItem),
+                deadLetter: !(item instanceof ActiveMessagesTreeItem)
+            };
+            const searchResults = new SearchResultsTreeItem(item.namespace, queueName, topicName, subscriptionName, query, scope);
+
+            try {
+                const matches = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Searching ${queueName ?? `${topicName}/${subscriptionName}`}`,
+                        cancellable: true
+                    },
+                    (progress, token) => serviceBusService.searchMessages(
+                        item.namespace,
+                        queueName,
+                        topicName,
+                        subscriptionName,
+                        scope,
+                        compileSearch(query),
+                        {
+                            isCancellationRequested: () => token.isCancellationRequested,
+                            onProgress: (scanned) => progress.report({ message: `${scanned} messages scanned` })
+                        }
+                    )
+                );
+
+                searchResults.pendingMatches = matches;
+                treeProvider.addSearchResults(searchResults);
+                vscode.window.showInformationMessage(
+                    `Found ${matches.length} message${matches.length === 1 ? '' : 's'} matching ${describeSearch(query)}`
+                );
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to search messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Cancel Scheduled Messages Command
+    const cancelScheduledMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.cancelScheduledMessages',
+        async (item?: ScheduledMessageTreeItem | ScheduledMessagesTreeItem, selectedItems?: (ScheduledMessageTreeItem | ScheduledMessagesTreeItem)[]) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select scheduled messages or a Scheduled folder');
+                return;
+            }
+
+            const folder = item instanceof ScheduledMessagesTreeItem ? item : item.parentElement;
+            let sequenceNumbers: Long[];
+            if (item instanceof ScheduledMessageTreeItem) {
+                const selected = (selectedItems && selectedItems.length > 0 ? selectedItems : [item])
+                    .filter((i): i is ScheduledMessageTreeItem => i instanceof ScheduledMessageTreeItem && i.parentElement === folder);
+                sequenceNumbers = toSequenceNumbers(selected.map(i => i.messageInfo.message));
+            } else {
+                const input = await vscode.window.showInputBox({
+                    prompt: `Sequence numbers of the scheduled messages to cancel in ${folder.entityName}, separated by commas`,
+                    validateInput: (value) => parseSequenceNumbers(value) ? null : 'Please enter one or more sequence numbers, separated by commas'
+                });
+                if (!input) {
+                    return;
+                }
+                sequenceNumbers = parseSequenceNumbers(input)!;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Are you sure you want to cancel ${sequenceNumbers.length} scheduled message${sequenceNumbers.length === 1 ? '' : 's'} in ${folder.entityName}? They will never be enqueued.`,
+                { modal: true },
+                'Cancel Messages'
+            );
+            if (confirm !== 'Cancel Messages') {
+                return;
+            }
+
+            try {
+                await serviceBusService.cancelScheduledMessages(folder.namespace, folder.entityName, sequenceNumbers);
+                vscode.window.showInformationMessage(
+                    `Cancelled ${sequenceNumbers.length} scheduled message${sequenceNumbers.length === 1 ? '' : 's'}`
+                );
+                treeProvider.refresh(folder);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to cancel scheduled messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Receive Deferred Messages Command
+    const receiveDeferredMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.receiveDeferredMessages',
+        async (item?: QueueTreeItem | SubscriptionTreeItem | ActiveMessagesTreeItem | MessageTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a queue, subscription, or Active Messages folder');
+                return;
+            }
+
+            const source = item instanceof MessageTreeItem ? item.messageInfo : item;
+            const { namespace } = source;
+            const queueName = 'queueName' in source ? source.queueName : undefined;
+            const topicName = 'topicName' in source ? source.topicName : undefined;
+            const subscriptionName = 'subscriptionName' in source ? source.subscriptionName : undefined;
+
+            const input = await vscode.window.showInputBox({
+                prompt: 'Sequence numbers of the deferred messages to receive, separated by commas',
+                value: item instanceof MessageTreeItem ? item.messageInfo.message.sequenceNumber?.toString() : undefined,
+                validateInput: (value) => parseSequenceNumbers(value) ? null : 'Please enter one or more sequence numbers, separated by commas'
+            });
+            if (!input) {
+                return;
+            }
+
+            try {
+                const results = await serviceBusService.settleDeferredMessages(
+                    namespace,
+                    parseSequenceNumbers(input)!,
+                    queueName,
+                    topicName,
+                    subscriptionName,
+                    async (message) => {
+                        MessagePanel.createOrShow(context.extensionUri, {
+                            namespace,
+                            message,
+                            queueName,
+                            topicName,
+                            subscriptionName,
+                            isDeadLetter: false
+                        });
+                        return promptForDeferredAction(message.sequenceNumber?.toString() ?? '');
+                    }
+                );
+
+                treeProvider.refresh(item instanceof MessageTreeItem ? item.parentElement : item);
+                await showBulkOperationReport('Settle deferred', results);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to receive deferred messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Edit Session State Command
+    const editSessionStateCommand = vscode.commands.registerCommand(
+        'azureServiceBus.editSessionState',
+        async (item?: SessionTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a session');
+                return;
+            }
+
+            try {
+                await sessionStateEditorProvider.openForEdit(item);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to read session state: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Trace Correlation Command
+    const traceCorrelationCommand = vscode.commands.registerCommand(
+        'azureServiceBus.traceCorrelation',
+        async (item?: NamespaceTreeItem) => {
+            const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace to trace messages in');
+            if (!namespace) {
+                return;
+            }
+
+            const fieldChoice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Correlation ID or Message ID', fields: ['correlationId', 'messageId'] as TraceField[] },
+                    { label: 'Correlation ID', fields: ['correlationId'] as TraceField[] },
+                    { label: 'Message ID', fields: ['messageId'] as TraceField[] }
+                ],
+                { placeHolder: 'Match messages whose...' }
+            );
+            if (!fieldChoice) {
+                return;
+            }
+
+            const id = await vscode.window.showInputBox({
+                prompt: `${fieldChoice.label} to trace across every queue and subscription in ${namespace}`,
+                validateInput: (value) => value.trim() ? null : 'Please enter an ID'
+            });
+            if (!id) {
+                return;
+            }
+
+            await CorrelationTracePanel.createOrShow(context.extensionUri, serviceBusService, namespace, id.trim(), fieldChoice.fields);
+        }
+    );
+
+    // Close Search Results Command
+    const closeSearchResultsCommand = vscode.commands.registerCommand(
+        'azureServiceBus.closeSearchResults',
+        (item?: SearchResultsTreeItem) => {
+            if (item) {
+                treeProvider.removeSearchResults(item);
+            }
+        }
+    );
+
+    // Export Messages Command
+    const exportMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.exportMessages',
+        async (item?: MessageTreeItem | MessageFolderTreeItem, selectedItems?: (MessageTreeItem | MessageFolderTreeItem)[]) => {
+            const groups = collectMessageSelection(item, selectedItems);
+            if (groups.length === 0) {
+                vscode.window.showWarningMessage('Please select messages or a message folder to export');
+                return;
+            }
+
+            try {
+                const messages = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Collecting messages to export',
+                        cancellable: true
+                    },
+                    async (progress, token) => {
+                        const collected: ServiceBusReceivedMessage[] = [];
+                        for (const group of groups) {
+                            if (!group.allMessages) {
+                                collected.push(...group.messages);
+                                continue;
+                            }
+                            const { folder } = group;
+                            collected.push(...await serviceBusService.peekAllMessages(
+                                folder.namespace,
+                                folder.subQueue,
+                                folder.queueName,
+                                folder.topicName,
+                                folder.subscriptionName,
+                                {
+                                    isCancellationRequested: () => token.isCancellationRequested,
+                                    onProgress: (completed) => progress.report({ message: `${getEntityLabel(folder)}: ${completed} messages` })
+                                }
+                            ));
+                        }
+                        return token.isCancellationRequested ? undefined : collected;
+                    }
+                );
+
+                if (!messages) {
+                    return;
+                }
+
+                const firstFolder = groups[0].folder;
+                const suffix = { active: 'active', deadLetter: 'dlq', transferDeadLetter: 'tdlq' }[firstFolder.subQueue];
+                await exportMessagesToFile(messages, `${getEntityLabel(firstFolder)}-${suffix}`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to export messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Filtered Purge Messages Command
+    const purgeMessagesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.purgeMessages',
+        async (item?: MessageFolderTreeItem) => {
+            // Deleting by sequence number locks every message it passes, so active messages are only purged in full
+            if (item instanceof ActiveMessagesTreeItem) {
+                await purgeAllActiveMessages(item, serviceBusService, treeProvider);
+                return;
+            }
+            if (!(item instanceof DeadLetterQueueTreeItem)) {
+                vscode.window.showWarningMessage('Please select an Active Messages folder or dead-letter queue to purge');
+                return;
+            }
+
+            const filter = await promptForMessageFilter();
+            if (!filter) {
+                return;
+            }
+
+            try {
+                // Preview: peek everything and count what the filter matches before deleting anything
+                const preview = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Scanning ${getEntityLabel(item)}`,
+                        cancellable: true
+                    },
+                    async (progress, token) => {
+                        const scanned = await serviceBusService.peekAllMessages(
+                            item.namespace,
+                            item.subQueue,
+                            item.queueName,
+                            item.topicName,
+                            item.subscriptionName,
+                            {
+                                isCancellationRequested: () => token.isCancellationRequested,
+                                onProgress: (completed) => progress.report({ message: `${completed} messages` })
+                            }
+                        );
+                        return token.isCancellationRequested
+                            ? undefined
+                            : { scannedCount: scanned.length, matches: scanned.filter(m => matchesFilter(m, filter)) };
+                    }
+                );
+
+                if (!preview) {
+                    return;
+                }
+                if (preview.matches.length === 0) {
+                    vscode.window.showInformationMessage(`No messages match ${describeFilter(filter)} (${preview.scannedCount} scanned)`);
+                    return;
+                }
+
+                const confirm = await vscode.window.showWarningMessage(
+                    `${preview.matches.length} of ${preview.scannedCount} messages in the ${describeSubQueue(item.subQueue)} of ${getEntityLabel(item)} match ${describeFilter(filter)}. Permanently delete them? This action cannot be undone.`,
+                    { modal: true },
+                    `Delete ${preview.matches.length}`
+                );
+                if (confirm !== `Delete ${preview.matches.length}`) {
+                    return;
+                }
+
+                await runBulkOperation(
+                    'Purge',
+                    [{ folder: item, allMessages: false, messages: preview.matches }],
+                    serviceBusService,
+                    treeProvider,
+                    (folder, messages, options) => serviceBusService.deleteMessages(
+                        folder.namespace,
+                        folder.subQueue,
+                        toSequenceNumbers(messages),
+                        folder.queueName,
+                        folder.topicName,
+                        folder.subscriptionName,
+                        options
+                    )
+                );
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to purge messages: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Dead Letter Analytics Command
+    const showDeadLetterAnalyticsCommand = vscode.commands.registerCommand(
+        'azureServiceBus.showDeadLetterAnalytics',
+        async (item?: DeadLetterQueueTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a dead-letter queue to analyze');
+                return;
+            }
+
+            await DeadLetterAnalyticsPanel.createOrShow(
+                context.extensionUri,
+                serviceBusService,
+                item,
+                () => treeProvider.refresh(item)
+            );
+        }
+    );
+
     // Purge Dead Letter Queue Command
     const purgeDeadLetterCommand = vscode.commands.registerCommand(
         'azureServiceBus.purgeDeadLetter',
@@ -231,7 +923,7 @@ export function registerMessageCommands(
             }
 
             const confirm = await vscode.window.showWarningMessage(
-                `Are you sure you want to permanently delete ALL messages in this dead-letter queue? This action cannot be undone.`,
+                `Are you sure you want to permanently delete ALL messages in this ${describeSubQueue(item.subQueue)}? This action cannot be undone.`,
                 { modal: true },
                 'Purge All'
             );
@@ -244,7 +936,7 @@ export function registerMessageCommands(
                 const deletedCount = await vscode.window.withProgress(
                     {
                         location: vscode.ProgressLocation.Notification,
-                        title: 'Purging dead-letter queue...',
+                        title: `Purging ${describeSubQueue(item.subQueue)}...`,
                         cancellable: false
                     },
                     async () => {
@@ -252,27 +944,401 @@ export function registerMessageCommands(
                             item.namespace,
                             item.queueName,
                             item.topicName,
-                            item.subscriptionName
+                            item.subscriptionName,
+                            item.subQueue
                         );
                     }
                 );
 
                 vscode.window.showInformationMessage(
-                    `Purged ${deletedCount} messages from dead-letter queue`
+                    `Purged ${deletedCount} messages from ${describeSubQueue(item.subQueue)}`
                 );
                 treeProvider.refresh();
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : String(error);
-                vscode.window.showErrorMessage(`Failed to purge dead-letter queue: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Failed to purge ${describeSubQueue(item.subQueue)}: ${errorMessage}`);
             }
         }
     );
 
     context.subscriptions.push(
+        resubmitEditorRegistration,
+        resubmitEditorCloseListener,
+        sessionStateEditorRegistration,
         viewMessageCommand,
         peekMessagesCommand,
+        loadMoreMessagesCommand,
+        jumpToSequenceNumberCommand,
+        sendMessageCommand,
+        importMessagesCommand,
         resubmitMessageCommand,
+        editAndResubmitMessageCommand,
+        resubmitMessagesCommand,
+        moveMessagesCommand,
+        copyMessagesCommand,
         deleteMessageCommand,
+        exportMessagesCommand,
+        searchMessagesCommand,
+        traceCorrelationCommand,
+        editSessionStateCommand,
+        cancelScheduledMessagesCommand,
+        receiveDeferredMessagesCommand,
+        closeSearchResultsCommand,
+        showDeadLetterAnalyticsCommand,
+        purgeMessagesCommand,
         purgeDeadLetterCommand
     );
 }
+
+function getEntityLabel(folder: MessageFolderTreeItem): string {
+    return folder.queueName ?? `${folder.topicName}/${folder.subscriptionName}`;
+}
+
+/**
+ * Messages selected from a single folder. When the folder itself was selected, its messages
+ * are resolved by peeking the whole folder when the operation runs.
+ */
+interface MessageSelectionGroup {
+    folder: MessageFolderTreeItem;
+    allMessages: boolean;
+    messages: ServiceBusReceivedMessage[];
+}
+
+/**
+ * Group the clicked item, or the tree's multi-selection, by the folder the messages were peeked from
+ */
+function collectMessageSelection(
+    item: MessageTreeItem | MessageFolderTreeItem | undefined,
+    selectedItems: (MessageTreeItem | MessageFolderTreeItem)[] | undefined
+): MessageSelectionGroup[] {
+    const items = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+    const groups = new Map<MessageFolderTreeItem, MessageSelectionGroup>();
+
+    for (const selected of items) {
+        if (selected instanceof MessageFolderTreeItem) {
+            groups.set(selected, { folder: selected, allMessages: true, messages: [] });
+        }
+    }
+    for (const selected of items) {
+        if (!(selected instanceof MessageTreeItem) || !selected.parentElement) {
+            continue;
+        }
+        const group = groups.get(selected.parentElement)
+            ?? { folder: selected.parentElement, allMessages: false, messages: [] };
+        if (!group.allMessages) {
+            group.messages.push(selected.messageInfo.message);
+        }
+        groups.set(selected.parentElement, group);
+    }
+
+    return Array.from(groups.values());
+}
+
+function describeSelection(groups: MessageSelectionGroup[]): string {
+    const selectedCount = groups.reduce((sum, g) => sum + g.messages.length, 0);
+    const folderCount = groups.filter(g => g.allMessages).length;
+    const parts: string[] = [];
+    if (folderCount > 0) {
+        parts.push(`ALL messages in ${folderCount} folder${folderCount === 1 ? '' : 's'}`);
+    }
+    if (selectedCount > 0) {
+        parts.push(`${selectedCount} selected message${selectedCount === 1 ? '' : 's'}`);
+    }
+    return parts.join(' and ');
+}
+
+/**
+ * Delete every active message of a folder after confirming the count. Filters are not offered: picking out
+ * matches would lock the messages around them, while receiving everything in receiveAndDelete mode locks nothing.
+ */
+async function purgeAllActiveMessages(
+    item: ActiveMessagesTreeItem,
+    serviceBusService: ServiceBusService,
+    treeProvider: ServiceBusTreeProvider
+): Promise<void> {
+    try {
+        const activeCount = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Scanning ${getEntityLabel(item)}`,
+                cancellable: true
+            },
+            async (progress, token) => {
+                const scanned = await serviceBusService.peekAllMessages(
+                    item.namespace,
+                    'active',
+                    item.queueName,
+                    item.topicName,
+                    item.subscriptionName,
+                    {
+                        isCancellationRequested: () => token.isCancellationRequested,
+                        onProgress: (completed) => progress.report({ message: `${completed} messages` })
+                    }
+                );
+                return token.isCancellationRequested ? undefined : scanned.filter(m => m.state === 'active').length;
+            }
+        );
+
+        if (activeCount === undefined) {
+            return;
+        }
+        if (activeCount === 0) {
+            vscode.window.showInformationMessage(`There are no active messages in ${getEntityLabel(item)} to purge`);
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Permanently delete ALL ${activeCount} active messages of ${getEntityLabel(item)}? Scheduled and deferred messages are kept. This action cannot be undone.`,
+            { modal: true },
+            `Delete ${activeCount}`
+        );
+        if (confirm !== `Delete ${activeCount}`) {
+            return;
+        }
+
+        const deletedCount = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Purging active messages of ${getEntityLabel(item)}`,
+                cancellable: true
+            },
+            (progress, token) => serviceBusService.purgeActiveMessages(
+                item.namespace,
+                item.queueName,
+                item.topicName,
+                item.subscriptionName,
+                activeCount,
+                {
+                    isCancellationRequested: () => token.isCancellationRequested,
+                    onProgress: (completed, total) => progress.report({ message: `${completed}/${total}` })
+                }
+            )
+        );
+
+        treeProvider.refresh(item);
+        vscode.window.showInformationMessage(`Purged ${deletedCount} active messages from ${getEntityLabel(item)}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to purge messages: ${errorMessage}`);
+    }
+}
+
+/**
+ * Ask which filters to apply and their values. Returns an empty filter when none are chosen,
+ * or undefined when the user cancels.
+ */
+async function promptForMessageFilter(): Promise<MessageFilter | undefined> {
+    const choices = [
+        { label: 'Older than', description: 'Enqueued before a date/time or age', value: 'enqueuedBefore' },
+        { label: 'Subject', description: 'Subject matches (* wildcards)', value: 'subject' },
+        { label: 'Application property', description: 'name=value (* wildcards in value)', value: 'applicationProperty' },
+        { label: 'Dead-letter reason', description: 'Reason matches (* wildcards)', value: 'deadLetterReason' },
+        { label: 'Body contains', description: 'Body includes a substring', value: 'bodyContains' }
+    ];
+    const selected = await vscode.window.showQuickPick(choices, {
+        canPickMany: true,
+        placeHolder: 'Select filters (messages must match all), or press Enter with none selected to purge everything'
+    });
+    if (!selected) {
+        return undefined;
+    }
+
+    const filter: MessageFilter = {};
+    for (const choice of selected) {
+        switch (choice.value) {
+            case 'enqueuedBefore': {
+                const input = await vscode.window.showInputBox({
+                    prompt: 'Delete messages enqueued before (ISO date/time, or an age such as 30m, 12h, 7d)',
+                    validateInput: (value) => parseTimestamp(value) ? null : 'Please enter an ISO date/time or an age such as 12h'
+                });
+                if (input === undefined) {
+                    return undefined;
+                }
+                filter.enqueuedBefore = parseTimestamp(input);
+                break;
+            }
+            case 'applicationProperty': {
+                const input = await vscode.window.showInputBox({
+                    prompt: 'Application property to match, as name=value',
+                    placeHolder: 'tenantId=contoso-*',
+                    validateInput: (value) => value.includes('=') && value.split('=')[0].trim() ? null : 'Please enter name=value'
+                });
+                if (input === undefined) {
+                    return undefined;
+                }
+                const [name, ...valueParts] = input.split('=');
+                filter.applicationProperty = { name: name.trim(), value: valueParts.join('=').trim() };
+                break;
+            }
+            default: {
+                const key = choice.value as 'subject' | 'deadLetterReason' | 'bodyContains';
+                const input = await vscode.window.showInputBox({ prompt: `${choice.label}: ${choice.description}` });
+                if (input === undefined) {
+                    return undefined;
+                }
+                filter[key] = input;
+            }
+        }
+    }
+    return filter;
+}
+
+/**
+ * Ask what to search on and for the search text, validating regular expressions and expressions
+ * as they are typed. Returns undefined when the user cancels.
+ */
+async function promptForSearchQuery(): Promise<MessageSearchQuery | undefined> {
+    const choices: (vscode.QuickPickItem & { field: SearchField })[] = [
+        { label: 'Message ID', description: 'Message ID contains text', field: 'messageId' },
+        { label: 'Correlation ID', description: 'Correlation ID contains text', field: 'correlationId' },
+        { label: 'Subject', description: 'Subject contains text', field: 'subject' },
+        { label: 'Application property value', description: 'Any application property value contains text', field: 'applicationProperties' },
+        { label: 'Body (regular expression)', description: 'Body matches a case-insensitive regular expression', field: 'bodyRegex' },
+        { label: 'Expression', description: 'e.g. subject == "OrderCreated" and app.tenant contains "contoso"', field: 'expression' }
+    ];
+    const choice = await vscode.window.showQuickPick(choices, { placeHolder: 'Search messages by' });
+    if (!choice) {
+        return undefined;
+    }
+
+    const text = await vscode.window.showInputBox({
+        prompt: `${choice.label}: ${choice.description}`,
+        placeHolder: choice.field === 'expression'
+            ? 'Fields: messageId, correlationId, subject, sessionId, contentType, replyTo, body, deadLetterReason, app.<name>'
+            : undefined,
+        validateInput: (value) => {
+            if (!value) {
+                return 'Please enter text to search for';
+            }
+            try {
+                compileSearch({ field: choice.field, text: value });
+                return null;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        }
+    });
+    if (!text) {
+        return undefined;
+    }
+    return { field: choice.field, text };
+}
+
+/**
+ * Parse a comma-separated list of sequence numbers, or return undefined when any entry is invalid
+ */
+function parseSequenceNumbers(input: string): Long[] | undefined {
+    const parts = input.split(',').map(p => p.trim()).filter(p => p);
+    if (parts.length === 0 || parts.some(p => !/^\d+$/.test(p))) {
+        return undefined;
+    }
+    return parts.map(p => Long.fromString(p));
+}
+
+/**
+ * Ask how to settle a received deferred message. Returns undefined to leave it deferred.
+ */
+async function promptForDeferredAction(sequenceNumber: string): Promise<DeferredMessageAction | undefined> {
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'Complete', description: 'Remove the message', action: 'complete' as const },
+            { label: 'Abandon', description: 'Release the lock; the message stays deferred', action: 'abandon' as const },
+            { label: 'Dead-letter', description: 'Move the message to the dead-letter queue', action: 'deadLetter' as const },
+            { label: 'Skip', description: 'Leave the message deferred', action: undefined }
+        ],
+        { placeHolder: `Deferred message #${sequenceNumber}: what should happen to it?`, ignoreFocusOut: true }
+    );
+
+    switch (choice?.action) {
+        case 'complete':
+        case 'abandon':
+            return { action: choice.action };
+        case 'deadLetter': {
+            const deadLetterReason = await vscode.window.showInputBox({
+                prompt: 'Dead-letter reason',
+                value: 'ManuallyDeadLettered',
+                ignoreFocusOut: true
+            });
+            if (deadLetterReason === undefined) {
+                return undefined;
+            }
+            const deadLetterErrorDescription = await vscode.window.showInputBox({
+                prompt: 'Dead-letter error description (optional)',
+                ignoreFocusOut: true
+            });
+            return { action: 'deadLetter', deadLetterReason, deadLetterErrorDescription };
+        }
+        default:
+            return undefined;
+    }
+}
+
+function toSequenceNumbers(messages: ServiceBusReceivedMessage[]): Long[] {
+    return messages
+        .filter(m => m.sequenceNumber)
+        .map(m => Long.fromValue(m.sequenceNumber!));
+}
+
+/**
+ * Run a bulk operation over each selection group with cancellable progress, refresh the
+ * affected folders and show the per-message report
+ */
+async function runBulkOperation(
+    operation: string,
+    groups: MessageSelectionGroup[],
+    serviceBusService: ServiceBusService,
+    treeProvider: ServiceBusTreeProvider,
+    execute: (folder: MessageFolderTreeItem, messages: ServiceBusReceivedMessage[], options: BulkOperationOptions) => Promise<BulkOperationResult[]>
+): Promise<void> {
+    try {
+        const results = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `${operation} messages`,
+                cancellable: true
+            },
+            async (progress, token) => {
+                const allResults: BulkOperationResult[] = [];
+                for (const group of groups) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+
+                    const { folder } = group;
+                    let messages = group.messages;
+                    if (group.allMessages) {
+                        progress.report({ message: `Scanning ${getEntityLabel(folder)}...` });
+                        messages = await serviceBusService.peekAllMessages(
+                            folder.namespace,
+                            folder.subQueue,
+                            folder.queueName,
+                            folder.topicName,
+                            folder.subscriptionName,
+                            { isCancellationRequested: () => token.isCancellationRequested }
+                        );
+                    }
+
+                    let lastCompleted = 0;
+                    const groupResults = await execute(folder, messages, {
+                        isCancellationRequested: () => token.isCancellationRequested,
+                        onProgress: (completed, total) => {
+                            progress.report({
+                                increment: ((completed - lastCompleted) / total) * (100 / groups.length),
+                                message: `${getEntityLabel(folder)}: ${completed}/${total}`
+                            });
+                            lastCompleted = completed;
+                        }
+                    });
+                    allResults.push(...groupResults);
+                    treeProvider.refresh(folder);
+                }
+                return allResults;
+            }
+        );
+
+        await showBulkOperationReport(operation, results);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to ${operation.toLowerCase()} messages: ${errorMessage}`);
+    }
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
-import { ServiceBusService } from '../servicebus/serviceBusService';
+import { ServiceBusService, TRANSPORT_LABELS, Transport } from '../servicebus/serviceBusService';
 import { NamespaceTreeItem, ServiceBusTreeItem } from '../tree/treeItems';
 
 export function registerNamespaceCommands(
@@ -117,8 +117,11 @@ export function registerNamespaceCommands(
             );
 
             if (confirm === 'Remove') {
-                // Remove stored connection string
+                // Remove stored connection string and transport
                 await context.secrets.delete(`azureServiceBus.connectionString.${item.namespace}`);
+                const transports = context.globalState.get<Record<string, Transport>>('azureServiceBus.transports', {});
+                delete transports[item.namespace];
+                await context.globalState.update('azureServiceBus.transports', transports);
                 treeProvider.removeNamespace(item.namespace);
                 vscode.window.showInformationMessage(
                     `Removed namespace: ${item.namespace}`
@@ -127,6 +130,52 @@ export function registerNamespaceCommands(
         }
     );
 
+    // Set Transport Command
+    const setTransportCommand = vscode.commands.registerCommand(
+        'azureServiceBus.setTransport',
+        async (item?: NamespaceTreeItem) => {
+            if (!item) {
+                vscode.window.showWarningMessage('Please select a namespace');
+                return;
+            }
+
+            const current = serviceBusService.getTransport(item.namespace);
+            const descriptions: Record<Transport, string> = {
+                amqp: 'Ports 5671 and 5672; supports every operation',
+                amqpWebSockets: 'Port 443; supports every operation, and works through proxies and firewalls',
+                rest: 'Plain HTTPS; only send messages, and browse, delete and resubmit dead-letter messages'
+            };
+            const picked = await vscode.window.showQuickPick(
+                (Object.keys(TRANSPORT_LABELS) as Transport[]).map(transport => ({
+                    label: transport === current ? `$(check) ${TRANSPORT_LABELS[transport]}` : TRANSPORT_LABELS[transport],
+                    description: descriptions[transport],
+                    transport
+                })),
+                { placeHolder: `How should messages of ${item.namespace} be sent and received?` }
+            );
+            if (!picked || picked.transport === current) {
+                return;
+            }
+
+            if (picked.transport === 'rest') {
+                const confirm = await vscode.window.showWarningMessage(
+                    `The REST API cannot peek. Over REST, active messages cannot be browsed, searched or exported, and dead-letter queues are read by locking each message in turn and unlocking it afterwards, which increases its delivery count. Use REST for ${item.namespace}?`,
+                    { modal: true },
+                    'Use REST'
+                );
+                if (confirm !== 'Use REST') {
+                    return;
+                }
+            }
+
+            serviceBusService.setTransport(item.namespace, picked.transport);
+            const transports = context.globalState.get<Record<string, Transport>>('azureServiceBus.transports', {});
+            await context.globalState.update('azureServiceBus.transports', { ...transports, [item.namespace]: picked.transport });
+            treeProvider.refresh();
+            vscode.window.showInformationMessage(`${item.namespace} now uses ${TRANSPORT_LABELS[picked.transport]}`);
+        }
+    );
+
     // Refresh Command
     const refreshCommand = vscode.commands.registerCommand(
         'azureServiceBus.refresh',
@@ -146,6 +195,7 @@ export function registerNamespaceCommands(
     context.subscriptions.push(
         addNamespaceCommand,
         removeNamespaceCommand,
+        setTransportCommand,
         refreshCommand,
         refreshNodeCommand
     );
@@ -167,3 +217,16 @@ export async function restoreConnectionStrings(
         }
     }
 }
+
+/**
+ * Restore the transport chosen for each namespace on extension activation
+ */
+export function restoreTransports(
+    context: vscode.ExtensionContext,
+    serviceBusService: ServiceBusService
+): void {
+    const transports = context.globalState.get<Record<string, Transport>>('azureServiceBus.transports', {});
+    for (const [namespace, transport] of Object.entries(transports)) {
+        serviceBusService.setTransport(namespace, transport);
+    }
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
+
+export interface EntityPick {
+    namespace: string;
+    entityName: string;
+    entityType: 'queue' | 'topic';
+}
+
+/**
+ * Let the user choose one of the registered namespaces
+ */
+export async function pickNamespace(
+    treeProvider: ServiceBusTreeProvider,
+    placeHolder: string,
+    exclude?: string
+): Promise<string | undefined> {
+    const namespaces = treeProvider.getNamespaces().filter(ns => ns !== exclude);
+    if (namespaces.length === 0) {
+        vscode.window.showWarningMessage('No other namespaces are registered. Add a namespace first.');
+        return undefined;
+    }
+
+    return vscode.window.showQuickPick(namespaces, { placeHolder });
+}
+
+/**
+ * Let the user choose a queue or topic in any registered namespace
+ */
+export async function pickEntity(
+    treeProvider: ServiceBusTreeProvider,
+    serviceBusService: ServiceBusService,
+    placeHolder: string
+): Promise<EntityPick | undefined> {
+    const namespace = await pickNamespace(treeProvider, 'Select the target namespace');
+    if (!namespace) {
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        (async () => {
+            const [queues, topics] = await Promise.all([
+                serviceBusService.listQueues(namespace),
+                serviceBusService.listTopics(namespace)
+            ]);
+            return [
+                ...queues.map(queue => ({
+                    label: `$(mail) ${queue.name}`,
+                    description: 'Queue',
+                    pick: { namespace, entityName: queue.name, entityType: 'queue' as const }
+                })),
+                ...topics.map(topic => ({
+                    label: `$(broadcast) ${topic.name}`,
+                    description: 'Topic',
+                    pick: { namespace, entityName: topic.name, entityType: 'topic' as const }
+                }))
+            ];
+        })(),
+        { placeHolder, matchOnDescription: true }
+    );
+
+    return picked?.pick;
+}
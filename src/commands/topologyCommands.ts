@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+import {
+    TopologyChange,
+    TopologyDifference,
+    TopologyFormat,
+    applyTopologyChange,
+    diffTopologies,
+    parseTopology,
+    planTopology,
+    readTopology,
+    serializeTopology
+} from '../servicebus/topology';
+import { ServiceBusTreeProvider } from '../tree/serviceBusTreeProvider';
+import { NamespaceTreeItem } from '../tree/treeItems';
+import { NamespaceGraphPanel } from '../views/namespaceGraphPanel';
+import { pickNamespace } from './pickers';
+
+const COMPARE_SCHEME = 'azureservicebus-compare';
+
+export function registerTopologyCommands(
+    context: vscode.ExtensionContext,
+    treeProvider: ServiceBusTreeProvider,
+    serviceBusService: ServiceBusService
+): void {
+    // Read-only documents shown on either side of a namespace comparison
+    const compareDocuments = new Map<string, string>();
+    const compareProviderRegistration = vscode.workspace.registerTextDocumentContentProvider(COMPARE_SCHEME, {
+        provideTextDocumentContent: (uri) => compareDocuments.get(uri.path) ?? ''
+    });
+    const compareDocumentCloseListener = vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme === COMPARE_SCHEME) {
+            compareDocuments.delete(document.uri.path);
+        }
+    });
+
+    // Export Topology Command
+    const exportTopologyCommand = vscode.commands.registerCommand(
+        'azureServiceBus.exportTopology',
+        async (item?: NamespaceTreeItem) => {
+            const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace to export');
+            if (!namespace) {
+                return;
+            }
+
+            const format = await vscode.window.showQuickPick(
+                [
+                    { label: 'YAML', description: 'Easier to read and review', format: 'yaml' as const, extension: 'yaml' },
+                    { label: 'JSON', format: 'json' as const, extension: 'json' }
+                ],
+                { placeHolder: `Export the topology of ${namespace} as...` }
+            );
+            if (!format) {
+                return;
+            }
+
+            const fileName = `${namespace.replace(/[^\w.-]+/g, '_')}.topology.${format.extension}`;
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+                filters: { [format.label]: format.format === 'yaml' ? ['yaml', 'yml'] : ['json'] }
+            });
+            if (!uri) {
+                return;
+            }
+
+            try {
+                const topology = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Reading the topology of ${namespace}` },
+                    () => readTopology(serviceBusService, namespace)
+                );
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeTopology(topology, format.format), 'utf8'));
+
+                const subscriptionCount = topology.topics.reduce((sum, topic) => sum + topic.subscriptions.length, 0);
+                vscode.window.showInformationMessage(
+                    `Exported ${topology.queues.length} queues, ${topology.topics.length} topics and ${subscriptionCount} subscriptions to ${vscode.workspace.asRelativePath(uri)}`
+                );
+                await vscode.window.showTextDocument(uri);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to export topology: ${errorMessage}`);
+            }
+        }
+    );
+
+    // Apply Topology Command
+    const applyTopologyCommand = vscode.commands.registerCommand(
+        'azureServiceBus.applyTopology',
+        async (item?: NamespaceTreeItem) => {
+            const picked = await vscode.window.showOpenDialog({
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                canSelectMany: false,
+                filters: { 'Topology': ['yaml', 'yml', 'json'] },
+                openLabel: 'Apply Topology'
+            });
+            const fileUri = picked?.[0];
+            if (!fileUri) {
+                return;
+            }
+
+            const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace to apply the topology to');
+            if (!namespace) {
+                return;
+            }
+
+            const format: TopologyFormat = /\.ya?ml$/i.test(fileUri.path) ? 'yaml' : 'json';
+
+            let changes: TopologyChange[];
+            try {
+                const text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+                const desired = parseTopology(text, format);
+                const current = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Reading the topology of ${namespace}` },
+                    () => readTopology(serviceBusService, namespace)
+                );
+                changes = planTopology(desired, current);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to plan topology: ${errorMessage}`);
+                return;
+            }
+
+            const applicable = changes.filter(change => change.action !== 'conflict');
+            const conflicts = changes.length - applicable.length;
+            if (changes.length === 0) {
+                vscode.window.showInformationMessage(`${namespace} already matches ${vscode.workspace.asRelativePath(fileUri)}`);
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument({
+                content: formatPlan(namespace, vscode.workspace.asRelativePath(fileUri), changes),
+                language: 'diff'
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+
+            if (applicable.length === 0) {
+                vscode.window.showWarningMessage(`Nothing can be applied to ${namespace}: ${conflicts} settings are fixed at creation`);
+                return;
+            }
+
+            const creates = applicable.filter(change => change.action === 'create').length;
+            const confirm = await vscode.window.showWarningMessage(
+                `Apply ${creates} creates and ${applicable.length - creates} updates to ${namespace}?${conflicts > 0 ? ` ${conflicts} conflicts will be skipped.` : ''}`,
+                { modal: true, detail: 'Review the plan in the editor. Entities and rules that exist only in the namespace are left alone.' },
+                'Apply'
+            );
+            if (confirm !== 'Apply') {
+                return;
+            }
+
+            const failures: string[] = [];
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Applying topology to ${namespace}`, cancellable: true },
+                async (progress, token) => {
+                    for (const [index, change] of applicable.entries()) {
+                        if (token.isCancellationRequested) {
+                            failures.push(`${applicable.length - index} changes not applied: cancelled`);
+                            break;
+                        }
+                        progress.report({ message: `${change.action} ${change.kind} ${change.path}`, increment: 100 / applicable.length });
+                        try {
+                            await applyTopologyChange(serviceBusService, namespace, change);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            failures.push(`${change.action} ${change.kind} ${change.path}: ${errorMessage}`);
+                        }
+                    }
+                }
+            );
+
+            treeProvider.refresh();
+            if (failures.length === 0) {
+                vscode.window.showInformationMessage(`Applied ${applicable.length} changes to ${namespace}`);
+            } else {
+                const selection = await vscode.window.showWarningMessage(
+                    `Applied topology to ${namespace} with ${failures.length} failures`,
+                    'Show Details'
+                );
+                if (selection === 'Show Details') {
+                    const report = await vscode.workspace.openTextDocument({ content: `${failures.join('\n')}\n`, language: 'plaintext' });
+                    await vscode.window.showTextDocument(report);
+                }
+            }
+        }
+    );
+
+    // Compare Namespaces Command
+    const compareNamespacesCommand = vscode.commands.registerCommand(
+        'azureServiceBus.compareNamespaces',
+        async (item?: NamespaceTreeItem) => {
+            const left = item?.namespace ?? await pickNamespace(treeProvider, 'Select the first namespace to compare');
+            if (!left) {
+                return;
+            }
+            const right = await pickNamespace(treeProvider, `Select the namespace to compare ${left} with`, left);
+            if (!right) {
+                return;
+            }
+
+            let differences: TopologyDifference[];
+            try {
+                const [leftTopology, rightTopology] = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Reading the topologies of ${left} and ${right}` },
+                    () => Promise.all([readTopology(serviceBusService, left), readTopology(serviceBusService, right)])
+                );
+                differences = diffTopologies(leftTopology, rightTopology);
+
+                // Leave out the namespace name so only real differences are highlighted
+                const generation = Date.now();
+                const leftUri = vscode.Uri.from({ scheme: COMPARE_SCHEME, path: `/${generation}/${left}.yaml` });
+                const rightUri = vscode.Uri.from({ scheme: COMPARE_SCHEME, path: `/${generation}/${right}.yaml` });
+                compareDocuments.set(leftUri.path, serializeTopology({ ...leftTopology, namespace: undefined }, 'yaml'));
+                compareDocuments.set(rightUri.path, serializeTopology({ ...rightTopology, namespace: undefined }, 'yaml'));
+                await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, `${left} ↔ ${right}`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to compare namespaces: ${errorMessage}`);
+                return;
+            }
+
+            if (differences.length === 0) {
+                vscode.window.showInformationMessage(`${left} and ${right} have the same topology`);
+                return;
+            }
+
+            const count = (change: TopologyDifference['change']): number => differences.filter(d => d.change === change).length;
+            const selection = await vscode.window.showInformationMessage(
+                `${right} compared with ${left}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`,
+                'Show Summary'
+            );
+            if (selection === 'Show Summary') {
+                const document = await vscode.workspace.openTextDocument({
+                    content: formatDifferences(left, right, differences),
+                    language: 'diff'
+                });
+                await vscode.window.showTextDocument(document);
+            }
+        }
+    );
+
+    // Show Namespace Graph Command
+    const showNamespaceGraphCommand = vscode.commands.registerCommand(
+        'azureServiceBus.showNamespaceGraph',
+        async (item?: NamespaceTreeItem) => {
+            const namespace = item?.namespace ?? await pickNamespace(treeProvider, 'Select the namespace to graph');
+            if (!namespace) {
+                return;
+            }
+
+            NamespaceGraphPanel.createOrShow(
+                context.extensionUri,
+                serviceBusService,
+                namespace,
+                async (entityNamespace, kind, name, topicName) => {
+                    try {
+                        await treeProvider.revealEntity(entityNamespace, kind, name, topicName);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        vscode.window.showErrorMessage(`Failed to reveal ${name}: ${errorMessage}`);
+                    }
+                }
+            );
+        }
+    );
+
+    context.subscriptions.push(
+        compareProviderRegistration,
+        compareDocumentCloseListener,
+        exportTopologyCommand,
+        applyTopologyCommand,
+        compareNamespacesCommand,
+        showNamespaceGraphCommand
+    );
+}
+
+/**
+ * Render a comparison: "+" only in the right namespace, "-" only in the left, "~" different settings
+ */
+function formatDifferences(left: string, right: string, differences: TopologyDifference[]): string {
+    const lines = [`Topology of ${right} compared with ${left}`, ''];
+    for (const difference of differences) {
+        const marker = difference.change === 'added' ? '+' : difference.change === 'removed' ? '-' : '~';
+        const where = difference.change === 'added' ? ` (only in ${right})` : difference.change === 'removed' ? ` (only in ${left})` : '';
+        lines.push(`${marker} ${difference.kind} ${difference.path}${where}`);
+        lines.push(...difference.details.map(detail => `${marker}     ${detail}`));
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render the planned changes: "+" creates, "~" updates and "!" conflicts that will be skipped
+ */
+function formatPlan(namespace: string, source: string, changes: TopologyChange[]): string {
+    const count = (action: TopologyChange['action']): number => changes.filter(change => change.action === action).length;
+    const lines = [
+        `Topology plan for ${namespace} from ${source}`,
+        `${count('create')} to create, ${count('update')} to update, ${count('conflict')} conflicts (not applied)`,
+        ''
+    ];
+    for (const change of changes) {
+        const marker = change.action === 'create' ? '+' : change.action === 'update' ? '~' : '!';
+        lines.push(`${marker} ${change.action} ${change.kind} ${change.path}`);
+        lines.push(...change.details.map(detail => `${marker}     ${detail}`));
+    }
+    return `${lines.join('\n')}\n`;
+}
@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import { ServiceBusTreeProvider } from './tree/serviceBusTreeProvider';
 import { ServiceBusService } from './servicebus/serviceBusService';
-import { registerNamespaceCommands, restoreConnectionStrings } from './commands/namespaceCommands';
+import { registerNamespaceCommands, restoreConnectionStrings, restoreTransports } from './commands/namespaceCommands';
 import { registerMessageCommands } from './commands/messageCommands';
+import { registerEntityCommands } from './commands/entityCommands';
+import { registerTopologyCommands } from './commands/topologyCommands';
+import { registerAccessPolicyCommands } from './commands/accessPolicyCommands';
 
 let serviceBusService: ServiceBusService;
 
@@ -19,16 +22,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // This ensures commands are available when the view renders
     registerNamespaceCommands(context, treeProvider, serviceBusService);
     registerMessageCommands(context, treeProvider, serviceBusService);
+    registerEntityCommands(context, treeProvider, serviceBusService);
+    registerTopologyCommands(context, treeProvider, serviceBusService);
+    registerAccessPolicyCommands(context, treeProvider, serviceBusService);
 
     // Register the tree view
     const treeView = vscode.window.createTreeView('azureServiceBusExplorer', {
         treeDataProvider: treeProvider,
-        showCollapseAll: true
+        showCollapseAll: true,
+        canSelectMany: true
     });
+    treeProvider.setTreeView(treeView);
 
     // Restore connection strings from secret storage
     const savedNamespaces = context.globalState.get<string[]>('azureServiceBus.namespaces', []);
     await restoreConnectionStrings(context, serviceBusService, savedNamespaces);
+    restoreTransports(context, serviceBusService);
 
     // Add disposables
     context.subscriptions.push(treeView);
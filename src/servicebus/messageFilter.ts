@@ -0,0 +1,103 @@
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { convertToPlainObject } from './serviceBusService';
+
+/**
+ * Criteria a message must all match. Text criteria are case-insensitive and support `*` wildcards,
+ * except bodyContains which is a plain substring match.
+ */
+export interface MessageFilter {
+    enqueuedBefore?: Date;
+    subject?: string;
+    applicationProperty?: { name: string; value: string };
+    deadLetterReason?: string;
+    bodyContains?: string;
+}
+
+export function matchesFilter(message: ServiceBusReceivedMessage, filter: MessageFilter): boolean {
+    if (filter.enqueuedBefore
+        && (!message.enqueuedTimeUtc || message.enqueuedTimeUtc.getTime() >= filter.enqueuedBefore.getTime())) {
+        return false;
+    }
+    if (filter.subject !== undefined && !wildcardMatch(filter.subject, message.subject)) {
+        return false;
+    }
+    if (filter.deadLetterReason !== undefined && !wildcardMatch(filter.deadLetterReason, message.deadLetterReason)) {
+        return false;
+    }
+    if (filter.applicationProperty) {
+        const properties = (convertToPlainObject(message.applicationProperties ?? {}) ?? {}) as Record<string, unknown>;
+        const value = properties[filter.applicationProperty.name];
+        if (value === undefined || !wildcardMatch(filter.applicationProperty.value, formatValue(value))) {
+            return false;
+        }
+    }
+    if (filter.bodyContains !== undefined && !getBodyText(message).includes(filter.bodyContains)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Human-readable summary of a filter, for confirmations and reports
+ */
+export function describeFilter(filter: MessageFilter): string {
+    const parts: string[] = [];
+    if (filter.enqueuedBefore) {
+        parts.push(`enqueued before ${filter.enqueuedBefore.toISOString()}`);
+    }
+    if (filter.subject !== undefined) {
+        parts.push(`subject "${filter.subject}"`);
+    }
+    if (filter.applicationProperty) {
+        parts.push(`${filter.applicationProperty.name} = "${filter.applicationProperty.value}"`);
+    }
+    if (filter.deadLetterReason !== undefined) {
+        parts.push(`dead-letter reason "${filter.deadLetterReason}"`);
+    }
+    if (filter.bodyContains !== undefined) {
+        parts.push(`body containing "${filter.bodyContains}"`);
+    }
+    return parts.length > 0 ? parts.join(', ') : 'all messages';
+}
+
+/**
+ * The message body as text: strings as-is, binary bodies decoded as UTF-8, anything else as JSON
+ */
+export function getBodyText(message: ServiceBusReceivedMessage): string {
+    const body = message.body;
+    if (body === null || body === undefined) {
+        return '';
+    }
+    if (typeof body === 'string') {
+        return body;
+    }
+    if (Buffer.isBuffer(body)) {
+        return body.toString('utf8');
+    }
+    return typeof body === 'object' ? JSON.stringify(convertToPlainObject(body)) : String(body);
+}
+
+/**
+ * Parse an absolute ISO 8601 date, or a relative age such as `30m`, `12h` or `7d` (meaning that long ago)
+ */
+export function parseTimestamp(input: string, now: Date = new Date()): Date | undefined {
+    const relative = input.trim().match(/^(\d+)\s*([mhd])$/i);
+    if (relative) {
+        const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2].toLowerCase() as 'm' | 'h' | 'd'];
+        return new Date(now.getTime() - Number(relative[1]) * unitMs);
+    }
+    const date = new Date(input.trim());
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function wildcardMatch(pattern: string, value: string | undefined): boolean {
+    if (value === undefined) {
+        return false;
+    }
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}$`, 'is').test(value);
+}
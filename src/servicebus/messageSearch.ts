@@ -0,0 +1,262 @@
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { convertToPlainObject } from './serviceBusService';
+import { getBodyText } from './messageFilter';
+
+export type SearchField =
+    | 'messageId'
+    | 'correlationId'
+    | 'subject'
+    | 'applicationProperties'
+    | 'bodyRegex'
+    | 'expression';
+
+export interface MessageSearchQuery {
+    field: SearchField;
+    text: string;
+}
+
+export type MessagePredicate = (message: ServiceBusReceivedMessage) => boolean;
+
+/**
+ * Compile a search query into a predicate. Field searches are case-insensitive substring matches;
+ * body searches use a regular expression; expressions use the small language described in
+ * {@link compileExpression}. Throws when the regular expression or expression is invalid.
+ */
+export function compileSearch(query: MessageSearchQuery): MessagePredicate {
+    const needle = query.text.toLowerCase();
+    const contains = (value: unknown): boolean =>
+        value !== undefined && value !== null && String(value).toLowerCase().includes(needle);
+
+    switch (query.field) {
+        case 'messageId':
+            return message => contains(message.messageId);
+        case 'correlationId':
+            return message => contains(message.correlationId);
+        case 'subject':
+            return message => contains(message.subject);
+        case 'applicationProperties':
+            return message => Object.values(getApplicationProperties(message)).some(value => contains(formatValue(value)));
+        case 'bodyRegex': {
+            const regex = new RegExp(query.text, 'i');
+            return message => regex.test(getBodyText(message));
+        }
+        case 'expression':
+            return compileExpression(query.text);
+    }
+}
+
+export function describeSearch(query: MessageSearchQuery): string {
+    switch (query.field) {
+        case 'bodyRegex':
+            return `body ~ /${query.text}/`;
+        case 'expression':
+            return query.text;
+        case 'applicationProperties':
+            return `property value "${query.text}"`;
+        default:
+            return `${query.field} "${query.text}"`;
+    }
+}
+
+function getApplicationProperties(message: ServiceBusReceivedMessage): Record<string, unknown> {
+    return (convertToPlainObject(message.applicationProperties ?? {}) ?? {}) as Record<string, unknown>;
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Field names an expression may compare, besides app.<name> for application properties
+ */
+const EXPRESSION_FIELDS = [
+    'messageId',
+    'correlationId',
+    'subject',
+    'sessionId',
+    'contentType',
+    'replyTo',
+    'body',
+    'deadLetterReason',
+    'deadLetterErrorDescription',
+    'deadLetterSource'
+];
+
+function assertKnownField(field: string): void {
+    if (!(field.startsWith('app.') && field.length > 4) && !EXPRESSION_FIELDS.includes(field)) {
+        throw new Error(`Unknown field "${field}". Use ${EXPRESSION_FIELDS.join(', ')} or app.<name>`);
+    }
+}
+
+/**
+ * Resolve a field name used in an expression to the message's value for it
+ */
+function getFieldValue(message: ServiceBusReceivedMessage, field: string): string | undefined {
+    if (field.startsWith('app.')) {
+        const value = getApplicationProperties(message)[field.substring(4)];
+        return value === undefined || value === null ? undefined : formatValue(value);
+    }
+
+    switch (field) {
+        case 'messageId':
+            return message.messageId?.toString();
+        case 'correlationId':
+            return message.correlationId?.toString();
+        case 'subject':
+            return message.subject;
+        case 'sessionId':
+            return message.sessionId;
+        case 'contentType':
+            return message.contentType;
+        case 'replyTo':
+            return message.replyTo;
+        case 'body':
+            return getBodyText(message);
+        case 'deadLetterReason':
+            return message.deadLetterReason;
+        case 'deadLetterErrorDescription':
+            return message.deadLetterErrorDescription;
+        case 'deadLetterSource':
+            return message.deadLetterSource;
+        default:
+            return undefined;
+    }
+}
+
+type Token =
+    | { kind: 'word'; value: string }
+    | { kind: 'string'; value: string }
+    | { kind: 'op'; value: string };
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(==|!=|!~|~|\(|\)|&&|\|\||!)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s()=!~"']+))/y;
+    let index = 0;
+
+    while (index < text.length) {
+        if (!text.substring(index).trim()) {
+            break;
+        }
+        pattern.lastIndex = index;
+        const match = pattern.exec(text);
+        if (!match) {
+            throw new Error(`Unexpected character at position ${index + 1}`);
+        }
+        index = pattern.lastIndex;
+
+        if (match[1] !== undefined) {
+            tokens.push({ kind: 'op', value: match[1] });
+        } else if (match[2] !== undefined || match[3] !== undefined) {
+            tokens.push({ kind: 'string', value: (match[2] ?? match[3]).replace(/\\(["'\\])/g, '$1') });
+        } else {
+            tokens.push({ kind: 'word', value: match[4] });
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Compile a boolean expression over message fields, for example:
+ *
+ *     subject == "OrderCreated" and (app.tenant contains "contoso" or body ~ "order-\d+")
+ *
+ * Comparisons are `==`, `!=` (exact), `~`, `!~` (case-insensitive regex) and `contains`
+ * (case-insensitive substring). Combine them with `and`/`&&`, `or`/`||`, `not`/`!` and parentheses.
+ */
+export function compileExpression(text: string): MessagePredicate {
+    const tokens = tokenize(text);
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+    const isKeyword = (token: Token | undefined, ...values: string[]): boolean =>
+        token !== undefined && token.kind !== 'string' && values.includes(token.value.toLowerCase());
+
+    const parseOr = (): MessagePredicate => {
+        let left = parseAnd();
+        while (isKeyword(peek(), 'or', '||')) {
+            position++;
+            const lhs = left;
+            const rhs = parseAnd();
+            left = message => lhs(message) || rhs(message);
+        }
+        return left;
+    };
+
+    const parseAnd = (): MessagePredicate => {
+        let left = parseUnary();
+        while (isKeyword(peek(), 'and', '&&')) {
+            position++;
+            const lhs = left;
+            const rhs = parseUnary();
+            left = message => lhs(message) && rhs(message);
+        }
+        return left;
+    };
+
+    const parseUnary = (): MessagePredicate => {
+        const token = peek();
+        if (isKeyword(token, 'not', '!')) {
+            position++;
+            const operand = parseUnary();
+            return message => !operand(message);
+        }
+        if (token?.kind === 'op' && token.value === '(') {
+            position++;
+            const inner = parseOr();
+            const closing = peek();
+            if (closing?.kind !== 'op' || closing.value !== ')') {
+                throw new Error('Expected ")"');
+            }
+            position++;
+            return inner;
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = (): MessagePredicate => {
+        const fieldToken = tokens[position++];
+        if (!fieldToken || fieldToken.kind !== 'word') {
+            throw new Error(`Expected a field name${fieldToken ? ` but found "${fieldToken.value}"` : ''}`);
+        }
+        const operatorToken = tokens[position++];
+        if (!operatorToken || !['==', '!=', '~', '!~', 'contains'].includes(operatorToken.value.toLowerCase())) {
+            throw new Error(`Expected ==, !=, ~, !~ or contains after "${fieldToken.value}"`);
+        }
+        const valueToken = tokens[position++];
+        if (!valueToken || valueToken.kind === 'op') {
+            throw new Error(`Expected a value after "${fieldToken.value} ${operatorToken.value}"`);
+        }
+
+        const field = fieldToken.value;
+        const expected = valueToken.value;
+        // Validate the field name up front so typos fail when compiling, not per message
+        assertKnownField(field);
+
+        switch (operatorToken.value.toLowerCase()) {
+            case '==':
+                return message => getFieldValue(message, field) === expected;
+            case '!=':
+                return message => getFieldValue(message, field) !== expected;
+            case 'contains':
+                return message => getFieldValue(message, field)?.toLowerCase().includes(expected.toLowerCase()) ?? false;
+            default: {
+                const regex = new RegExp(expected, 'i');
+                const negate = operatorToken.value === '!~';
+                return message => {
+                    const value = getFieldValue(message, field);
+                    const matched = value !== undefined && regex.test(value);
+                    return negate ? !matched : matched;
+                };
+            }
+        }
+    };
+
+    if (tokens.length === 0) {
+        throw new Error('Expression is empty');
+    }
+    const predicate = parseOr();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position].value}"`);
+    }
+    return predicate;
+}
@@ -0,0 +1,169 @@
+import { randomUUID } from 'crypto';
+import { ServiceBusMessage, ServiceBusReceivedMessage } from '@azure/service-bus';
+import { convertToPlainObject } from './serviceBusService';
+
+/**
+ * A message as written to a JSON Lines export: body, system properties and application properties
+ */
+export interface ExportedMessage {
+    body: unknown;
+    /** 'binary' bodies are stored as base64; 'value' bodies are stored as-is */
+    bodyType: 'value' | 'binary';
+    messageId?: string;
+    correlationId?: string;
+    contentType?: string;
+    subject?: string;
+    sessionId?: string;
+    replyTo?: string;
+    replyToSessionId?: string;
+    to?: string;
+    partitionKey?: string;
+    timeToLive?: number;
+    sequenceNumber?: string;
+    enqueuedTimeUtc?: string;
+    scheduledEnqueueTimeUtc?: string;
+    expiresAtUtc?: string;
+    deliveryCount?: number;
+    deadLetterReason?: string;
+    deadLetterErrorDescription?: string;
+    deadLetterSource?: string;
+    applicationProperties: Record<string, unknown>;
+}
+
+/**
+ * Convert a received message to its export representation, stripping AMQP types
+ */
+export function toExportedMessage(message: ServiceBusReceivedMessage): ExportedMessage {
+    const isBinary = Buffer.isBuffer(message.body);
+
+    return {
+        body: isBinary ? (message.body as Buffer).toString('base64') : convertToPlainObject(message.body),
+        bodyType: isBinary ? 'binary' : 'value',
+        messageId: message.messageId?.toString(),
+        correlationId: message.correlationId?.toString(),
+        contentType: message.contentType,
+        subject: message.subject,
+        sessionId: message.sessionId,
+        replyTo: message.replyTo,
+        replyToSessionId: message.replyToSessionId,
+        to: message.to,
+        partitionKey: message.partitionKey,
+        timeToLive: message.timeToLive,
+        sequenceNumber: message.sequenceNumber?.toString(),
+        enqueuedTimeUtc: message.enqueuedTimeUtc?.toISOString(),
+        scheduledEnqueueTimeUtc: message.scheduledEnqueueTimeUtc?.toISOString(),
+        expiresAtUtc: message.expiresAtUtc?.toISOString(),
+        deliveryCount: message.deliveryCount,
+        deadLetterReason: message.deadLetterReason,
+        deadLetterErrorDescription: message.deadLetterErrorDescription,
+        deadLetterSource: message.deadLetterSource,
+        applicationProperties: (convertToPlainObject(message.applicationProperties ?? {}) as Record<string, unknown>)
+    };
+}
+
+/**
+ * Serialize messages as JSON Lines, one message per line
+ */
+export function toJsonLines(messages: ServiceBusReceivedMessage[]): string {
+    return messages.map(message => JSON.stringify(toExportedMessage(message))).join('\n') + '\n';
+}
+
+/**
+ * Parse a JSON Lines export. Blank lines are skipped; any invalid line fails the whole parse
+ * with its line number so nothing is sent from a partially valid file.
+ */
+export function parseJsonLines(text: string): ExportedMessage[] {
+    const messages: ExportedMessage[] = [];
+    const lines = text.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Line ${index + 1} is not valid JSON: ${errorMessage}`);
+        }
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed) || !('body' in parsed)) {
+            throw new Error(`Line ${index + 1} is not an exported message (missing "body")`);
+        }
+        const message = parsed as ExportedMessage;
+        if (message.applicationProperties !== undefined
+            && (message.applicationProperties === null || typeof message.applicationProperties !== 'object')) {
+            throw new Error(`Line ${index + 1} has invalid "applicationProperties"`);
+        }
+        messages.push(message);
+    });
+
+    return messages;
+}
+
+/**
+ * Convert an exported message back into a sendable message. Broker-assigned properties such as the
+ * sequence number, enqueued time and dead-letter details are not sent.
+ */
+export function fromExportedMessage(exported: ExportedMessage, options: { regenerateMessageId?: boolean } = {}): ServiceBusMessage {
+    const applicationProperties: Record<string, string | number | boolean | null> = {};
+    for (const [key, value] of Object.entries(exported.applicationProperties ?? {})) {
+        applicationProperties[key] = value === null || ['string', 'number', 'boolean'].includes(typeof value)
+            ? value as string | number | boolean | null
+            : JSON.stringify(value);
+    }
+
+    return {
+        body: exported.bodyType === 'binary' && typeof exported.body === 'string'
+            ? Buffer.from(exported.body, 'base64')
+            : exported.body,
+        messageId: options.regenerateMessageId ? randomUUID() : exported.messageId,
+        correlationId: exported.correlationId,
+        contentType: exported.contentType,
+        subject: exported.subject,
+        sessionId: exported.sessionId,
+        replyTo: exported.replyTo,
+        replyToSessionId: exported.replyToSessionId,
+        timeToLive: exported.timeToLive,
+        applicationProperties
+    };
+}
+
+/**
+ * Serialize a flattened summary of messages as CSV: one column per system property, one
+ * `app.<name>` column per application property seen across all messages, and the body as text
+ */
+export function toCsv(messages: ServiceBusReceivedMessage[]): string {
+    const exported = messages.map(toExportedMessage);
+    const systemColumns: (keyof ExportedMessage)[] = [
+        'sequenceNumber',
+        'messageId',
+        'enqueuedTimeUtc',
+        'subject',
+        'correlationId',
+        'sessionId',
+        'contentType',
+        'deliveryCount',
+        'deadLetterReason',
+        'deadLetterErrorDescription',
+        'deadLetterSource'
+    ];
+    const propertyNames = Array.from(new Set(exported.flatMap(m => Object.keys(m.applicationProperties)))).sort();
+
+    const header = [...systemColumns, ...propertyNames.map(name => `app.${name}`), 'body'];
+    const rows = exported.map(m => [
+        ...systemColumns.map(column => m[column]),
+        ...propertyNames.map(name => m.applicationProperties[name]),
+        m.body
+    ]);
+
+    return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function toCsvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,78 @@
+import { CorrelationRuleFilter, SqlRuleFilter } from '@azure/service-bus';
+import { FilterEvaluation, FilterableMessage, evaluateSqlFilter, formatSqlValue, parseSqlFilter } from './sqlFilter';
+
+export type RuleFilter = SqlRuleFilter | CorrelationRuleFilter;
+
+/**
+ * Properties a correlation filter can match on
+ */
+export const CORRELATION_FILTER_KEYS = [
+    'correlationId',
+    'messageId',
+    'to',
+    'replyTo',
+    'subject',
+    'sessionId',
+    'replyToSessionId',
+    'contentType',
+    'applicationProperties'
+];
+
+export function isSqlRuleFilter(filter: RuleFilter): filter is SqlRuleFilter {
+    return 'sqlExpression' in filter;
+}
+
+/**
+ * Compile a subscription rule filter into a function that tests a message against it locally.
+ * Throws when a SQL filter has a syntax error.
+ */
+export function compileRuleFilter(filter: RuleFilter): (message: FilterableMessage) => FilterEvaluation {
+    if (isSqlRuleFilter(filter)) {
+        const expression = parseSqlFilter(filter.sqlExpression);
+        return message => {
+            try {
+                return evaluateSqlFilter(expression, message, filter.sqlParameters);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                return { matched: false, explanation: `Error: ${errorMessage}` };
+            }
+        };
+    }
+    return message => evaluateCorrelationFilter(filter, message);
+}
+
+/**
+ * A correlation filter matches when every property it sets equals the message's value exactly
+ */
+function evaluateCorrelationFilter(filter: CorrelationRuleFilter, message: FilterableMessage): FilterEvaluation {
+    const { applicationProperties, ...systemProperties } = filter;
+    const conditions: { label: string; expected: unknown; actual: unknown }[] = [];
+
+    for (const [key, expected] of Object.entries(systemProperties)) {
+        if (expected !== undefined && expected !== null) {
+            const actual = message[key as keyof FilterableMessage];
+            conditions.push({ label: key, expected, actual: actual === undefined || actual === null ? actual : String(actual) });
+        }
+    }
+    const messageProperties = (message.applicationProperties ?? {}) as Record<string, unknown>;
+    for (const [key, expected] of Object.entries(applicationProperties ?? {})) {
+        conditions.push({ label: `applicationProperties.${key}`, expected, actual: messageProperties[key] });
+    }
+
+    for (const { label, expected, actual } of conditions) {
+        const matches = expected instanceof Date || actual instanceof Date
+            ? new Date(expected as string).getTime() === new Date(actual as string).getTime()
+            : expected === actual;
+        if (!matches) {
+            const actualText = actual === undefined ? 'not set' : formatSqlValue(actual);
+            return { matched: false, explanation: `Failed on ${label} = ${formatSqlValue(expected)} [${label} is ${actualText}]` };
+        }
+    }
+
+    return {
+        matched: true,
+        explanation: conditions.length > 0
+            ? `Matched on ${conditions.map(c => `${c.label} = ${formatSqlValue(c.expected)}`).join(' AND ')}`
+            : 'Matched; the filter has no conditions'
+    };
+}
@@ -1,17 +1,43 @@
 import {
     ServiceBusClient,
     ServiceBusAdministrationClient,
+    AuthorizationRule,
+    CorrelationRuleFilter,
+    CreateQueueOptions,
+    CreateSubscriptionOptions,
+    CreateTopicOptions,
+    EntityStatus,
+    QueueProperties,
+    QueueRuntimeProperties,
+    RuleProperties,
+    SqlRuleAction,
+    SqlRuleFilter,
+    ServiceBusMessage,
+    ServiceBusMessageBatch,
     ServiceBusReceivedMessage,
-    ServiceBusSender
+    ServiceBusReceiver,
+    ServiceBusSessionReceiver,
+    SubscriptionProperties,
+    SubscriptionRuntimeProperties,
+    TopicProperties,
+    TopicRuntimeProperties
 } from '@azure/service-bus';
 import { TokenCredential } from '@azure/identity';
 import { getAzureCredential } from './authProvider';
 import Long from "long";
+import { createHmac, randomBytes } from 'crypto';
+import WebSocket from 'ws';
 
 export interface QueueInfo {
     name: string;
     activeMessageCount: number;
     deadLetterMessageCount: number;
+    transferDeadLetterMessageCount?: number;
+    scheduledMessageCount?: number;
+    requiresSession?: boolean;
+    status?: EntityStatus;
+    /** The queue's full configuration as returned by the listing */
+    properties: QueueProperties;
 }
 
 export interface TopicInfo {
@@ -19,6 +45,10 @@ export interface TopicInfo {
     subscriptionCount?: number;
     activeMessageCount?: number;
     deadLetterMessageCount?: number;
+    scheduledMessageCount?: number;
+    status?: EntityStatus;
+    /** The topic's full configuration as returned by the listing */
+    properties: TopicProperties;
 }
 
 export interface SubscriptionInfo {
@@ -26,6 +56,144 @@ export interface SubscriptionInfo {
     topicName: string;
     activeMessageCount: number;
     deadLetterMessageCount: number;
+    transferDeadLetterMessageCount?: number;
+    requiresSession?: boolean;
+    status?: EntityStatus;
+    /** The subscription's full configuration as returned by the listing */
+    properties: SubscriptionProperties;
+}
+
+/**
+ * The queue messages are read from: the entity itself, its dead-letter queue, or its transfer
+ * dead-letter queue (messages that could not be auto-forwarded or sent via a transfer)
+ */
+export type SubQueue = 'active' | 'deadLetter' | 'transferDeadLetter';
+export type DeadLetterSubQueue = Exclude<SubQueue, 'active'>;
+
+/**
+ * Progress reporting and cancellation hooks for long-running operations
+ */
+export interface BulkOperationOptions {
+    onProgress?: (completed: number, total: number) => void;
+    isCancellationRequested?: () => boolean;
+}
+
+/**
+ * Outcome of a bulk operation for a single message
+ */
+export interface BulkOperationResult {
+    sequenceNumber: string;
+    messageId?: string;
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * A message found by a search, and whether it came from the dead-letter queue
+ */
+export interface MessageSearchMatch {
+    isDeadLetter: boolean;
+    message: ServiceBusReceivedMessage;
+}
+
+/**
+ * A message found by a namespace-wide trace, with the entity it currently sits in
+ */
+export interface MessageTraceMatch extends MessageSearchMatch {
+    queueName?: string;
+    topicName?: string;
+    subscriptionName?: string;
+}
+
+/**
+ * How to settle a received deferred message; undefined leaves it deferred
+ */
+export type DeferredMessageAction =
+    | { action: 'complete' }
+    | { action: 'abandon' }
+    | { action: 'deadLetter'; deadLetterReason: string; deadLetterErrorDescription?: string };
+
+/**
+ * Replacement body and application properties for an edited message
+ */
+export interface MessageEdits {
+    body: unknown;
+    applicationProperties: Record<string, string | number | boolean | null>;
+}
+
+export type EntityKind = 'queue' | 'topic' | 'subscription';
+
+/**
+ * The statuses an entity can be set to; topics have no receivers and subscriptions no senders of their own
+ */
+export const ENTITY_STATUSES: Record<EntityKind, EntityStatus[]> = {
+    queue: ['Active', 'Disabled', 'SendDisabled', 'ReceiveDisabled'],
+    topic: ['Active', 'Disabled', 'SendDisabled'],
+    subscription: ['Active', 'Disabled', 'ReceiveDisabled']
+};
+
+/**
+ * An entity's configurable properties together with its runtime counters and timestamps
+ */
+export interface EntityDetails<P, R> {
+    properties: P;
+    runtimeProperties: R;
+}
+
+/**
+ * How messages are sent and received: AMQP on ports 5671/5672, AMQP tunnelled through a WebSocket on
+ * port 443, or the HTTPS REST API, which only supports sending messages and browsing, deleting and
+ * resubmitting dead-letter messages
+ */
+export type Transport = 'amqp' | 'amqpWebSockets' | 'rest';
+
+export const TRANSPORT_LABELS: Record<Transport, string> = {
+    amqp: 'AMQP',
+    amqpWebSockets: 'AMQP over WebSockets',
+    rest: 'REST (HTTPS)'
+};
+
+export type AccessRight = 'Manage' | 'Send' | 'Listen';
+export type AccessKeyType = 'primary' | 'secondary';
+
+/**
+ * Where a shared access policy is defined; subscriptions have none and use their topic's policies
+ */
+export type AccessPolicyScope = { kind: 'namespace' } | { kind: 'queue' | 'topic'; name: string };
+
+export interface AccessPolicy {
+    keyName: string;
+    rights: AccessRight[];
+    /** Only entity-level listings include the keys; namespace keys are read separately */
+    primaryKey?: string;
+    secondaryKey?: string;
+}
+
+/**
+ * A SAS token and a connection string that authenticates with it instead of a key
+ */
+export interface SasCredentials {
+    token: string;
+    connectionString: string;
+    expiresOn: Date;
+}
+
+/**
+ * Whether a value is an ISO 8601 duration as used by lock durations, time to live and idle timeouts
+ */
+export function isIsoDuration(value: string): boolean {
+    return /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value);
+}
+
+export function describeSubQueue(subQueue: SubQueue): string {
+    switch (subQueue) {
+        case 'active':
+            return 'active queue';
+        case 'deadLetter':
+            return 'dead-letter queue';
+        case 'transferDeadLetter':
+            return 'transfer dead-letter queue';
+    }
 }
 
 /**
@@ -33,7 +201,7 @@ export interface SubscriptionInfo {
  * This handles AmqpMap, Date objects, datetime-offset, Long, and other special types that
  * can't be serialized by the Service Bus SDK.
  */
-function convertToPlainObject(obj: unknown): unknown {
+export function convertToPlainObject(obj: unknown): unknown {
     if (obj === null || obj === undefined) {
         return obj;
     }
@@ -131,10 +299,40 @@ function getNamespaceFromConnectionString(connectionString: string): string {
     return match ? `${match[1]}.servicebus.windows.net` : '';
 }
 
+/**
+ * A message locked through the REST API; location is the URL used to delete or unlock it
+ */
+interface RestLockedMessage {
+    body: unknown;
+    contentType?: string;
+    brokerProperties: Record<string, unknown>;
+    userProperties: Record<string, unknown>;
+    location: string;
+}
+
+/**
+ * A namespace authorization rule as returned by Azure Resource Manager
+ */
+interface ArmAuthorizationRule {
+    name: string;
+    properties: { rights: AccessRight[] };
+}
+
+const ARM_API_VERSION = '2021-11-01';
+
+/**
+ * A random 256-bit key, the same size as the keys Azure generates for policies
+ */
+function generateAccessKey(): string {
+    return randomBytes(32).toString('base64');
+}
+
 export class ServiceBusService {
     private clients: Map<string, ServiceBusClient> = new Map();
     private adminClients: Map<string, ServiceBusAdministrationClient> = new Map();
     private connectionStrings: Map<string, string> = new Map();
+    private namespaceResourceIds: Map<string, string> = new Map();
+    private transports: Map<string, Transport> = new Map();
     private credential: TokenCredential;
 
     constructor() {
@@ -162,19 +360,40 @@ export class ServiceBusService {
         return this.connectionStrings.has(namespace);
     }
 
+    getTransport(namespace: string): Transport {
+        return this.transports.get(namespace) ?? 'amqp';
+    }
+
+    /**
+     * Switch how a namespace's messages are sent and received; the next operation reconnects
+     */
+    setTransport(namespace: string, transport: Transport): void {
+        this.transports.set(namespace, transport);
+        const client = this.clients.get(namespace);
+        this.clients.delete(namespace);
+        client?.close().catch(() => { /* ignore close errors */ });
+    }
+
     private getClient(namespace: string): ServiceBusClient {
+        const transport = this.getTransport(namespace);
+        if (transport === 'rest') {
+            throw new Error(`${namespace} uses the REST transport, which only supports sending messages and browsing, deleting and resubmitting dead-letter messages. Switch it to AMQP over WebSockets to use this over HTTPS.`);
+        }
+
         let client = this.clients.get(namespace);
         if (!client) {
+            // Over WebSockets the AMQP connection goes through port 443 instead of 5671/5672
+            const options = transport === 'amqpWebSockets' ? { webSocketOptions: { webSocket: WebSocket } } : {};
             const connectionString = this.connectionStrings.get(namespace);
             if (connectionString) {
-                console.log(`[ServiceBus] Creating client for ${namespace} using connection string`);
-                client = new ServiceBusClient(connectionString);
+                console.log(`[ServiceBus] Creating client for ${namespace} using connection string over ${TRANSPORT_LABELS[transport]}`);
+                client = new ServiceBusClient(connectionString, options);
             } else {
                 const fullyQualifiedNamespace = namespace.includes('.servicebus.windows.net')
                     ? namespace
                     : `${namespace}.servicebus.windows.net`;
-                console.log(`[ServiceBus] Creating client for ${fullyQualifiedNamespace} using Azure AD`);
-                client = new ServiceBusClient(fullyQualifiedNamespace, this.credential);
+                console.log(`[ServiceBus] Creating client for ${fullyQualifiedNamespace} using Azure AD over ${TRANSPORT_LABELS[transport]}`);
+                client = new ServiceBusClient(fullyQualifiedNamespace, this.credential, options);
             }
             this.clients.set(namespace, client);
         }
@@ -202,27 +421,33 @@ export class ServiceBusService {
 
     async listQueues(namespace: string): Promise<QueueInfo[]> {
         const adminClient = this.getAdminClient(namespace);
-        const queueNames: string[] = [];
+        const queues: QueueProperties[] = [];
         for await (const queue of adminClient.listQueues()) {
-            queueNames.push(queue.name);
+            queues.push(queue);
         }
-        return Promise.all(queueNames.map(async name => {
-            const p = await adminClient.getQueueRuntimeProperties(name);
+        return Promise.all(queues.map(async properties => {
+            const p = await adminClient.getQueueRuntimeProperties(properties.name);
             return {
-                name,
+                name: properties.name,
                 activeMessageCount: p.activeMessageCount,
-                deadLetterMessageCount: p.deadLetterMessageCount
+                deadLetterMessageCount: p.deadLetterMessageCount,
+                transferDeadLetterMessageCount: p.transferDeadLetterMessageCount,
+                scheduledMessageCount: p.scheduledMessageCount,
+                requiresSession: properties.requiresSession,
+                status: properties.status,
+                properties
             };
         }));
     }
 
     async listTopics(namespace: string): Promise<TopicInfo[]> {
         const adminClient = this.getAdminClient(namespace);
-        const topicNames: string[] = [];
+        const topics: TopicProperties[] = [];
         for await (const topic of adminClient.listTopics()) {
-            topicNames.push(topic.name);
+            topics.push(topic);
         }
-        return Promise.all(topicNames.map(async name => {
+        return Promise.all(topics.map(async properties => {
+            const name = properties.name;
             const runtimeProps = await adminClient.getTopicRuntimeProperties(name);
 
             // Collect all subscription names, then fetch their runtime props in parallel
@@ -240,35 +465,364 @@ export class ServiceBusService {
                 name,
                 subscriptionCount: runtimeProps.subscriptionCount,
                 activeMessageCount: totalActive,
-                deadLetterMessageCount: totalDeadLetter
+                deadLetterMessageCount: totalDeadLetter,
+                scheduledMessageCount: runtimeProps.scheduledMessageCount,
+                status: properties.status,
+                properties
             };
         }));
     }
 
     async listSubscriptions(namespace: string, topicName: string): Promise<SubscriptionInfo[]> {
         const adminClient = this.getAdminClient(namespace);
-        const subNames: string[] = [];
+        const subscriptions: SubscriptionProperties[] = [];
         for await (const sub of adminClient.listSubscriptions(topicName)) {
-            subNames.push(sub.subscriptionName);
+            subscriptions.push(sub);
         }
-        return Promise.all(subNames.map(async name => {
-            const p = await adminClient.getSubscriptionRuntimeProperties(topicName, name);
+        return Promise.all(subscriptions.map(async properties => {
+            const p = await adminClient.getSubscriptionRuntimeProperties(topicName, properties.subscriptionName);
             return {
-                name,
+                name: properties.subscriptionName,
                 topicName,
                 activeMessageCount: p.activeMessageCount,
-                deadLetterMessageCount: p.deadLetterMessageCount
+                deadLetterMessageCount: p.deadLetterMessageCount,
+                transferDeadLetterMessageCount: p.transferDeadLetterMessageCount,
+                requiresSession: properties.requiresSession,
+                status: properties.status,
+                properties
             };
         }));
     }
 
+    async createQueue(namespace: string, queueName: string, options: CreateQueueOptions): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.createQueue(queueName, options);
+    }
+
+    async createTopic(namespace: string, topicName: string, options: CreateTopicOptions): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.createTopic(topicName, options);
+    }
+
+    async createSubscription(
+        namespace: string,
+        topicName: string,
+        subscriptionName: string,
+        options: CreateSubscriptionOptions
+    ): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.createSubscription(topicName, subscriptionName, options);
+    }
+
+    async deleteQueue(namespace: string, queueName: string): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.deleteQueue(queueName);
+    }
+
+    /**
+     * Delete a topic together with all of its subscriptions and their messages
+     */
+    async deleteTopic(namespace: string, topicName: string): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.deleteTopic(topicName);
+    }
+
+    async deleteSubscription(namespace: string, topicName: string, subscriptionName: string): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.deleteSubscription(topicName, subscriptionName);
+    }
+
+    async getQueueDetails(namespace: string, queueName: string): Promise<EntityDetails<QueueProperties, QueueRuntimeProperties>> {
+        const adminClient = this.getAdminClient(namespace);
+        const [properties, runtimeProperties] = await Promise.all([
+            adminClient.getQueue(queueName),
+            adminClient.getQueueRuntimeProperties(queueName)
+        ]);
+        return { properties, runtimeProperties };
+    }
+
+    async getTopicDetails(namespace: string, topicName: string): Promise<EntityDetails<TopicProperties, TopicRuntimeProperties>> {
+        const adminClient = this.getAdminClient(namespace);
+        const [properties, runtimeProperties] = await Promise.all([
+            adminClient.getTopic(topicName),
+            adminClient.getTopicRuntimeProperties(topicName)
+        ]);
+        return { properties, runtimeProperties };
+    }
+
+    async getSubscriptionDetails(
+        namespace: string,
+        topicName: string,
+        subscriptionName: string
+    ): Promise<EntityDetails<SubscriptionProperties, SubscriptionRuntimeProperties>> {
+        const adminClient = this.getAdminClient(namespace);
+        const [properties, runtimeProperties] = await Promise.all([
+            adminClient.getSubscription(topicName, subscriptionName),
+            adminClient.getSubscriptionRuntimeProperties(topicName, subscriptionName)
+        ]);
+        return { properties, runtimeProperties };
+    }
+
+    /**
+     * Apply changes on top of the queue's current properties, since an update replaces the whole description
+     */
+    async updateQueue(namespace: string, queueName: string, changes: Partial<QueueProperties>): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        const queue = await adminClient.getQueue(queueName);
+        await adminClient.updateQueue(Object.assign(queue, changes));
+    }
+
+    async updateTopic(namespace: string, topicName: string, changes: Partial<TopicProperties>): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        const topic = await adminClient.getTopic(topicName);
+        await adminClient.updateTopic(Object.assign(topic, changes));
+    }
+
+    async updateSubscription(
+        namespace: string,
+        topicName: string,
+        subscriptionName: string,
+        changes: Partial<SubscriptionProperties>
+    ): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        const subscription = await adminClient.getSubscription(topicName, subscriptionName);
+        await adminClient.updateSubscription(Object.assign(subscription, changes));
+    }
+
+    async listRules(namespace: string, topicName: string, subscriptionName: string): Promise<RuleProperties[]> {
+        const adminClient = this.getAdminClient(namespace);
+        const rules: RuleProperties[] = [];
+        for await (const rule of adminClient.listRules(topicName, subscriptionName)) {
+            rules.push(rule);
+        }
+        return rules;
+    }
+
+    async createRule(
+        namespace: string,
+        topicName: string,
+        subscriptionName: string,
+        ruleName: string,
+        filter: SqlRuleFilter | CorrelationRuleFilter,
+        action?: SqlRuleAction
+    ): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        if (action) {
+            await adminClient.createRule(topicName, subscriptionName, ruleName, filter, action);
+        } else {
+            await adminClient.createRule(topicName, subscriptionName, ruleName, filter);
+        }
+    }
+
+    /**
+     * Replace the filter and action of an existing rule
+     */
+    async updateRule(
+        namespace: string,
+        topicName: string,
+        subscriptionName: string,
+        ruleName: string,
+        filter: SqlRuleFilter | CorrelationRuleFilter,
+        action?: SqlRuleAction
+    ): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        const rule = await adminClient.getRule(topicName, subscriptionName, ruleName);
+        rule.filter = filter;
+        rule.action = action ?? {};
+        await adminClient.updateRule(topicName, subscriptionName, rule);
+    }
+
+    async deleteRule(namespace: string, topicName: string, subscriptionName: string, ruleName: string): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        await adminClient.deleteRule(topicName, subscriptionName, ruleName);
+    }
+
+    /**
+     * List the shared access policies of the namespace (through Azure Resource Manager) or of a queue or topic
+     */
+    async listAccessPolicies(namespace: string, scope: AccessPolicyScope): Promise<AccessPolicy[]> {
+        if (scope.kind === 'namespace') {
+            const resourceId = await this.getNamespaceResourceId(namespace);
+            const rules = await this.armList<ArmAuthorizationRule>(`${resourceId}/authorizationRules`);
+            return rules.map(rule => ({ keyName: rule.name, rights: rule.properties.rights }));
+        }
+
+        const rules = await this.getEntityAuthorizationRules(namespace, scope);
+        return rules.map(rule => ({
+            keyName: rule.keyName,
+            rights: rule.accessRights ?? [],
+            primaryKey: rule.primaryKey,
+            secondaryKey: rule.secondaryKey
+        }));
+    }
+
+    async getAccessPolicyKeys(
+        namespace: string,
+        scope: AccessPolicyScope,
+        keyName: string
+    ): Promise<{ primaryKey: string; secondaryKey: string }> {
+        if (scope.kind === 'namespace') {
+            const resourceId = await this.getNamespaceResourceId(namespace);
+            return this.armRequest<{ primaryKey: string; secondaryKey: string }>(
+                'POST',
+                `${resourceId}/authorizationRules/${encodeURIComponent(keyName)}/listKeys`
+            );
+        }
+
+        const rule = (await this.getEntityAuthorizationRules(namespace, scope)).find(r => r.keyName === keyName);
+        if (!rule?.primaryKey || !rule.secondaryKey) {
+            throw new Error(`Policy ${keyName} was not found on ${scope.kind} ${scope.name}`);
+        }
+        return { primaryKey: rule.primaryKey, secondaryKey: rule.secondaryKey };
+    }
+
+    /**
+     * Create a policy with new random keys; Manage always comes with Send and Listen
+     */
+    async createAccessPolicy(namespace: string, scope: AccessPolicyScope, keyName: string, rights: AccessRight[]): Promise<void> {
+        const accessRights: AccessRight[] = rights.includes('Manage') ? ['Manage', 'Send', 'Listen'] : rights;
+
+        if (scope.kind === 'namespace') {
+            const resourceId = await this.getNamespaceResourceId(namespace);
+            await this.armRequest('PUT', `${resourceId}/authorizationRules/${encodeURIComponent(keyName)}`, {
+                properties: { rights: accessRights }
+            });
+            return;
+        }
+
+        await this.updateEntityAuthorizationRules(namespace, scope, rules => {
+            if (rules.some(rule => rule.keyName === keyName)) {
+                throw new Error(`Policy ${keyName} already exists on ${scope.kind} ${scope.name}`);
+            }
+            return [...rules, {
+                claimType: 'SharedAccessKey',
+                keyName,
+                accessRights,
+                primaryKey: generateAccessKey(),
+                secondaryKey: generateAccessKey()
+            }];
+        });
+    }
+
+    /**
+     * Replace one key of a policy; anything signed with the old key stops working
+     */
+    async regenerateAccessPolicyKey(
+        namespace: string,
+        scope: AccessPolicyScope,
+        keyName: string,
+        keyType: AccessKeyType
+    ): Promise<void> {
+        if (scope.kind === 'namespace') {
+            const resourceId = await this.getNamespaceResourceId(namespace);
+            await this.armRequest('POST', `${resourceId}/authorizationRules/${encodeURIComponent(keyName)}/regenerateKeys`, {
+                keyType: keyType === 'primary' ? 'PrimaryKey' : 'SecondaryKey'
+            });
+            return;
+        }
+
+        await this.updateEntityAuthorizationRules(namespace, scope, rules => rules.map(rule => {
+            if (rule.keyName !== keyName) {
+                return rule;
+            }
+            return keyType === 'primary'
+                ? { ...rule, primaryKey: generateAccessKey() }
+                : { ...rule, secondaryKey: generateAccessKey() };
+        }));
+    }
+
+    async deleteAccessPolicy(namespace: string, scope: AccessPolicyScope, keyName: string): Promise<void> {
+        if (scope.kind === 'namespace') {
+            const resourceId = await this.getNamespaceResourceId(namespace);
+            await this.armRequest('DELETE', `${resourceId}/authorizationRules/${encodeURIComponent(keyName)}`);
+            return;
+        }
+
+        await this.updateEntityAuthorizationRules(namespace, scope, rules => rules.filter(rule => rule.keyName !== keyName));
+    }
+
+    /**
+     * The policy name and key of the connection string a namespace was added with, if it has one
+     */
+    getConnectionStringPolicy(namespace: string): { keyName: string; key: string } | undefined {
+        const connectionString = this.connectionStrings.get(namespace);
+        const keyName = connectionString?.match(/SharedAccessKeyName=([^;]+)/i)?.[1];
+        const key = connectionString?.match(/SharedAccessKey=([^;]+)/i)?.[1];
+        return keyName && key ? { keyName: keyName.trim(), key: key.trim() } : undefined;
+    }
+
+    /**
+     * Build a connection string that carries a policy key; entityPath limits it to one queue or topic
+     */
+    buildConnectionString(namespace: string, keyName: string, key: string, entityPath?: string): string {
+        const connectionString = `Endpoint=sb://${this.getFullyQualifiedNamespace(namespace)}/;SharedAccessKeyName=${keyName};SharedAccessKey=${key}`;
+        return entityPath ? `${connectionString};EntityPath=${entityPath}` : connectionString;
+    }
+
+    /**
+     * Sign a SAS token for the namespace or an entity path with a policy key
+     */
+    createSasCredentials(
+        namespace: string,
+        keyName: string,
+        key: string,
+        validityInSeconds: number,
+        entityPath?: string
+    ): SasCredentials {
+        const fullyQualifiedNamespace = this.getFullyQualifiedNamespace(namespace);
+        const resourceUri = entityPath
+            ? `https://${fullyQualifiedNamespace}/${entityPath}`
+            : `https://${fullyQualifiedNamespace}`;
+        const token = this.generateSasToken(resourceUri, this.buildConnectionString(namespace, keyName, key), validityInSeconds);
+
+        const connectionString = `Endpoint=sb://${fullyQualifiedNamespace}/;SharedAccessSignature=${token}`;
+        return {
+            token,
+            connectionString: entityPath ? `${connectionString};EntityPath=${entityPath}` : connectionString,
+            expiresOn: new Date(Date.now() + validityInSeconds * 1000)
+        };
+    }
+
+    private async getEntityAuthorizationRules(
+        namespace: string,
+        scope: Exclude<AccessPolicyScope, { kind: 'namespace' }>
+    ): Promise<AuthorizationRule[]> {
+        const adminClient = this.getAdminClient(namespace);
+        const entity = scope.kind === 'queue'
+            ? await adminClient.getQueue(scope.name)
+            : await adminClient.getTopic(scope.name);
+        return entity.authorizationRules ?? [];
+    }
+
+    private async updateEntityAuthorizationRules(
+        namespace: string,
+        scope: Exclude<AccessPolicyScope, { kind: 'namespace' }>,
+        update: (rules: AuthorizationRule[]) => AuthorizationRule[]
+    ): Promise<void> {
+        const adminClient = this.getAdminClient(namespace);
+        if (scope.kind === 'queue') {
+            const queue = await adminClient.getQueue(scope.name);
+            queue.authorizationRules = update(queue.authorizationRules ?? []);
+            await adminClient.updateQueue(queue);
+        } else {
+            const topic = await adminClient.getTopic(scope.name);
+            topic.authorizationRules = update(topic.authorizationRules ?? []);
+            await adminClient.updateTopic(topic);
+        }
+    }
+
     async peekActiveMessages(
         namespace: string,
         queueName?: string,
         topicName?: string,
         subscriptionName?: string,
-        maxMessages: number = 50
+        maxMessages: number = 50,
+        fromSequenceNumber: Long = Long.fromInt(1)
     ): Promise<ServiceBusReceivedMessage[]> {
+        if (this.getTransport(namespace) === 'rest') {
+            throw this.restActiveMessagesError(namespace);
+        }
+
         const client = this.getClient(namespace);
         let receiver;
 
@@ -286,9 +840,9 @@ export class ServiceBusService {
                 setTimeout(() => reject(new Error('Peek operation timed out after 30 seconds')), 30000);
             });
 
-            // Always peek from sequence number 1 to get messages from the beginning
+            // Always peek from an explicit sequence number (1 by default) rather than the receiver's internal cursor
             const messages = await Promise.race([
-                receiver.peekMessages(maxMessages, { fromSequenceNumber: Long.fromInt(1) }),
+                receiver.peekMessages(maxMessages, { fromSequenceNumber }),
                 timeoutPromise
             ]);
             return messages;
@@ -302,22 +856,28 @@ export class ServiceBusService {
         queueName?: string,
         topicName?: string,
         subscriptionName?: string,
-        maxMessages: number = 50
+        maxMessages: number = 50,
+        fromSequenceNumber: Long = Long.fromInt(1),
+        subQueue: DeadLetterSubQueue = 'deadLetter'
     ): Promise<ServiceBusReceivedMessage[]> {
+        if (this.getTransport(namespace) === 'rest') {
+            return this.peekDeadLetterMessagesRest(namespace, this.getRestPath(subQueue, queueName, topicName, subscriptionName), maxMessages, fromSequenceNumber);
+        }
+
         const client = this.getClient(namespace);
         let receiver;
 
         if (queueName) {
-            console.log(`[ServiceBus] Creating DLQ receiver for queue: ${queueName}`);
+            console.log(`[ServiceBus] Creating ${subQueue} receiver for queue: ${queueName}`);
             receiver = client.createReceiver(queueName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else if (topicName && subscriptionName) {
-            console.log(`[ServiceBus] Creating DLQ receiver for topic: ${topicName}, subscription: ${subscriptionName}`);
+            console.log(`[ServiceBus] Creating ${subQueue} receiver for topic: ${topicName}, subscription: ${subscriptionName}`);
             receiver = client.createReceiver(topicName, subscriptionName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else {
             throw new Error('Either queueName or both topicName and subscriptionName must be provided');
@@ -329,12 +889,12 @@ export class ServiceBusService {
                 setTimeout(() => reject(new Error('Peek operation timed out after 30 seconds')), 30000);
             });
 
-            console.log(`[ServiceBus] Calling peekMessages with maxMessages: ${maxMessages}`);
+            console.log(`[ServiceBus] Calling peekMessages with maxMessages: ${maxMessages}, fromSequenceNumber: ${fromSequenceNumber}`);
 
-            // Always peek from sequence number 1 to get messages from the beginning
+            // Always peek from an explicit sequence number (1 by default)
             // This is important because peekMessages maintains an internal cursor
             const messages = await Promise.race([
-                receiver.peekMessages(maxMessages, { fromSequenceNumber: Long.fromInt(1) }),
+                receiver.peekMessages(maxMessages, { fromSequenceNumber }),
                 timeoutPromise
             ]);
 
@@ -348,50 +908,438 @@ export class ServiceBusService {
         }
     }
 
-    async receiveDeadLetterMessages(
+    /**
+     * Peek every message in the active queue or a dead-letter queue, page by page, using the
+     * last seen sequence number as the cursor. Stops early when cancellation is requested.
+     * When a filter is given, only matching messages are kept; progress reports the scanned count.
+     */
+    async peekAllMessages(
         namespace: string,
+        subQueue: SubQueue,
         queueName?: string,
         topicName?: string,
         subscriptionName?: string,
-        maxMessages: number = 50
+        options: BulkOperationOptions & { filter?: (message: ServiceBusReceivedMessage) => boolean } = {}
     ): Promise<ServiceBusReceivedMessage[]> {
-        const client = this.getClient(namespace);
-        let receiver;
-
-        if (queueName) {
-            receiver = client.createReceiver(queueName, {
-                receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
-            });
-        } else if (topicName && subscriptionName) {
-            receiver = client.createReceiver(topicName, subscriptionName, {
-                receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
-            });
-        } else {
-            throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+        if (this.getTransport(namespace) === 'rest') {
+            if (subQueue === 'active') {
+                throw this.restActiveMessagesError(namespace);
+            }
+            // Every REST page locks the messages before it again, so walk the whole queue once instead
+            const messages = await this.peekDeadLetterMessagesRest(
+                namespace,
+                this.getRestPath(subQueue, queueName, topicName, subscriptionName),
+                Number.MAX_SAFE_INTEGER,
+                Long.fromInt(1),
+                options.isCancellationRequested
+            );
+            options.onProgress?.(messages.length, messages.length);
+            return options.filter ? messages.filter(options.filter) : messages;
         }
 
-        try {
-            const messages = await receiver.receiveMessages(maxMessages, { maxWaitTimeInMs: 5000 });
-            return messages;
-        } finally {
-            await receiver.close();
+        const pageSize = 250;
+        const allMessages: ServiceBusReceivedMessage[] = [];
+        let scannedCount = 0;
+        let fromSequenceNumber = Long.fromInt(1);
+
+        while (!options.isCancellationRequested?.()) {
+            const page = subQueue === 'active'
+                ? await this.peekActiveMessages(namespace, queueName, topicName, subscriptionName, pageSize, fromSequenceNumber)
+                : await this.peekDeadLetterMessages(namespace, queueName, topicName, subscriptionName, pageSize, fromSequenceNumber, subQueue);
+
+            allMessages.push(...(options.filter ? page.filter(options.filter) : page));
+            scannedCount += page.length;
+            options.onProgress?.(scannedCount, scannedCount);
+
+            const lastSequenceNumber = page[page.length - 1]?.sequenceNumber;
+            if (page.length === 0 || !lastSequenceNumber) {
+                break;
+            }
+            fromSequenceNumber = Long.fromValue(lastSequenceNumber).add(1);
         }
+
+        return allMessages;
     }
 
     /**
-     * Build the DLQ path for REST API calls
+     * Peek up to maxScanned messages of a queue from the given sequence number and keep the scheduled ones.
+     * Returns the sequence number to continue from, or undefined when the end of the queue was reached.
      */
-    private getDlqPath(queueName?: string, topicName?: string, subscriptionName?: string): string {
-        if (queueName) {
-            return `${queueName}/$deadletterqueue`;
-        } else if (topicName && subscriptionName) {
-            return `${topicName}/Subscriptions/${subscriptionName}/$deadletterqueue`;
+    async scanScheduledMessages(
+        namespace: string,
+        queueName: string,
+        fromSequenceNumber: Long,
+        maxScanned: number
+    ): Promise<{ messages: ServiceBusReceivedMessage[]; nextSequenceNumber?: Long }> {
+        const pageSize = 250;
+        const messages: ServiceBusReceivedMessage[] = [];
+        let scannedCount = 0;
+        let nextSequenceNumber: Long | undefined = fromSequenceNumber;
+
+        while (nextSequenceNumber && scannedCount < maxScanned) {
+            const page = await this.peekActiveMessages(
+                namespace,
+                queueName,
+                undefined,
+                undefined,
+                Math.min(pageSize, maxScanned - scannedCount),
+                nextSequenceNumber
+            );
+            messages.push(...page.filter(message => message.state === 'scheduled'));
+            scannedCount += page.length;
+
+            const lastSequenceNumber = page[page.length - 1]?.sequenceNumber;
+            nextSequenceNumber = page.length === 0 || !lastSequenceNumber
+                ? undefined
+                : Long.fromValue(lastSequenceNumber).add(1);
+        }
+
+        return { messages, nextSequenceNumber };
+    }
+
+    /**
+     * Scan the active and/or dead-letter queue of an entity and return the messages matching the predicate.
+     * Progress reports the number of messages scanned so far.
+     */
+    async searchMessages(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        scope: { active: boolean; deadLetter: boolean },
+        predicate: (message: ServiceBusReceivedMessage) => boolean,
+        options: BulkOperationOptions = {}
+    ): Promise<MessageSearchMatch[]> {
+        const matches: MessageSearchMatch[] = [];
+        let scannedBefore = 0;
+
+        for (const isDeadLetter of [false, true]) {
+            if ((isDeadLetter ? !scope.deadLetter : !scope.active) || options.isCancellationRequested?.()) {
+                continue;
+            }
+            let scanned = 0;
+            const found = await this.peekAllMessages(namespace, isDeadLetter ? 'deadLetter' : 'active', queueName, topicName, subscriptionName, {
+                filter: predicate,
+                isCancellationRequested: options.isCancellationRequested,
+                onProgress: (completed) => {
+                    scanned = completed;
+                    options.onProgress?.(scannedBefore + completed, scannedBefore + completed);
+                }
+            });
+            scannedBefore += scanned;
+            matches.push(...found.map(message => ({ isDeadLetter, message })));
+        }
+
+        return matches;
+    }
+
+    /**
+     * Scan the active and dead-letter queues of every queue and subscription in a namespace and return the
+     * messages matching the predicate, ordered by enqueued time. Empty queues are skipped.
+     * Progress reports the number of entities scanned.
+     */
+    async traceMessages(
+        namespace: string,
+        predicate: (message: ServiceBusReceivedMessage) => boolean,
+        options: BulkOperationOptions = {}
+    ): Promise<MessageTraceMatch[]> {
+        const [queues, topics] = await Promise.all([
+            this.listQueues(namespace),
+            this.listTopics(namespace)
+        ]);
+        const subscriptions = (await Promise.all(topics.map(async topic =>
+            (await this.listSubscriptions(namespace, topic.name)).map(subscription => ({ topicName: topic.name, subscription }))
+        ))).flat();
+
+        const entities = [
+            ...queues.map(queue => ({ queueName: queue.name, topicName: undefined, subscriptionName: undefined, counts: queue })),
+            ...subscriptions.map(({ topicName, subscription }) => ({ queueName: undefined, topicName, subscriptionName: subscription.name, counts: subscription }))
+        ];
+
+        const matches: MessageTraceMatch[] = [];
+        for (let i = 0; i < entities.length && !options.isCancellationRequested?.(); i++) {
+            const { queueName, topicName, subscriptionName, counts } = entities[i];
+            const found = await this.searchMessages(
+                namespace,
+                queueName,
+                topicName,
+                subscriptionName,
+                { active: counts.activeMessageCount > 0, deadLetter: counts.deadLetterMessageCount > 0 },
+                predicate,
+                { isCancellationRequested: options.isCancellationRequested }
+            );
+            matches.push(...found.map(match => ({ ...match, queueName, topicName, subscriptionName })));
+            options.onProgress?.(i + 1, entities.length);
+        }
+
+        return matches.sort((a, b) =>
+            (a.message.enqueuedTimeUtc?.getTime() ?? 0) - (b.message.enqueuedTimeUtc?.getTime() ?? 0)
+        );
+    }
+
+    /**
+     * List the IDs of sessions that currently have active messages, in the order their first message
+     * was enqueued. Service Bus has no public API to enumerate sessions, so the active queue is peeked
+     * page by page (no locks are taken) until maxSessions distinct IDs or maxScanned messages are seen.
+     */
+    async listSessions(
+        namespace: string,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        maxSessions: number = 100,
+        maxScanned: number = 5000
+    ): Promise<string[]> {
+        const pageSize = 250;
+        const sessionIds = new Set<string>();
+        let scannedCount = 0;
+        let fromSequenceNumber = Long.fromInt(1);
+
+        while (sessionIds.size < maxSessions && scannedCount < maxScanned) {
+            const page = await this.peekActiveMessages(namespace, queueName, topicName, subscriptionName, pageSize, fromSequenceNumber);
+            for (const message of page) {
+                if (message.sessionId !== undefined && sessionIds.size < maxSessions) {
+                    sessionIds.add(message.sessionId);
+                }
+            }
+            scannedCount += page.length;
+
+            const lastSequenceNumber = page[page.length - 1]?.sequenceNumber;
+            if (page.length === 0 || !lastSequenceNumber) {
+                break;
+            }
+            fromSequenceNumber = Long.fromValue(lastSequenceNumber).add(1);
+        }
+
+        return [...sessionIds];
+    }
+
+    /**
+     * Accept a specific session. Fails when another receiver currently holds the session's lock.
+     */
+    private async acceptSession(
+        namespace: string,
+        sessionId: string,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string
+    ): Promise<ServiceBusSessionReceiver> {
+        const client = this.getClient(namespace);
+        if (queueName) {
+            return client.acceptSession(queueName, sessionId, { receiveMode: 'peekLock' });
+        } else if (topicName && subscriptionName) {
+            return client.acceptSession(topicName, subscriptionName, sessionId, { receiveMode: 'peekLock' });
         }
         throw new Error('Either queueName or both topicName and subscriptionName must be provided');
     }
 
+    async peekSessionMessages(
+        namespace: string,
+        sessionId: string,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        maxMessages: number = 50,
+        fromSequenceNumber: Long = Long.fromInt(1)
+    ): Promise<ServiceBusReceivedMessage[]> {
+        const receiver = await this.acceptSession(namespace, sessionId, queueName, topicName, subscriptionName);
+        try {
+            return await receiver.peekMessages(maxMessages, { fromSequenceNumber });
+        } finally {
+            await receiver.close().catch(() => { /* ignore close errors */ });
+        }
+    }
+
+    async getSessionState(
+        namespace: string,
+        sessionId: string,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string
+    ): Promise<unknown> {
+        const receiver = await this.acceptSession(namespace, sessionId, queueName, topicName, subscriptionName);
+        try {
+            return await receiver.getSessionState();
+        } finally {
+            await receiver.close().catch(() => { /* ignore close errors */ });
+        }
+    }
+
+    /**
+     * Replace a session's state. Objects are stored as JSON; pass null to clear the state.
+     */
+    async setSessionState(
+        namespace: string,
+        sessionId: string,
+        state: unknown,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string
+    ): Promise<void> {
+        const receiver = await this.acceptSession(namespace, sessionId, queueName, topicName, subscriptionName);
+        try {
+            await receiver.setSessionState(state);
+        } finally {
+            await receiver.close().catch(() => { /* ignore close errors */ });
+        }
+    }
+
+    async receiveDeadLetterMessages(
+        namespace: string,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        maxMessages: number = 50
+    ): Promise<ServiceBusReceivedMessage[]> {
+        const client = this.getClient(namespace);
+        let receiver;
+
+        if (queueName) {
+            receiver = client.createReceiver(queueName, {
+                receiveMode: 'peekLock',
+                subQueueType: 'deadLetter'
+            });
+        } else if (topicName && subscriptionName) {
+            receiver = client.createReceiver(topicName, subscriptionName, {
+                receiveMode: 'peekLock',
+                subQueueType: 'deadLetter'
+            });
+        } else {
+            throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+        }
+
+        try {
+            const messages = await receiver.receiveMessages(maxMessages, { maxWaitTimeInMs: 5000 });
+            return messages;
+        } finally {
+            await receiver.close();
+        }
+    }
+
+    /**
+     * Build the DLQ path for REST API calls
+     */
+    private getDlqPath(queueName?: string, topicName?: string, subscriptionName?: string): string {
+        if (queueName) {
+            return `${queueName}/$deadletterqueue`;
+        } else if (topicName && subscriptionName) {
+            return `${topicName}/Subscriptions/${subscriptionName}/$deadletterqueue`;
+        }
+        throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+    }
+
+    /**
+     * Build the path of the active queue or a dead-letter queue for REST API calls
+     */
+    private getRestPath(subQueue: SubQueue, queueName?: string, topicName?: string, subscriptionName?: string): string {
+        if (subQueue === 'deadLetter') {
+            return this.getDlqPath(queueName, topicName, subscriptionName);
+        }
+        const entityPath = queueName
+            ?? (topicName && subscriptionName ? `${topicName}/Subscriptions/${subscriptionName}` : undefined);
+        if (!entityPath) {
+            throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+        }
+        return subQueue === 'transferDeadLetter' ? `${entityPath}/$Transfer/$DeadLetterQueue` : entityPath;
+    }
+
+    /**
+     * The REST API has no peek, and reading active messages would mean locking them from consumers,
+     * so over REST only dead-letter queues can be browsed
+     */
+    private restActiveMessagesError(namespace: string): Error {
+        return new Error(`${namespace} uses the REST transport, which cannot read active messages without locking them. Switch it to AMQP over WebSockets to browse, search or export active messages over HTTPS.`);
+    }
+
+    /**
+     * The REST API cannot peek, so lock dead-letter messages one at a time from the head of the queue and
+     * unlock them all at the end. Each lock counts as a delivery. Messages before fromSequenceNumber are
+     * skipped. When a message comes round again because its lock expired before the walk finished, the
+     * scan is incomplete and fails rather than returning a partial list.
+     */
+    private async peekDeadLetterMessagesRest(
+        namespace: string,
+        path: string,
+        maxMessages: number,
+        fromSequenceNumber: Long,
+        isCancellationRequested?: () => boolean
+    ): Promise<ServiceBusReceivedMessage[]> {
+        const messages: ServiceBusReceivedMessage[] = [];
+        const locations: string[] = [];
+        const seen = new Set<string>();
+
+        try {
+            while (messages.length < maxMessages && !isCancellationRequested?.()) {
+                const locked = await this.peekLockMessageRest(namespace, path);
+                if (!locked) {
+                    break;
+                }
+                locations.push(locked.location);
+
+                const message = this.toReceivedMessage(locked);
+                const sequenceNumber = message.sequenceNumber?.toString() ?? '';
+                if (seen.has(sequenceNumber)) {
+                    throw new Error(`Only ${seen.size} messages could be read over REST before their locks expired, so the scan is incomplete. Switch to AMQP over WebSockets to read the whole queue.`);
+                }
+                seen.add(sequenceNumber);
+
+                if (message.sequenceNumber && message.sequenceNumber.greaterThanOrEqual(fromSequenceNumber)) {
+                    messages.push(message);
+                }
+            }
+        } finally {
+            for (const location of locations) {
+                await this.unlockMessageRest(namespace, location).catch(() => { /* lock may already have expired */ });
+            }
+        }
+
+        return messages.sort((a, b) => (a.sequenceNumber && b.sequenceNumber ? a.sequenceNumber.compare(b.sequenceNumber) : 0));
+    }
+
+    /**
+     * Shape a message locked through the REST API like one received over AMQP
+     */
+    private toReceivedMessage(locked: RestLockedMessage): ServiceBusReceivedMessage {
+        const broker = locked.brokerProperties;
+        const text = (key: string): string | undefined => typeof broker[key] === 'string' ? broker[key] as string : undefined;
+        const date = (key: string): Date | undefined => text(key) ? new Date(text(key) as string) : undefined;
+
+        // Dead-letter reasons arrive as application properties; header names are lowercase
+        const { deadletterreason, deadlettererrordescription, ...applicationProperties } = locked.userProperties;
+        const sequenceNumber = typeof broker.SequenceNumber === 'number' ? Long.fromNumber(broker.SequenceNumber) : undefined;
+        const timeToLive = typeof broker.TimeToLive === 'number' ? broker.TimeToLive * 1000 : undefined;
+        const enqueuedTimeUtc = date('EnqueuedTimeUtc');
+        const state = text('State')?.toLowerCase();
+
+        return {
+            body: locked.body,
+            contentType: locked.contentType,
+            messageId: text('MessageId'),
+            correlationId: text('CorrelationId'),
+            subject: text('Label'),
+            to: text('To'),
+            replyTo: text('ReplyTo'),
+            replyToSessionId: text('ReplyToSessionId'),
+            sessionId: text('SessionId'),
+            partitionKey: text('PartitionKey'),
+            timeToLive,
+            scheduledEnqueueTimeUtc: date('ScheduledEnqueueTimeUtc'),
+            applicationProperties: applicationProperties as ServiceBusReceivedMessage['applicationProperties'],
+            deadLetterReason: typeof deadletterreason === 'string' ? deadletterreason : undefined,
+            deadLetterErrorDescription: typeof deadlettererrordescription === 'string' ? deadlettererrordescription : undefined,
+            deadLetterSource: text('DeadLetterSource'),
+            lockToken: text('LockToken'),
+            lockedUntilUtc: date('LockedUntilUtc'),
+            deliveryCount: typeof broker.DeliveryCount === 'number' ? broker.DeliveryCount : undefined,
+            enqueuedTimeUtc,
+            expiresAtUtc: enqueuedTimeUtc && timeToLive !== undefined ? new Date(enqueuedTimeUtc.getTime() + timeToLive) : undefined,
+            enqueuedSequenceNumber: typeof broker.EnqueuedSequenceNumber === 'number' ? broker.EnqueuedSequenceNumber : undefined,
+            sequenceNumber,
+            state: state === 'deferred' || state === 'scheduled' ? state : 'active',
+            _rawAmqpMessage: { body: locked.body, applicationProperties }
+        };
+    }
+
     /**
      * Generate SAS token from connection string for REST API calls
      */
@@ -417,8 +1365,7 @@ export class ServiceBusService {
         const stringToSign = `${encodedUri}\n${expiry}`;
 
         // Create HMAC-SHA256 signature
-        const crypto = require('crypto');
-        const signature = crypto.createHmac('sha256', sharedAccessKey)
+        const signature = createHmac('sha256', sharedAccessKey)
             .update(stringToSign)
             .digest('base64');
 
@@ -427,6 +1374,84 @@ export class ServiceBusService {
         return `SharedAccessSignature sr=${encodedUri}&sig=${encodedSignature}&se=${expiry}&skn=${sharedAccessKeyName}`;
     }
 
+    private getFullyQualifiedNamespace(namespace: string): string {
+        return namespace.includes('.servicebus.windows.net') ? namespace : `${namespace}.servicebus.windows.net`;
+    }
+
+    /**
+     * Find the Azure resource ID of a namespace by searching the subscriptions the signed-in account can see
+     */
+    private async getNamespaceResourceId(namespace: string): Promise<string> {
+        if (this.connectionStrings.has(namespace)) {
+            throw new Error('Namespace policies are managed through Azure Resource Manager, which needs a namespace added with Azure AD instead of a connection string');
+        }
+
+        const cached = this.namespaceResourceIds.get(namespace);
+        if (cached) {
+            return cached;
+        }
+
+        const name = this.getFullyQualifiedNamespace(namespace).split('.')[0].toLowerCase();
+        const subscriptions = await this.armList<{ subscriptionId: string }>('/subscriptions', '2022-12-01');
+        for (const subscription of subscriptions) {
+            const namespaces = await this.armList<{ id: string; name: string }>(
+                `/subscriptions/${subscription.subscriptionId}/providers/Microsoft.ServiceBus/namespaces`
+            );
+            const match = namespaces.find(ns => ns.name.toLowerCase() === name);
+            if (match) {
+                this.namespaceResourceIds.set(namespace, match.id);
+                return match.id;
+            }
+        }
+        throw new Error(`Namespace ${name} was not found in the Azure subscriptions of the signed-in account`);
+    }
+
+    /**
+     * Call Azure Resource Manager with the Azure AD credential
+     */
+    private async armRequest<T>(method: string, path: string, body?: unknown, apiVersion: string = ARM_API_VERSION): Promise<T> {
+        const token = await this.credential.getToken('https://management.azure.com/.default');
+        if (!token) {
+            throw new Error('Failed to get authentication token');
+        }
+
+        const url = path.startsWith('https://')
+            ? path
+            : `https://management.azure.com${path}?api-version=${apiVersion}`;
+        console.log(`[ServiceBus ARM] ${method} ${url}`);
+
+        const response = await fetch(url, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${token.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Azure Resource Manager request failed: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+    }
+
+    /**
+     * Read every page of an Azure Resource Manager list
+     */
+    private async armList<T>(path: string, apiVersion: string = ARM_API_VERSION): Promise<T[]> {
+        const items: T[] = [];
+        let page = await this.armRequest<{ value: T[]; nextLink?: string }>('GET', path, undefined, apiVersion);
+        items.push(...page.value);
+        while (page.nextLink) {
+            page = await this.armRequest<{ value: T[]; nextLink?: string }>('GET', page.nextLink);
+            items.push(...page.value);
+        }
+        return items;
+    }
+
     /**
      * Get auth header for REST API calls (supports both connection string and Azure AD)
      */
@@ -449,14 +1474,15 @@ export class ServiceBusService {
     }
 
     /**
-     * Peek-lock a message from DLQ using REST API (works with session-enabled entities)
+     * Peek-lock the next unlocked message of a queue, subscription or dead-letter queue using REST API
      */
     private async peekLockMessageRest(
         namespace: string,
-        dlqPath: string
-    ): Promise<{ body: unknown; brokerProperties: Record<string, unknown>; userProperties: Record<string, unknown>; location: string } | null> {
+        path: string
+    ): Promise<RestLockedMessage | null> {
         const authHeader = await this.getAuthHeader(namespace);
-        const url = `https://${namespace}/${dlqPath}/messages/head`;
+        // Without a timeout the service long-polls an empty queue for its default of a minute or more
+        const url = `https://${this.getFullyQualifiedNamespace(namespace)}/${path}/messages/head?timeout=5`;
 
         console.log(`[ServiceBus REST] Peek-lock from: ${url}`);
 
@@ -469,7 +1495,7 @@ export class ServiceBusService {
         });
 
         if (response.status === 204) {
-            // No messages available
+            // Nothing arrived within the timeout: the end of the queue
             return null;
         }
 
@@ -486,7 +1512,7 @@ export class ServiceBusService {
         const userProperties: Record<string, unknown> = {};
         response.headers.forEach((value, key) => {
             // User properties come as custom headers (not standard ones)
-            if (!['brokerproperties', 'location', 'content-type', 'date', 'server', 'transfer-encoding', 'strict-transport-security'].includes(key.toLowerCase())) {
+            if (!['brokerproperties', 'location', 'content-type', 'content-length', 'connection', 'keep-alive', 'date', 'server', 'transfer-encoding', 'strict-transport-security'].includes(key.toLowerCase())) {
                 try {
                     userProperties[key] = JSON.parse(value);
                 } catch {
@@ -501,7 +1527,7 @@ export class ServiceBusService {
 
         console.log(`[ServiceBus REST] Peek-lock successful, SequenceNumber: ${brokerProperties.SequenceNumber}, LockToken: ${brokerProperties.LockToken}`);
 
-        return { body, brokerProperties, userProperties, location };
+        return { body, contentType: response.headers.get('Content-Type') ?? undefined, brokerProperties, userProperties, location };
     }
 
     /**
@@ -550,280 +1576,920 @@ export class ServiceBusService {
         console.log(`[ServiceBus REST] Message unlocked successfully`);
     }
 
-    async resubmitMessage(
+    /**
+     * Send a message using REST API; system properties go in the BrokerProperties header and
+     * application properties in custom headers
+     */
+    private async sendMessageRest(namespace: string, entityName: string, message: ServiceBusMessage): Promise<void> {
+        const authHeader = await this.getAuthHeader(namespace);
+        const url = `https://${this.getFullyQualifiedNamespace(namespace)}/${entityName}/messages`;
+
+        const brokerProperties: Record<string, unknown> = {
+            MessageId: message.messageId?.toString(),
+            CorrelationId: message.correlationId?.toString(),
+            Label: message.subject,
+            To: message.to,
+            ReplyTo: message.replyTo,
+            ReplyToSessionId: message.replyToSessionId,
+            SessionId: message.sessionId,
+            PartitionKey: message.partitionKey,
+            TimeToLive: message.timeToLive !== undefined ? message.timeToLive / 1000 : undefined,
+            ScheduledEnqueueTimeUtc: message.scheduledEnqueueTimeUtc?.toUTCString()
+        };
+
+        const headers: Record<string, string> = {
+            'Authorization': authHeader,
+            'BrokerProperties': JSON.stringify(brokerProperties)
+        };
+        for (const [key, value] of Object.entries(message.applicationProperties ?? {})) {
+            headers[key] = JSON.stringify(value instanceof Date ? value.toUTCString() : value);
+        }
+
+        const body = message.body;
+        const isText = typeof body === 'string';
+        headers['Content-Type'] = message.contentType ?? (isText || Buffer.isBuffer(body) ? 'text/plain' : 'application/json');
+
+        console.log(`[ServiceBus REST] Sending message to: ${url}`);
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body: isText ? body : Buffer.isBuffer(body) ? new Uint8Array(body) : JSON.stringify(body)
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`REST API send failed: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+
+        console.log(`[ServiceBus REST] Message sent successfully`);
+    }
+
+    /**
+     * Send a single message to a queue or topic
+     */
+    async sendMessage(
         namespace: string,
-        message: ServiceBusReceivedMessage,
-        queueName?: string,
-        topicName?: string,
-        subscriptionName?: string
+        entityName: string,
+        message: ServiceBusMessage
     ): Promise<void> {
+        if (this.getTransport(namespace) === 'rest') {
+            await this.sendMessageRest(namespace, entityName, message);
+            return;
+        }
+
         const client = this.getClient(namespace);
+        const sender = client.createSender(entityName);
 
-        // Create sender to the original queue or topic
-        let sender: ServiceBusSender;
-        if (queueName) {
-            sender = client.createSender(queueName);
-        } else if (topicName) {
-            sender = client.createSender(topicName);
-        } else {
-            throw new Error('Either queueName or topicName must be provided');
+        try {
+            console.log(`[ServiceBus] Sending message to ${entityName}`);
+            await sender.sendMessages(message);
+            console.log(`[ServiceBus] Message sent to ${entityName}`);
+        } finally {
+            await sender.close();
         }
+    }
 
-        // Create receiver for the dead-letter queue
-        let receiver;
+    /**
+     * Schedule a message to be enqueued at a future time. Returns its sequence number, which is
+     * needed to cancel it.
+     */
+    async scheduleMessage(
+        namespace: string,
+        entityName: string,
+        message: ServiceBusMessage,
+        scheduledEnqueueTimeUtc: Date
+    ): Promise<Long> {
+        const client = this.getClient(namespace);
+        const sender = client.createSender(entityName);
+
+        try {
+            const [sequenceNumber] = await sender.scheduleMessages(message, scheduledEnqueueTimeUtc);
+            return sequenceNumber;
+        } finally {
+            await sender.close();
+        }
+    }
+
+    async cancelScheduledMessages(
+        namespace: string,
+        entityName: string,
+        sequenceNumbers: Long[]
+    ): Promise<void> {
+        const client = this.getClient(namespace);
+        const sender = client.createSender(entityName);
+
+        try {
+            await sender.cancelScheduledMessages(sequenceNumbers);
+        } finally {
+            await sender.close();
+        }
+    }
+
+    /**
+     * Settle deferred messages by sequence number with the action chosen for each. Every message is peeked
+     * and its action chosen before it is received, so it is only locked while it is being settled;
+     * messages without an action are left deferred and untouched.
+     */
+    async settleDeferredMessages(
+        namespace: string,
+        sequenceNumbers: Long[],
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        chooseAction: (message: ServiceBusReceivedMessage) => Promise<DeferredMessageAction | undefined>
+    ): Promise<BulkOperationResult[]> {
+        const client = this.getClient(namespace);
+        let receiver: ServiceBusReceiver;
         if (queueName) {
-            receiver = client.createReceiver(queueName, {
-                receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
-            });
+            receiver = client.createReceiver(queueName, { receiveMode: 'peekLock' });
         } else if (topicName && subscriptionName) {
-            receiver = client.createReceiver(topicName, subscriptionName, {
-                receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
-            });
+            receiver = client.createReceiver(topicName, subscriptionName, { receiveMode: 'peekLock' });
         } else {
             throw new Error('Either queueName or both topicName and subscriptionName must be provided');
         }
 
         try {
-            let targetMessage: ServiceBusReceivedMessage | undefined;
-            const maxMessages = 1000;
-            let processedCount = 0;
-            const targetSequenceNumber = message.sequenceNumber?.toString();
+            const results: BulkOperationResult[] = [];
+            for (const sequenceNumber of sequenceNumbers) {
+                const [peeked] = await receiver.peekMessages(1, { fromSequenceNumber: sequenceNumber });
+                if (!peeked?.sequenceNumber || !Long.fromValue(peeked.sequenceNumber).equals(sequenceNumber) || peeked.state !== 'deferred') {
+                    results.push({
+                        sequenceNumber: sequenceNumber.toString(),
+                        success: false,
+                        error: 'No deferred message with this sequence number'
+                    });
+                    continue;
+                }
 
-            console.log(`[ServiceBus] Looking for message with sequenceNumber: ${targetSequenceNumber}`);
+                const result: BulkOperationResult = {
+                    sequenceNumber: sequenceNumber.toString(),
+                    messageId: peeked.messageId?.toString(),
+                    success: false
+                };
+                try {
+                    const choice = await chooseAction(peeked);
+                    if (!choice) {
+                        result.error = 'Skipped; the message is still deferred';
+                        results.push(result);
+                        continue;
+                    }
+                    const [message] = await receiver.receiveDeferredMessages([sequenceNumber]);
+                    if (!message) {
+                        throw new Error('The message is no longer deferred');
+                    }
+                    switch (choice.action) {
+                        case 'complete':
+                            await receiver.completeMessage(message);
+                            break;
+                        case 'abandon':
+                            await receiver.abandonMessage(message);
+                            break;
+                        case 'deadLetter':
+                            await receiver.deadLetterMessage(message, {
+                                deadLetterReason: choice.deadLetterReason,
+                                deadLetterErrorDescription: choice.deadLetterErrorDescription ?? ''
+                            });
+                            break;
+                    }
+                    result.success = true;
+                } catch (error) {
+                    result.error = error instanceof Error ? error.message : String(error);
+                }
+                results.push(result);
+            }
+            return results;
+        } finally {
+            await receiver.close().catch(() => { /* ignore close errors */ });
+        }
+    }
 
-            // First, peek to verify messages exist and check if target is there
-            // Use fromSequenceNumber: 1 to peek from the beginning (important!)
-            const peekedMessages = await receiver.peekMessages(100, { fromSequenceNumber: Long.fromInt(1) });
-            console.log(`[ServiceBus] Peeked ${peekedMessages.length} messages in DLQ`);
+    /**
+     * Send messages to a queue or topic in as few batches as possible, in order. A new batch is started
+     * whenever the session ID changes, so session-enabled and partitioned entities accept every batch.
+     * When maxMessagesPerSecond is set, batches are capped to that size and sends are paced to match.
+     */
+    async sendMessagesInBatches(
+        namespace: string,
+        entityName: string,
+        messages: ServiceBusMessage[],
+        options: BulkOperationOptions & { maxMessagesPerSecond?: number } = {}
+    ): Promise<number> {
+        if (this.getTransport(namespace) === 'rest') {
+            return this.sendMessagesRest(namespace, entityName, messages, options);
+        }
 
-            if (peekedMessages.length === 0) {
-                throw new Error('No messages found in dead-letter queue.');
+        const sender = this.getClient(namespace).createSender(entityName);
+        const maxPerBatch = options.maxMessagesPerSecond ?? Number.MAX_SAFE_INTEGER;
+        let sentCount = 0;
+
+        const sendBatch = async (batch: ServiceBusMessageBatch): Promise<void> => {
+            const startedAt = Date.now();
+            await sender.sendMessages(batch);
+            sentCount += batch.count;
+            options.onProgress?.(sentCount, messages.length);
+            console.log(`[ServiceBus] Sent batch of ${batch.count} messages to ${entityName} (${sentCount}/${messages.length})`);
+
+            if (options.maxMessagesPerSecond) {
+                const minimumDuration = (batch.count / options.maxMessagesPerSecond) * 1000;
+                const elapsed = Date.now() - startedAt;
+                if (elapsed < minimumDuration) {
+                    await new Promise(resolve => setTimeout(resolve, minimumDuration - elapsed));
+                }
             }
+        };
 
-            const peekedTarget = peekedMessages.find(m => m.sequenceNumber?.toString() === targetSequenceNumber);
-            if (!peekedTarget) {
-                console.log(`[ServiceBus] Target message not found in first ${peekedMessages.length} peeked messages`);
-                throw new Error('Target message not found in dead-letter queue.');
-            }
-            console.log(`[ServiceBus] Target message found in peeked messages`);
+        try {
+            let batch = await sender.createMessageBatch();
+            let batchSessionId: string | undefined;
 
-            // Try to receive messages with peekLock first
-            console.log(`[ServiceBus] Attempting to receive messages with peekLock mode...`);
-            const messages = await receiver.receiveMessages(100, { maxWaitTimeInMs: 10000 });
-            console.log(`[ServiceBus] Received ${messages.length} messages with peekLock`);
+            for (const message of messages) {
+                if (options.isCancellationRequested?.()) {
+                    break;
+                }
 
-            if (messages.length > 0) {
-                // peekLock worked, find and process the target message
-                for (const msg of messages) {
-                    const msgSeqNum = msg.sequenceNumber?.toString();
-                    if (msgSeqNum === targetSequenceNumber) {
-                        console.log(`[ServiceBus] Found target message with peekLock!`);
-                        targetMessage = msg;
-                    } else {
-                        // Abandon non-target messages
-                        await receiver.abandonMessage(msg);
+                const sessionChanged = batch.count > 0 && message.sessionId !== batchSessionId;
+                if (sessionChanged || batch.count >= maxPerBatch || !batch.tryAddMessage(message)) {
+                    if (batch.count === 0) {
+                        throw new Error(`Message ${message.messageId ?? ''} is too large to send`);
+                    }
+                    await sendBatch(batch);
+                    batch = await sender.createMessageBatch();
+                    if (options.isCancellationRequested?.()) {
+                        break;
+                    }
+                    if (!batch.tryAddMessage(message)) {
+                        throw new Error(`Message ${message.messageId ?? ''} is too large to send`);
                     }
                 }
+                batchSessionId = message.sessionId;
             }
 
-            // If peekLock didn't work (returns 0 messages), use the peeked data directly
-            // This can happen with session-enabled subscriptions even if "requires session" is false
-            if (!targetMessage) {
-                console.log(`[ServiceBus] peekLock receive returned 0 messages, using peeked message data directly`);
-
-                // Send the message using the peeked data
-                let messageBody = peekedTarget.body;
-                if (messageBody !== null && messageBody !== undefined) {
-                    if (typeof messageBody === 'object' && !Buffer.isBuffer(messageBody)) {
-                        try {
-                            messageBody = convertToPlainObject(messageBody);
-                            console.log(`[ServiceBus] Converted message body to JSON`);
-                        } catch (e) {
-                            console.log(`[ServiceBus] Could not convert body to JSON, using as-is: ${e}`);
-                        }
-                    }
+            if (batch.count > 0 && !options.isCancellationRequested?.()) {
+                await sendBatch(batch);
+            }
+            return sentCount;
+        } finally {
+            await sender.close();
+        }
+    }
+
+    /**
+     * Send messages one at a time using REST API, paced like sendMessagesInBatches
+     */
+    private async sendMessagesRest(
+        namespace: string,
+        entityName: string,
+        messages: ServiceBusMessage[],
+        options: BulkOperationOptions & { maxMessagesPerSecond?: number }
+    ): Promise<number> {
+        let sentCount = 0;
+        for (const message of messages) {
+            if (options.isCancellationRequested?.()) {
+                break;
+            }
+            const startedAt = Date.now();
+            await this.sendMessageRest(namespace, entityName, message);
+            sentCount++;
+            options.onProgress?.(sentCount, messages.length);
+
+            if (options.maxMessagesPerSecond) {
+                const elapsed = Date.now() - startedAt;
+                const minimumDuration = 1000 / options.maxMessagesPerSecond;
+                if (elapsed < minimumDuration) {
+                    await new Promise(resolve => setTimeout(resolve, minimumDuration - elapsed));
                 }
+            }
+        }
+        return sentCount;
+    }
 
-                // Convert applicationProperties to plain object (may contain AMQP types like AmqpMap)
-                const convertedAppProps = convertToPlainObject(peekedTarget.applicationProperties) as Record<string, unknown> | undefined;
-
-                console.log(`[ServiceBus] Sending message to main queue/topic`);
-                await sender.sendMessages({
-                    body: messageBody,
-                    contentType: peekedTarget.contentType,
-                    correlationId: peekedTarget.correlationId,
-                    subject: peekedTarget.subject,
-                    sessionId: peekedTarget.sessionId,
-                    messageId: `resubmit-${peekedTarget.messageId}`,
-                    applicationProperties: {
-                        ...convertedAppProps,
-                        'x-resubmitted': true,
-                        'x-original-dead-letter-reason': peekedTarget.deadLetterReason,
-                        'x-original-message-id': peekedTarget.messageId
+    /**
+     * Resubmit a single dead-letter message to its original queue or topic, optionally with an edited
+     * body and application properties. Only the message with the exact sequence number is removed from
+     * the DLQ; if it cannot be locked, nothing is sent and an error is thrown.
+     */
+    async resubmitMessage(
+        namespace: string,
+        message: ServiceBusReceivedMessage,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        edits?: MessageEdits,
+        subQueue: DeadLetterSubQueue = 'deadLetter'
+    ): Promise<void> {
+        const sequenceNumber = this.getRequiredSequenceNumber(message);
+        // Over REST the check would lock every message before the target once more
+        if (this.getTransport(namespace) !== 'rest') {
+            await this.assertDeadLetterMessageExists(namespace, sequenceNumber, queueName, topicName, subscriptionName, subQueue);
+        }
+
+        const [result] = await this.resubmitMessages(namespace, [sequenceNumber], queueName, topicName, subscriptionName, {}, edits, subQueue);
+        if (!result?.success) {
+            throw new Error(result?.error ?? 'Resubmit failed');
+        }
+        console.log(`[ServiceBus] Resubmit completed successfully`);
+    }
+
+    /**
+     * Resubmit the dead-letter (or transfer dead-letter) messages with the given sequence numbers to their
+     * original queue or topic
+     */
+    async resubmitMessages(
+        namespace: string,
+        sequenceNumbers: Long[],
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        options: BulkOperationOptions = {},
+        edits?: MessageEdits,
+        subQueue: DeadLetterSubQueue = 'deadLetter'
+    ): Promise<BulkOperationResult[]> {
+        const entityName = queueName ?? topicName;
+        if (!entityName) {
+            throw new Error('Either queueName or topicName must be provided');
+        }
+
+        if (this.getTransport(namespace) === 'rest') {
+            return this.processMessagesRest(
+                namespace,
+                subQueue,
+                sequenceNumbers,
+                queueName,
+                topicName,
+                subscriptionName,
+                async (msg, location) => {
+                    await this.sendMessageRest(namespace, entityName, this.buildResubmitMessage(msg, edits));
+                    try {
+                        await this.deleteMessageRest(namespace, location);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        throw new Error(`Message was resubmitted but could not be removed from the dead-letter queue, so it now exists in both: ${errorMessage}`);
                     }
-                });
-                console.log(`[ServiceBus] Message sent to main queue/topic`);
+                },
+                options
+            );
+        }
+
+        const sender = this.getClient(namespace).createSender(entityName);
+        try {
+            return await this.processMessages(
+                namespace,
+                subQueue,
+                sequenceNumbers,
+                queueName,
+                topicName,
+                subscriptionName,
+                async (receiver, msg) => {
+                    // Send first: if this fails the target is abandoned and stays in the DLQ untouched
+                    await sender.sendMessages(this.buildResubmitMessage(msg, edits));
+                    try {
+                        await receiver.completeMessage(msg);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        throw new Error(`Message was resubmitted but could not be removed from the dead-letter queue, so it now exists in both: ${errorMessage}`);
+                    }
+                },
+                options
+            );
+        } finally {
+            await sender.close();
+        }
+    }
 
-                // Now try to delete the message from DLQ using receiveAndDelete mode
-                await receiver.close();
+    /**
+     * Build the message sent back to the original entity when resubmitting a dead-letter message
+     */
+    private buildResubmitMessage(message: ServiceBusReceivedMessage, edits?: MessageEdits): ServiceBusMessage {
+        const copy = this.buildMessageCopy(message);
+        return {
+            ...copy,
+            body: edits ? edits.body : copy.body,
+            applicationProperties: {
+                ...(edits ? edits.applicationProperties : copy.applicationProperties),
+                'x-resubmitted': true,
+                'x-original-dead-letter-reason': message.deadLetterReason ?? null,
+                'x-original-message-id': message.messageId?.toString() ?? null
+            }
+        };
+    }
 
-                let deleteReceiver;
-                if (queueName) {
-                    deleteReceiver = client.createReceiver(queueName, {
-                        receiveMode: 'receiveAndDelete',
-                        subQueueType: 'deadLetter'
-                    });
-                } else {
-                    deleteReceiver = client.createReceiver(topicName!, subscriptionName!, {
-                        receiveMode: 'receiveAndDelete',
-                        subQueueType: 'deadLetter'
-                    });
-                }
+    /**
+     * Build a sendable copy of a received message, keeping its body, system properties and application properties
+     */
+    private buildMessageCopy(message: ServiceBusReceivedMessage): ServiceBusMessage {
+        // The body may contain AMQP-specific types (like AmqpMap) that can't be re-serialized
+        let messageBody = message.body;
+        if (messageBody !== null && messageBody !== undefined
+            && typeof messageBody === 'object' && !Buffer.isBuffer(messageBody)) {
+            messageBody = convertToPlainObject(messageBody);
+        }
 
+        // Convert applicationProperties to plain object (may contain AMQP types like AmqpMap)
+        const convertedAppProps = convertToPlainObject(message.applicationProperties) as Record<string, string | number | boolean | null> | undefined;
+
+        return {
+            body: messageBody,
+            contentType: message.contentType,
+            correlationId: message.correlationId,
+            subject: message.subject,
+            sessionId: message.sessionId,
+            replyTo: message.replyTo,
+            replyToSessionId: message.replyToSessionId,
+            timeToLive: message.timeToLive,
+            messageId: message.messageId,
+            applicationProperties: { ...convertedAppProps }
+        };
+    }
+
+    /**
+     * Send copies of already received or peeked messages to any queue or topic, in any registered namespace
+     */
+    async copyMessages(
+        targetNamespace: string,
+        targetEntityName: string,
+        messages: ServiceBusReceivedMessage[],
+        options: BulkOperationOptions = {}
+    ): Promise<BulkOperationResult[]> {
+        const sender = this.getClient(targetNamespace).createSender(targetEntityName);
+        const results: BulkOperationResult[] = [];
+
+        try {
+            for (const msg of messages) {
+                if (options.isCancellationRequested?.()) {
+                    break;
+                }
+                const result: BulkOperationResult = {
+                    sequenceNumber: msg.sequenceNumber?.toString() ?? '',
+                    messageId: msg.messageId?.toString(),
+                    success: true
+                };
                 try {
-                    console.log(`[ServiceBus] Attempting to delete message from DLQ using receiveAndDelete...`);
-                    const deletedMessages = await deleteReceiver.receiveMessages(100, { maxWaitTimeInMs: 10000 });
-                    console.log(`[ServiceBus] receiveAndDelete got ${deletedMessages.length} messages`);
-
-                    // Match by messageId since sequence number may differ
-                    const targetMessageId = peekedTarget.messageId;
-                    const wasDeleted = deletedMessages.some(m =>
-                        m.messageId === targetMessageId ||
-                        m.sequenceNumber?.toString() === targetSequenceNumber
-                    );
-
-                    if (wasDeleted) {
-                        console.log(`[ServiceBus] Target message was deleted from DLQ`);
-                    } else if (deletedMessages.length > 0) {
-                        // Log what we deleted for debugging
-                        console.log(`[ServiceBus] Deleted messages had IDs: ${deletedMessages.map(m => m.messageId).join(', ')}`);
-                        console.log(`[ServiceBus] Target messageId was: ${targetMessageId}, sequenceNumber: ${targetSequenceNumber}`);
-                        console.log(`[ServiceBus] WARNING: Deleted ${deletedMessages.length} message(s) - assuming target was among them`);
-                    } else {
-                        console.log(`[ServiceBus] WARNING: Could not delete message from DLQ (receiveAndDelete returned 0 messages)`);
-                        console.log(`[ServiceBus] Message was resubmitted but may still exist in DLQ - please delete manually`);
-                    }
-                } finally {
-                    await deleteReceiver.close();
+                    await sender.sendMessages(this.buildMessageCopy(msg));
+                } catch (error) {
+                    result.success = false;
+                    result.error = error instanceof Error ? error.message : String(error);
                 }
+                results.push(result);
+                options.onProgress?.(results.length, messages.length);
+            }
+            return results;
+        } finally {
+            await sender.close();
+        }
+    }
 
-                return; // We've handled everything in this branch
+    /**
+     * Move active or dead-letter messages to any queue or topic, in any registered namespace.
+     * Each source message is only completed after its copy has been sent.
+     */
+    async moveMessages(
+        namespace: string,
+        subQueue: SubQueue,
+        sequenceNumbers: Long[],
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        targetNamespace: string,
+        targetEntityName: string,
+        options: BulkOperationOptions = {}
+    ): Promise<BulkOperationResult[]> {
+        const sender = this.getClient(targetNamespace).createSender(targetEntityName);
+        try {
+            return await this.processMessages(
+                namespace,
+                subQueue,
+                sequenceNumbers,
+                queueName,
+                topicName,
+                subscriptionName,
+                async (receiver, msg) => {
+                    await sender.sendMessages(this.buildMessageCopy(msg));
+                    try {
+                        await receiver.completeMessage(msg);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        throw new Error(`Message was copied to ${targetEntityName} but could not be removed from the source, so it now exists in both: ${errorMessage}`);
+                    }
+                },
+                options
+            );
+        } finally {
+            await sender.close();
+        }
+    }
+
+    /**
+     * Move every message of an active queue or subscription to any queue or topic, in any registered namespace.
+     * Every received message is a target, so none is held while scanning: each one is sent and then completed
+     * as it arrives. The snapshot is the folder's messages peeked beforehand; messages enqueued after it are
+     * left in place, and receiving stops at the first of them. Scheduled and deferred messages are not moved.
+     */
+    async moveAllActiveMessages(
+        namespace: string,
+        snapshot: ServiceBusReceivedMessage[],
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        targetNamespace: string,
+        targetEntityName: string,
+        options: BulkOperationOptions = {}
+    ): Promise<BulkOperationResult[]> {
+        const results: BulkOperationResult[] = [];
+        const remaining = new Map<string, ServiceBusReceivedMessage>();
+        for (const msg of snapshot) {
+            const sequenceNumber = msg.sequenceNumber?.toString() ?? '';
+            if (msg.state === 'active') {
+                remaining.set(sequenceNumber, msg);
+            } else {
+                results.push({
+                    sequenceNumber,
+                    messageId: msg.messageId?.toString(),
+                    success: false,
+                    error: `${msg.state === 'scheduled' ? 'Scheduled' : 'Deferred'} messages are not moved`
+                });
             }
+        }
+        const total = remaining.size;
+        if (total === 0) {
+            return results;
+        }
+
+        const client = this.getClient(namespace);
+        let receiver: ServiceBusReceiver;
+        if (queueName) {
+            receiver = client.createReceiver(queueName, { receiveMode: 'peekLock' });
+        } else if (topicName && subscriptionName) {
+            receiver = client.createReceiver(topicName, subscriptionName, { receiveMode: 'peekLock' });
+        } else {
+            throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+        }
+        const sender = this.getClient(targetNamespace).createSender(targetEntityName);
+        let completedCount = 0;
+
+        try {
+            let stopReceiving = false;
+            while (remaining.size > 0 && !stopReceiving && !options.isCancellationRequested?.()) {
+                const messages = await receiver.receiveMessages(100, { maxWaitTimeInMs: 5000 });
+                if (messages.length === 0) {
+                    break;
+                }
 
-            // Send the message back to the main queue/topic
-            // The body may contain AMQP-specific types (like AmqpMap) that can't be re-serialized.
-            // Convert to JSON string to ensure it can be sent.
-            let messageBody = targetMessage.body;
-            let contentType = targetMessage.contentType;
+                for (const msg of messages) {
+                    const msgSeqNum = msg.sequenceNumber?.toString() ?? '';
+                    const target = remaining.get(msgSeqNum);
+                    if (!target || stopReceiving || options.isCancellationRequested?.()) {
+                        // Enqueued after the snapshot, after a failed send, or cancelled: hand it straight back and stop receiving
+                        stopReceiving = true;
+                        await receiver.abandonMessage(msg).catch(() => { /* lock may already have expired */ });
+                        continue;
+                    }
 
-            if (messageBody !== null && messageBody !== undefined) {
-                // If body is an object with AMQP types, serialize to JSON
-                if (typeof messageBody === 'object' && !Buffer.isBuffer(messageBody)) {
+                    remaining.delete(msgSeqNum);
+                    const result: BulkOperationResult = { sequenceNumber: msgSeqNum, messageId: msg.messageId?.toString(), success: false };
+                    try {
+                        await sender.sendMessages(this.buildMessageCopy(msg));
+                    } catch (error) {
+                        // The abandoned message would be received again straight away, so give up here
+                        await receiver.abandonMessage(msg).catch(() => { /* lock may already have expired */ });
+                        result.error = error instanceof Error ? error.message : String(error);
+                        results.push(result);
+                        options.onProgress?.(++completedCount, total);
+                        stopReceiving = true;
+                        continue;
+                    }
                     try {
-                        // Deep clone and convert to plain JSON to strip AMQP types
-                        messageBody = convertToPlainObject(messageBody);
-                        console.log(`[ServiceBus] Converted message body to JSON`);
-                    } catch (e) {
-                        console.log(`[ServiceBus] Could not convert body to JSON, using as-is: ${e}`);
+                        await receiver.completeMessage(msg);
+                        result.success = true;
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        result.error = `Message was copied to ${targetEntityName} but could not be removed from the source, so it now exists in both: ${errorMessage}`;
                     }
+                    results.push(result);
+                    options.onProgress?.(++completedCount, total);
                 }
             }
 
-            // Convert applicationProperties to plain object (may contain AMQP types like AmqpMap)
-            const convertedAppProps = convertToPlainObject(targetMessage.applicationProperties) as Record<string, unknown> | undefined;
-
-            console.log(`[ServiceBus] Sending message to main queue/topic`);
-            await sender.sendMessages({
-                body: messageBody,
-                contentType: contentType,
-                correlationId: targetMessage.correlationId,
-                subject: targetMessage.subject,
-                sessionId: targetMessage.sessionId,
-                messageId: targetMessage.messageId,
-                applicationProperties: {
-                    ...convertedAppProps,
-                    'x-resubmitted': true,
-                    'x-original-dead-letter-reason': targetMessage.deadLetterReason
-                }
-            });
-
-            // Complete (delete) the message from DLQ
-            console.log(`[ServiceBus] Completing message in DLQ`);
-            await receiver.completeMessage(targetMessage);
-            console.log(`[ServiceBus] Resubmit completed successfully`);
+            const notReceivedError = options.isCancellationRequested?.()
+                ? 'Cancelled'
+                : stopReceiving
+                    ? 'Not moved; receiving stopped before this message was reached. Nothing was changed'
+                    : 'Message was not received; it may be locked by a consumer or already gone. Nothing was changed';
+            for (const [sequenceNumber, msg] of remaining) {
+                results.push({ sequenceNumber, messageId: msg.messageId?.toString(), success: false, error: notReceivedError });
+            }
+            return results;
         } finally {
+            await receiver.close().catch(() => { /* ignore close errors */ });
             await sender.close();
-            await receiver.close();
         }
     }
 
+    /**
+     * Delete a single dead-letter message by its exact sequence number
+     */
     async deleteMessage(
         namespace: string,
         message: ServiceBusReceivedMessage,
         queueName?: string,
         topicName?: string,
-        subscriptionName?: string
+        subscriptionName?: string,
+        subQueue: DeadLetterSubQueue = 'deadLetter'
     ): Promise<void> {
+        const sequenceNumber = this.getRequiredSequenceNumber(message);
+        if (this.getTransport(namespace) !== 'rest') {
+            await this.assertDeadLetterMessageExists(namespace, sequenceNumber, queueName, topicName, subscriptionName, subQueue);
+        }
+
+        const [result] = await this.deleteMessages(namespace, subQueue, [sequenceNumber], queueName, topicName, subscriptionName);
+        if (!result?.success) {
+            throw new Error(result?.error ?? 'Delete failed');
+        }
+        console.log(`[ServiceBus] Delete completed successfully`);
+    }
+
+    /**
+     * Delete the messages with the given sequence numbers from the active queue or a dead-letter queue
+     */
+    async deleteMessages(
+        namespace: string,
+        subQueue: SubQueue,
+        sequenceNumbers: Long[],
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        options: BulkOperationOptions = {}
+    ): Promise<BulkOperationResult[]> {
+        if (this.getTransport(namespace) === 'rest') {
+            return this.processMessagesRest(
+                namespace,
+                subQueue,
+                sequenceNumbers,
+                queueName,
+                topicName,
+                subscriptionName,
+                (_msg, location) => this.deleteMessageRest(namespace, location),
+                options
+            );
+        }
+
+        return this.processMessages(
+            namespace,
+            subQueue,
+            sequenceNumbers,
+            queueName,
+            topicName,
+            subscriptionName,
+            (receiver, msg) => receiver.completeMessage(msg),
+            options
+        );
+    }
+
+    private getRequiredSequenceNumber(message: ServiceBusReceivedMessage): Long {
+        if (!message.sequenceNumber) {
+            throw new Error('Message has no sequence number');
+        }
+        return Long.fromValue(message.sequenceNumber);
+    }
+
+    /**
+     * Peek exactly at the target sequence number so a missing message fails fast without locking anything
+     */
+    private async assertDeadLetterMessageExists(
+        namespace: string,
+        sequenceNumber: Long,
+        queueName?: string,
+        topicName?: string,
+        subscriptionName?: string,
+        subQueue: DeadLetterSubQueue = 'deadLetter'
+    ): Promise<void> {
+        const [peeked] = await this.peekDeadLetterMessages(namespace, queueName, topicName, subscriptionName, 1, sequenceNumber, subQueue);
+        if (!peeked?.sequenceNumber || !Long.fromValue(peeked.sequenceNumber).equals(sequenceNumber)) {
+            throw new Error(`Message #${sequenceNumber.toString()} not found in ${describeSubQueue(subQueue)}. It may have already been removed.`);
+        }
+    }
+
+    /**
+     * Lock the messages with the given sequence numbers in a dead-letter queue and apply an action to each.
+     * Messages are received in peekLock mode; non-target messages stay locked while scanning (so they
+     * are not received again) and are abandoned at the end, so they are never removed. A target is only
+     * settled by the action; if the action throws, the target is abandoned and reported as a failure.
+     * Targets that cannot be found are reported as failures.
+     * Active queues are refused: abandoning raises the delivery count of unrelated live messages, which
+     * can dead-letter them, and the scan withholds them from real consumers.
+     */
+    private async processMessages(
+        namespace: string,
+        subQueue: SubQueue,
+        sequenceNumbers: Long[],
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        action: (receiver: ServiceBusReceiver, message: ServiceBusReceivedMessage) => Promise<void>,
+        options: BulkOperationOptions
+    ): Promise<BulkOperationResult[]> {
+        if (subQueue === 'active') {
+            throw new Error('Messages can only be moved, resubmitted or deleted by sequence number from a dead-letter queue; active messages would be locked and abandoned along the way');
+        }
+
         const client = this.getClient(namespace);
 
-        let receiver;
+        let receiver: ServiceBusReceiver;
         if (queueName) {
             receiver = client.createReceiver(queueName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else if (topicName && subscriptionName) {
             receiver = client.createReceiver(topicName, subscriptionName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else {
             throw new Error('Either queueName or both topicName and subscriptionName must be provided');
         }
 
+        const remaining = new Set(sequenceNumbers.map(sequenceNumber => sequenceNumber.toString()));
+        const total = remaining.size;
+        const results: BulkOperationResult[] = [];
+        const heldMessages: ServiceBusReceivedMessage[] = [];
+        const seen = new Set<string>();
+        let lockExpired = false;
+
         try {
-            let targetMessage: ServiceBusReceivedMessage | undefined;
-            const maxMessages = 1000;
-            let processedCount = 0;
-            const targetSequenceNumber = message.sequenceNumber?.toString();
+            scan:
+            while (remaining.size > 0 && !options.isCancellationRequested?.()) {
+                const messages = await receiver.receiveMessages(100, { maxWaitTimeInMs: 5000 });
+                console.log(`[ServiceBus] Received ${messages.length} ${subQueue} messages, ${remaining.size} targets remaining`);
+                if (messages.length === 0) {
+                    break;
+                }
+
+                for (const msg of messages) {
+                    const msgSeqNum = msg.sequenceNumber?.toString() ?? '';
+                    if (seen.has(msgSeqNum)) {
+                        // A held lock expired partway through and the message came round again, so the
+                        // scan cannot go further; targets not reached yet are reported as incomplete
+                        heldMessages.push(msg);
+                        lockExpired = true;
+                        break scan;
+                    }
+                    seen.add(msgSeqNum);
+
+                    if (!remaining.has(msgSeqNum) || options.isCancellationRequested?.()) {
+                        heldMessages.push(msg);
+                        continue;
+                    }
 
-            console.log(`[ServiceBus] Looking for message to delete with sequenceNumber: ${targetSequenceNumber}`);
+                    remaining.delete(msgSeqNum);
+                    try {
+                        await action(receiver, msg);
+                        results.push({ sequenceNumber: msgSeqNum, messageId: msg.messageId?.toString(), success: true });
+                    } catch (error) {
+                        heldMessages.push(msg);
+                        results.push({
+                            sequenceNumber: msgSeqNum,
+                            messageId: msg.messageId?.toString(),
+                            success: false,
+                            error: error instanceof Error ? error.message : String(error)
+                        });
+                    }
+                    options.onProgress?.(results.length, total);
+                }
+            }
 
-            while (processedCount < maxMessages) {
-                console.log(`[ServiceBus] Receiving messages from DLQ (attempt ${processedCount + 1})`);
-                const messages = await receiver.receiveMessages(1, { maxWaitTimeInMs: 5000 });
+            const notFoundError = options.isCancellationRequested?.()
+                ? 'Cancelled'
+                : lockExpired
+                    ? `Scan incomplete: locks expired before this message was reached in the ${describeSubQueue(subQueue)}; nothing was changed. Try again with fewer messages`
+                    : `Message could not be locked in the ${describeSubQueue(subQueue)}; nothing was changed`;
+            for (const sequenceNumber of remaining) {
+                results.push({ sequenceNumber, success: false, error: notFoundError });
+            }
+            return results;
+        } finally {
+            // Release everything we held locked while scanning
+            for (const msg of heldMessages) {
+                await receiver.abandonMessage(msg).catch(() => { /* lock may already have expired */ });
+            }
+            await receiver.close();
+        }
+    }
 
-                console.log(`[ServiceBus] Received ${messages.length} messages`);
+    /**
+     * The REST counterpart of processMessages: lock dead-letter messages one at a time from the head of
+     * the queue, apply the action to the targets and unlock everything else at the end
+     */
+    private async processMessagesRest(
+        namespace: string,
+        subQueue: SubQueue,
+        sequenceNumbers: Long[],
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        action: (message: ServiceBusReceivedMessage, location: string) => Promise<void>,
+        options: BulkOperationOptions
+    ): Promise<BulkOperationResult[]> {
+        if (subQueue === 'active') {
+            throw this.restActiveMessagesError(namespace);
+        }
+        const path = this.getRestPath(subQueue, queueName, topicName, subscriptionName);
+        const remaining = new Set(sequenceNumbers.map(sequenceNumber => sequenceNumber.toString()));
+        const total = remaining.size;
+        const results: BulkOperationResult[] = [];
+        const heldLocations: string[] = [];
+        const seen = new Set<string>();
+        let lockExpired = false;
 
-                if (messages.length === 0) {
+        try {
+            while (remaining.size > 0 && !options.isCancellationRequested?.()) {
+                const locked = await this.peekLockMessageRest(namespace, path);
+                if (!locked) {
                     break;
                 }
 
-                const msg = messages[0];
-                processedCount++;
-                const msgSeqNum = msg.sequenceNumber?.toString();
+                const msg = this.toReceivedMessage(locked);
+                const msgSeqNum = msg.sequenceNumber?.toString() ?? '';
+                if (seen.has(msgSeqNum)) {
+                    // A held lock expired partway through and the message came round again, so the
+                    // scan cannot go further; targets not reached yet are reported as incomplete
+                    heldLocations.push(locked.location);
+                    lockExpired = true;
+                    break;
+                }
+                seen.add(msgSeqNum);
 
-                console.log(`[ServiceBus] Checking message with sequenceNumber: ${msgSeqNum}`);
+                if (!remaining.has(msgSeqNum)) {
+                    heldLocations.push(locked.location);
+                    continue;
+                }
 
-                if (msgSeqNum === targetSequenceNumber) {
-                    console.log(`[ServiceBus] Found target message!`);
-                    targetMessage = msg;
-                    break;
-                } else {
-                    console.log(`[ServiceBus] Not a match, abandoning message`);
-                    await receiver.abandonMessage(msg);
+                remaining.delete(msgSeqNum);
+                try {
+                    await action(msg, locked.location);
+                    results.push({ sequenceNumber: msgSeqNum, messageId: msg.messageId?.toString(), success: true });
+                } catch (error) {
+                    heldLocations.push(locked.location);
+                    results.push({
+                        sequenceNumber: msgSeqNum,
+                        messageId: msg.messageId?.toString(),
+                        success: false,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
                 }
+                options.onProgress?.(results.length, total);
             }
 
-            if (!targetMessage) {
-                throw new Error('Message not found in dead-letter queue. It may have already been deleted.');
+            const notFoundError = options.isCancellationRequested?.()
+                ? 'Cancelled'
+                : lockExpired
+                    ? `Scan incomplete: locks expired before this message was reached in the ${describeSubQueue(subQueue)}; nothing was changed. Try again with fewer messages`
+                    : `Message could not be locked in the ${describeSubQueue(subQueue)}; nothing was changed`;
+            for (const sequenceNumber of remaining) {
+                results.push({ sequenceNumber, success: false, error: notFoundError });
+            }
+            return results;
+        } finally {
+            for (const location of heldLocations) {
+                await this.unlockMessageRest(namespace, location).catch(() => { /* lock may already have expired */ });
             }
+        }
+    }
 
-            console.log(`[ServiceBus] Completing (deleting) message from DLQ`);
-            await receiver.completeMessage(targetMessage);
-            console.log(`[ServiceBus] Delete completed successfully`);
+    /**
+     * Delete up to maxMessages active messages by receiving them in receiveAndDelete mode. Nothing is locked,
+     * so no message is held or abandoned; scheduled and deferred messages are not received and stay in place.
+     * Progress reports the number deleted so far.
+     */
+    async purgeActiveMessages(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        maxMessages: number,
+        options: BulkOperationOptions = {}
+    ): Promise<number> {
+        const client = this.getClient(namespace);
+        let receiver: ServiceBusReceiver;
+        if (queueName) {
+            receiver = client.createReceiver(queueName, { receiveMode: 'receiveAndDelete' });
+        } else if (topicName && subscriptionName) {
+            receiver = client.createReceiver(topicName, subscriptionName, { receiveMode: 'receiveAndDelete' });
+        } else {
+            throw new Error('Either queueName or both topicName and subscriptionName must be provided');
+        }
+
+        try {
+            let totalDeleted = 0;
+            while (totalDeleted < maxMessages && !options.isCancellationRequested?.()) {
+                const messages = await receiver.receiveMessages(Math.min(100, maxMessages - totalDeleted), { maxWaitTimeInMs: 5000 });
+                if (messages.length === 0) {
+                    break;
+                }
+                totalDeleted += messages.length;
+                options.onProgress?.(totalDeleted, maxMessages);
+            }
+            return totalDeleted;
         } finally {
             await receiver.close();
         }
@@ -833,7 +2499,8 @@ export class ServiceBusService {
         namespace: string,
         queueName?: string,
         topicName?: string,
-        subscriptionName?: string
+        subscriptionName?: string,
+        subQueue: DeadLetterSubQueue = 'deadLetter'
     ): Promise<number> {
         const client = this.getClient(namespace);
         let receiver;
@@ -841,12 +2508,12 @@ export class ServiceBusService {
         if (queueName) {
             receiver = client.createReceiver(queueName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else if (topicName && subscriptionName) {
             receiver = client.createReceiver(topicName, subscriptionName, {
                 receiveMode: 'peekLock',
-                subQueueType: 'deadLetter'
+                subQueueType: subQueue
             });
         } else {
             throw new Error('Either queueName or both topicName and subscriptionName must be provided');
@@ -0,0 +1,812 @@
+import { randomUUID } from 'crypto';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import Long from 'long';
+
+export type SqlValue = string | number | boolean | null;
+
+export type SqlComparisonOperator = '=' | '<>' | '!=' | '>' | '>=' | '<' | '<=';
+export type SqlArithmeticOperator = '+' | '-' | '*' | '/' | '%';
+
+/**
+ * A property reference; unqualified names refer to application (user) properties
+ */
+export interface SqlProperty {
+    kind: 'property';
+    scope: 'sys' | 'user';
+    name: string;
+}
+
+/**
+ * Syntax tree of a Service Bus SQL filter expression
+ */
+export type SqlExpression =
+    | { kind: 'literal'; value: SqlValue }
+    | SqlProperty
+    | { kind: 'parameter'; name: string }
+    | { kind: 'function'; name: string; args: SqlExpression[] }
+    | { kind: 'negate'; operand: SqlExpression }
+    | { kind: 'arithmetic'; operator: SqlArithmeticOperator; left: SqlExpression; right: SqlExpression }
+    | { kind: 'comparison'; operator: SqlComparisonOperator; left: SqlExpression; right: SqlExpression }
+    | { kind: 'and' | 'or'; left: SqlExpression; right: SqlExpression }
+    | { kind: 'not'; operand: SqlExpression }
+    | { kind: 'in'; operand: SqlExpression; values: SqlExpression[]; negated: boolean }
+    | { kind: 'like'; operand: SqlExpression; pattern: SqlExpression; escape?: string; negated: boolean }
+    | { kind: 'isNull'; operand: SqlExpression; negated: boolean }
+    | { kind: 'exists'; property: SqlProperty };
+
+/**
+ * One statement of a SQL rule action
+ */
+export type SqlActionStatement =
+    | { kind: 'set'; property: SqlProperty; value: SqlExpression }
+    | { kind: 'remove'; property: SqlProperty };
+
+const FUNCTIONS = ['newid', 'property', 'p'];
+
+type Token =
+    | { kind: 'word'; value: string; position: number }
+    | { kind: 'delimited'; value: string; position: number }
+    | { kind: 'string'; value: string; position: number }
+    | { kind: 'number'; value: number; text: string; position: number }
+    | { kind: 'parameter'; value: string; position: number }
+    | { kind: 'op'; value: string; position: number };
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(<>|!=|>=|<=|[=<>+\-*/%(),.;])|'((?:[^']|'')*)'|\[([^\]]*)\]|(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|@([A-Za-z_][A-Za-z0-9_]*)|([A-Za-z_][A-Za-z0-9_]*))/y;
+    let index = 0;
+
+    while (index < text.length) {
+        if (!text.substring(index).trim()) {
+            break;
+        }
+        pattern.lastIndex = index;
+        const match = pattern.exec(text);
+        if (!match) {
+            const position = index + (text.length - index - text.substring(index).trimStart().length);
+            const unterminated = text[position] === '\'' ? 'Unterminated string' : `Unexpected character "${text[position]}"`;
+            throw new Error(`${unterminated} at position ${position + 1}`);
+        }
+        const position = index + match[0].length - match[0].trimStart().length;
+        index = pattern.lastIndex;
+
+        if (match[1] !== undefined) {
+            tokens.push({ kind: 'op', value: match[1], position });
+        } else if (match[2] !== undefined) {
+            tokens.push({ kind: 'string', value: match[2].replace(/''/g, '\''), position });
+        } else if (match[3] !== undefined) {
+            tokens.push({ kind: 'delimited', value: match[3], position });
+        } else if (match[4] !== undefined) {
+            tokens.push({ kind: 'number', value: Number(match[4]), text: match[4], position });
+        } else if (match[5] !== undefined) {
+            tokens.push({ kind: 'parameter', value: match[5], position });
+        } else {
+            tokens.push({ kind: 'word', value: match[6], position });
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser shared by filters and actions
+ */
+class SqlParser {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    get isAtEnd(): boolean {
+        return this.position >= this.tokens.length;
+    }
+
+    /**
+     * Throw for the next unparsed token, or for the end of the input
+     */
+    fail(expected: string): never {
+        const token = this.tokens[this.position];
+        if (!token) {
+            throw new Error(`Expected ${expected} at the end of the expression`);
+        }
+        const found = token.kind === 'string' ? `'${token.value}'` : token.kind === 'number' ? token.text : token.value;
+        throw new Error(`Expected ${expected} but found "${found}" at position ${token.position + 1}`);
+    }
+
+    isKeyword(...keywords: string[]): boolean {
+        const token = this.tokens[this.position];
+        return token?.kind === 'word' && keywords.includes(token.value.toUpperCase());
+    }
+
+    isOperator(...operators: string[]): boolean {
+        const token = this.tokens[this.position];
+        return token?.kind === 'op' && operators.includes(token.value);
+    }
+
+    acceptKeyword(keyword: string): boolean {
+        if (this.isKeyword(keyword)) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    acceptOperator(operator: string): boolean {
+        if (this.isOperator(operator)) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    expectKeyword(keyword: string): void {
+        if (!this.acceptKeyword(keyword)) {
+            this.fail(keyword);
+        }
+    }
+
+    expectOperator(operator: string): void {
+        if (!this.acceptOperator(operator)) {
+            this.fail(`"${operator}"`);
+        }
+    }
+
+    parseOr(): SqlExpression {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('OR')) {
+            left = { kind: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    parseAnd(): SqlExpression {
+        let left = this.parseNot();
+        while (this.acceptKeyword('AND')) {
+            left = { kind: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    parseNot(): SqlExpression {
+        if (this.acceptKeyword('NOT')) {
+            return { kind: 'not', operand: this.parseNot() };
+        }
+        return this.parsePredicate();
+    }
+
+    parsePredicate(): SqlExpression {
+        if (this.acceptKeyword('EXISTS')) {
+            this.expectOperator('(');
+            const property = this.parseProperty();
+            this.expectOperator(')');
+            return { kind: 'exists', property };
+        }
+
+        const operand = this.parseAdditive();
+
+        if (this.isOperator('=', '<>', '!=', '>', '>=', '<', '<=')) {
+            const operator = this.tokens[this.position++].value as SqlComparisonOperator;
+            return { kind: 'comparison', operator, left: operand, right: this.parseAdditive() };
+        }
+
+        if (this.acceptKeyword('IS')) {
+            const negated = this.acceptKeyword('NOT');
+            this.expectKeyword('NULL');
+            return { kind: 'isNull', operand, negated };
+        }
+
+        const negated = this.acceptKeyword('NOT');
+        if (this.acceptKeyword('IN')) {
+            this.expectOperator('(');
+            const values = [this.parseAdditive()];
+            while (this.acceptOperator(',')) {
+                values.push(this.parseAdditive());
+            }
+            this.expectOperator(')');
+            return { kind: 'in', operand, values, negated };
+        }
+        if (this.acceptKeyword('LIKE')) {
+            const pattern = this.parseAdditive();
+            let escape: string | undefined;
+            if (this.acceptKeyword('ESCAPE')) {
+                const token = this.tokens[this.position];
+                if (token?.kind !== 'string' || token.value.length !== 1) {
+                    this.fail('a single-character string after ESCAPE');
+                }
+                escape = token.value;
+                this.position++;
+            }
+            return { kind: 'like', operand, pattern, escape, negated };
+        }
+        if (negated) {
+            this.fail('IN or LIKE after NOT');
+        }
+        return operand;
+    }
+
+    parseAdditive(): SqlExpression {
+        let left = this.parseMultiplicative();
+        while (this.isOperator('+', '-')) {
+            const operator = this.tokens[this.position++].value as SqlArithmeticOperator;
+            left = { kind: 'arithmetic', operator, left, right: this.parseMultiplicative() };
+        }
+        return left;
+    }
+
+    parseMultiplicative(): SqlExpression {
+        let left = this.parseUnary();
+        while (this.isOperator('*', '/', '%')) {
+            const operator = this.tokens[this.position++].value as SqlArithmeticOperator;
+            left = { kind: 'arithmetic', operator, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    parseUnary(): SqlExpression {
+        if (this.acceptOperator('-')) {
+            return { kind: 'negate', operand: this.parseUnary() };
+        }
+        if (this.acceptOperator('+')) {
+            return this.parseUnary();
+        }
+        return this.parsePrimary();
+    }
+
+    parsePrimary(): SqlExpression {
+        const token = this.tokens[this.position];
+        if (!token) {
+            this.fail('a value or property');
+        }
+
+        switch (token.kind) {
+            case 'string':
+            case 'number':
+                this.position++;
+                return { kind: 'literal', value: token.value };
+            case 'parameter':
+                this.position++;
+                return { kind: 'parameter', name: token.value };
+            case 'op':
+                if (token.value === '(') {
+                    this.position++;
+                    const inner = this.parseOr();
+                    this.expectOperator(')');
+                    return inner;
+                }
+                return this.fail('a value or property');
+            case 'word': {
+                const keyword = token.value.toUpperCase();
+                if (keyword === 'TRUE' || keyword === 'FALSE') {
+                    this.position++;
+                    return { kind: 'literal', value: keyword === 'TRUE' };
+                }
+                if (keyword === 'NULL') {
+                    this.position++;
+                    return { kind: 'literal', value: null };
+                }
+                const next = this.tokens[this.position + 1];
+                if (next?.kind === 'op' && next.value === '(') {
+                    return this.parseFunction();
+                }
+                return this.parseProperty();
+            }
+            case 'delimited':
+                return this.parseProperty();
+        }
+    }
+
+    parseFunction(): SqlExpression {
+        const nameToken = this.tokens[this.position++];
+        const name = nameToken.kind === 'word' ? nameToken.value.toLowerCase() : '';
+        if (!FUNCTIONS.includes(name)) {
+            throw new Error(`Unknown function "${nameToken.value}" at position ${nameToken.position + 1}. Supported functions are newid() and property(name)`);
+        }
+        this.expectOperator('(');
+        const args: SqlExpression[] = [];
+        if (!this.isOperator(')')) {
+            args.push(this.parseAdditive());
+            while (this.acceptOperator(',')) {
+                args.push(this.parseAdditive());
+            }
+        }
+        this.expectOperator(')');
+
+        const expectedArgs = name === 'newid' ? 0 : 1;
+        if (args.length !== expectedArgs) {
+            throw new Error(`${name}() takes ${expectedArgs === 0 ? 'no arguments' : 'one argument'} (position ${nameToken.position + 1})`);
+        }
+        return { kind: 'function', name, args };
+    }
+
+    parseProperty(): SqlProperty {
+        const first = this.readName();
+        if (this.acceptOperator('.')) {
+            const scope = first.toLowerCase();
+            if (scope !== 'sys' && scope !== 'user') {
+                throw new Error(`Unknown property scope "${first}"; use sys. or user.`);
+            }
+            return { kind: 'property', scope, name: this.readName() };
+        }
+        return { kind: 'property', scope: 'user', name: first };
+    }
+
+    private readName(): string {
+        const token = this.tokens[this.position];
+        if (token?.kind === 'delimited') {
+            this.position++;
+            return token.value;
+        }
+        if (token?.kind === 'word' && !['AND', 'OR', 'NOT', 'IS', 'IN', 'LIKE', 'ESCAPE', 'EXISTS', 'NULL', 'TRUE', 'FALSE'].includes(token.value.toUpperCase())) {
+            this.position++;
+            return token.value;
+        }
+        return this.fail('a property name');
+    }
+}
+
+/**
+ * Parse a SQL filter expression such as `sys.Label = 'Order' AND quantity > 10`.
+ * Throws with the position of the first syntax error.
+ */
+export function parseSqlFilter(text: string): SqlExpression {
+    const parser = new SqlParser(tokenize(text));
+    if (parser.isAtEnd) {
+        throw new Error('The filter expression is empty');
+    }
+    const expression = parser.parseOr();
+    if (!parser.isAtEnd) {
+        parser.fail('AND, OR or the end of the expression');
+    }
+    return expression;
+}
+
+/**
+ * Parse a SQL rule action such as `SET sys.Label = 'Routed'; REMOVE priority`
+ */
+export function parseSqlAction(text: string): SqlActionStatement[] {
+    const parser = new SqlParser(tokenize(text));
+    const statements: SqlActionStatement[] = [];
+
+    while (!parser.isAtEnd) {
+        if (parser.acceptKeyword('SET')) {
+            const property = parser.parseProperty();
+            parser.expectOperator('=');
+            statements.push({ kind: 'set', property, value: parser.parseAdditive() });
+        } else if (parser.acceptKeyword('REMOVE')) {
+            statements.push({ kind: 'remove', property: parser.parseProperty() });
+        } else {
+            parser.fail('SET or REMOVE');
+        }
+
+        if (!parser.acceptOperator(';') && !parser.isAtEnd) {
+            parser.fail('";" between statements');
+        }
+    }
+
+    if (statements.length === 0) {
+        throw new Error('The action is empty');
+    }
+    return statements;
+}
+
+/**
+ * Check a SQL filter expression, returning the syntax error or undefined when it is valid
+ */
+export function validateSqlFilter(text: string): string | undefined {
+    try {
+        parseSqlFilter(text);
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Check a SQL rule action, returning the syntax error or undefined when it is valid
+ */
+export function validateSqlAction(text: string): string | undefined {
+    try {
+        parseSqlAction(text);
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * The message fields a filter is evaluated against; peeked messages and hand-written samples both fit
+ */
+export type FilterableMessage = Partial<ServiceBusReceivedMessage>;
+
+/**
+ * Whether a message matched a filter, and the clause that decided it together with the values it saw
+ */
+export interface FilterEvaluation {
+    matched: boolean;
+    explanation: string;
+}
+
+/**
+ * System properties a SQL filter can reference as `sys.<name>`, keyed by lower-case name
+ */
+const SYSTEM_PROPERTIES: Record<string, keyof ServiceBusReceivedMessage> = {
+    messageid: 'messageId',
+    correlationid: 'correlationId',
+    to: 'to',
+    replyto: 'replyTo',
+    label: 'subject',
+    subject: 'subject',
+    sessionid: 'sessionId',
+    replytosessionid: 'replyToSessionId',
+    contenttype: 'contentType',
+    partitionkey: 'partitionKey',
+    deliverycount: 'deliveryCount',
+    enqueuedtimeutc: 'enqueuedTimeUtc',
+    scheduledenqueuetimeutc: 'scheduledEnqueueTimeUtc',
+    expiresatutc: 'expiresAtUtc',
+    sequencenumber: 'sequenceNumber',
+    enqueuedsequencenumber: 'enqueuedSequenceNumber',
+    timetolive: 'timeToLive',
+    deadlettersource: 'deadLetterSource'
+};
+
+/**
+ * A value during evaluation; undefined means the property is not set on the message
+ */
+type RuntimeValue = string | number | boolean | Date | null | undefined;
+
+interface Truth {
+    value: boolean | null;
+    reason: string;
+}
+
+/**
+ * Render a syntax tree back to SQL, for use in explanations
+ */
+export function formatSqlExpression(expression: SqlExpression): string {
+    const wrap = (child: SqlExpression, parentKind: string): string =>
+        (child.kind === 'and' || child.kind === 'or') && child.kind !== parentKind
+            ? `(${formatSqlExpression(child)})`
+            : formatSqlExpression(child);
+
+    switch (expression.kind) {
+        case 'literal':
+            return formatSqlValue(expression.value);
+        case 'property':
+            return formatProperty(expression);
+        case 'parameter':
+            return `@${expression.name}`;
+        case 'function':
+            return `${expression.name}(${expression.args.map(formatSqlExpression).join(', ')})`;
+        case 'negate':
+            return `-${formatSqlExpression(expression.operand)}`;
+        case 'arithmetic': {
+            const side = (child: SqlExpression): string =>
+                child.kind === 'arithmetic' && ['+', '-'].includes(child.operator) && ['*', '/', '%'].includes(expression.operator)
+                    ? `(${formatSqlExpression(child)})`
+                    : formatSqlExpression(child);
+            return `${side(expression.left)} ${expression.operator} ${side(expression.right)}`;
+        }
+        case 'comparison':
+            return `${formatSqlExpression(expression.left)} ${expression.operator} ${formatSqlExpression(expression.right)}`;
+        case 'and':
+        case 'or':
+            return `${wrap(expression.left, expression.kind)} ${expression.kind.toUpperCase()} ${wrap(expression.right, expression.kind)}`;
+        case 'not':
+            return `NOT ${wrap(expression.operand, 'not')}`;
+        case 'in':
+            return `${formatSqlExpression(expression.operand)} ${expression.negated ? 'NOT IN' : 'IN'} (${expression.values.map(formatSqlExpression).join(', ')})`;
+        case 'like':
+            return `${formatSqlExpression(expression.operand)} ${expression.negated ? 'NOT LIKE' : 'LIKE'} ${formatSqlExpression(expression.pattern)}${expression.escape !== undefined ? ` ESCAPE ${formatSqlValue(expression.escape)}` : ''}`;
+        case 'isNull':
+            return `${formatSqlExpression(expression.operand)} IS ${expression.negated ? 'NOT NULL' : 'NULL'}`;
+        case 'exists':
+            return `EXISTS(${formatProperty(expression.property)})`;
+    }
+}
+
+export function formatSqlValue(value: unknown): string {
+    if (value === undefined) {
+        return 'not set';
+    }
+    if (value === null) {
+        return 'NULL';
+    }
+    if (typeof value === 'string') {
+        return `'${value.replace(/'/g, '\'\'')}'`;
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    return typeof value === 'boolean' ? value.toString().toUpperCase() : String(value);
+}
+
+function formatProperty(property: SqlProperty): string {
+    const name = /^[A-Za-z_][A-Za-z0-9_]*$/.test(property.name) ? property.name : `[${property.name}]`;
+    return property.scope === 'sys' ? `sys.${name}` : name;
+}
+
+/**
+ * Evaluates a parsed SQL filter against one message using SQL three-valued logic: a comparison
+ * involving a property that is not set is unknown, and an unknown result does not match.
+ */
+class SqlEvaluator {
+    constructor(
+        private readonly message: FilterableMessage,
+        private readonly parameters: Record<string, string | number | boolean>
+    ) {}
+
+    evaluate(expression: SqlExpression): FilterEvaluation {
+        const { value, reason } = this.truth(expression);
+        if (value === true) {
+            return { matched: true, explanation: `Matched on ${reason}` };
+        }
+        return {
+            matched: false,
+            explanation: value === false
+                ? `Failed on ${reason}`
+                : `Failed on ${reason}, which is unknown because a value is not set or cannot be compared`
+        };
+    }
+
+    private truth(expression: SqlExpression): Truth {
+        switch (expression.kind) {
+            case 'and': {
+                const left = this.truth(expression.left);
+                if (left.value === false) {
+                    return left;
+                }
+                const right = this.truth(expression.right);
+                if (right.value === false || left.value === null) {
+                    return right.value === false ? right : left;
+                }
+                return right.value === null ? right : { value: true, reason: this.describe(expression) };
+            }
+            case 'or': {
+                const left = this.truth(expression.left);
+                if (left.value === true) {
+                    return left;
+                }
+                const right = this.truth(expression.right);
+                if (right.value === true) {
+                    return right;
+                }
+                return {
+                    value: left.value === null || right.value === null ? null : false,
+                    reason: `${left.reason}; ${right.reason}`
+                };
+            }
+            default: {
+                const value = this.value(expression);
+                return {
+                    value: typeof value === 'boolean' ? value : null,
+                    reason: this.describe(expression)
+                };
+            }
+        }
+    }
+
+    private value(expression: SqlExpression): RuntimeValue {
+        switch (expression.kind) {
+            case 'literal':
+                return expression.value;
+            case 'property':
+                return this.lookup(expression);
+            case 'parameter': {
+                // Parameter names are usually stored with their "@" prefix
+                const value = this.parameters[`@${expression.name}`] ?? this.parameters[expression.name];
+                if (value === undefined) {
+                    throw new Error(`Parameter @${expression.name} is not defined`);
+                }
+                return value;
+            }
+            case 'function': {
+                if (expression.name === 'newid') {
+                    return randomUUID();
+                }
+                const name = this.value(expression.args[0]);
+                if (typeof name !== 'string') {
+                    return null;
+                }
+                const scoped = /^(sys|user)\.(.+)$/i.exec(name);
+                return this.lookup({
+                    kind: 'property',
+                    scope: scoped?.[1].toLowerCase() === 'sys' ? 'sys' : 'user',
+                    name: scoped ? scoped[2] : name
+                });
+            }
+            case 'negate': {
+                const operand = this.value(expression.operand);
+                return typeof operand === 'number' ? -operand : null;
+            }
+            case 'arithmetic': {
+                const left = this.value(expression.left);
+                const right = this.value(expression.right);
+                if (typeof left !== 'number' || typeof right !== 'number') {
+                    return null;
+                }
+                switch (expression.operator) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/': return right === 0 ? null : left / right;
+                    case '%': return right === 0 ? null : left % right;
+                }
+                break;
+            }
+            case 'comparison': {
+                const order = compare(this.value(expression.left), this.value(expression.right));
+                if (order === null) {
+                    return null;
+                }
+                switch (expression.operator) {
+                    case '=': return order === 0;
+                    case '<>':
+                    case '!=': return order !== 0;
+                    case '>': return order > 0;
+                    case '>=': return order >= 0;
+                    case '<': return order < 0;
+                    case '<=': return order <= 0;
+                }
+                break;
+            }
+            case 'and':
+            case 'or':
+                return this.truth(expression).value;
+            case 'not': {
+                const operand = this.truth(expression.operand).value;
+                return operand === null ? null : !operand;
+            }
+            case 'in': {
+                const operand = this.value(expression.operand);
+                if (operand === undefined || operand === null) {
+                    return null;
+                }
+                const found = expression.values.some(candidate => compare(operand, this.value(candidate)) === 0);
+                return expression.negated ? !found : found;
+            }
+            case 'like': {
+                const operand = this.value(expression.operand);
+                const pattern = this.value(expression.pattern);
+                if (typeof operand !== 'string' || typeof pattern !== 'string') {
+                    return null;
+                }
+                const matched = likeToRegExp(pattern, expression.escape).test(operand);
+                return expression.negated ? !matched : matched;
+            }
+            case 'isNull': {
+                const operand = this.value(expression.operand);
+                const isNull = operand === undefined || operand === null;
+                return expression.negated ? !isNull : isNull;
+            }
+            case 'exists':
+                return this.lookup(expression.property) !== undefined;
+        }
+        return null;
+    }
+
+    private lookup(property: SqlProperty): RuntimeValue {
+        if (property.scope === 'sys') {
+            const field = SYSTEM_PROPERTIES[property.name.toLowerCase()];
+            if (!field) {
+                throw new Error(`Unknown system property sys.${property.name}`);
+            }
+            return normalizeValue(this.message[field]);
+        }
+        const applicationProperties = (this.message.applicationProperties ?? {}) as Record<string, unknown>;
+        return property.name in applicationProperties
+            ? normalizeValue(applicationProperties[property.name])
+            : undefined;
+    }
+
+    /**
+     * The clause's SQL followed by the message values of the properties it references
+     */
+    private describe(expression: SqlExpression): string {
+        const properties = new Map<string, SqlProperty>();
+        const collect = (node: SqlExpression): void => {
+            switch (node.kind) {
+                case 'property':
+                    properties.set(formatProperty(node), node);
+                    break;
+                case 'exists':
+                    properties.set(formatProperty(node.property), node.property);
+                    break;
+                case 'function':
+                    node.args.forEach(collect);
+                    break;
+                case 'negate':
+                case 'not':
+                    collect(node.operand);
+                    break;
+                case 'arithmetic':
+                case 'comparison':
+                case 'and':
+                case 'or':
+                    collect(node.left);
+                    collect(node.right);
+                    break;
+                case 'in':
+                    collect(node.operand);
+                    node.values.forEach(collect);
+                    break;
+                case 'like':
+                    collect(node.operand);
+                    collect(node.pattern);
+                    break;
+                case 'isNull':
+                    collect(node.operand);
+                    break;
+            }
+        };
+        collect(expression);
+
+        const values = Array.from(properties.entries()).map(([label, property]) => {
+            const value = this.lookup(property);
+            return value === undefined ? `${label} not set` : `${label} = ${formatSqlValue(value)}`;
+        });
+        const text = formatSqlExpression(expression);
+        return values.length > 0 ? `${text} [${values.join(', ')}]` : text;
+    }
+}
+
+function normalizeValue(value: unknown): RuntimeValue {
+    if (value === undefined || value === null) {
+        return value;
+    }
+    if (Long.isLong(value)) {
+        return value.toNumber();
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+        return value;
+    }
+    return Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+}
+
+/**
+ * Order two values, or null when they cannot be compared. Dates compare with ISO date strings.
+ */
+function compare(left: RuntimeValue, right: RuntimeValue): number | null {
+    if (left === undefined || left === null || right === undefined || right === null) {
+        return null;
+    }
+    if (left instanceof Date || right instanceof Date) {
+        const leftTime = left instanceof Date ? left.getTime() : typeof left === 'string' ? Date.parse(left) : NaN;
+        const rightTime = right instanceof Date ? right.getTime() : typeof right === 'string' ? Date.parse(right) : NaN;
+        return isNaN(leftTime) || isNaN(rightTime) ? null : leftTime - rightTime;
+    }
+    if (typeof left !== typeof right) {
+        return null;
+    }
+    if (typeof left === 'boolean') {
+        return left === right ? 0 : 1;
+    }
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function likeToRegExp(pattern: string, escape?: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (escape !== undefined && char === escape && i + 1 < pattern.length) {
+            source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (char === '%') {
+            source += '.*';
+        } else if (char === '_') {
+            source += '.';
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Evaluate a parsed SQL filter against a message. Throws when the filter references an unknown
+ * system property or an undefined parameter.
+ */
+export function evaluateSqlFilter(
+    expression: SqlExpression,
+    message: FilterableMessage,
+    parameters: Record<string, string | number | boolean> = {}
+): FilterEvaluation {
+    return new SqlEvaluator(message, parameters).evaluate(expression);
+}
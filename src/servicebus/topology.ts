@@ -0,0 +1,745 @@
+import {
+    CorrelationRuleFilter,
+    CreateQueueOptions,
+    CreateSubscriptionOptions,
+    CreateTopicOptions,
+    QueueProperties,
+    RuleProperties,
+    SqlRuleAction,
+    SubscriptionProperties,
+    TopicProperties
+} from '@azure/service-bus';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ENTITY_STATUSES, EntityKind, ServiceBusService, isIsoDuration } from './serviceBusService';
+import { CORRELATION_FILTER_KEYS, RuleFilter, isSqlRuleFilter } from './ruleFilter';
+import { validateSqlAction, validateSqlFilter } from './sqlFilter';
+
+export const TOPOLOGY_VERSION = 1;
+
+export type TopologyFormat = 'json' | 'yaml';
+
+const QUEUE_SETTINGS = [
+    'lockDuration',
+    'maxDeliveryCount',
+    'defaultMessageTimeToLive',
+    'autoDeleteOnIdle',
+    'requiresSession',
+    'requiresDuplicateDetection',
+    'duplicateDetectionHistoryTimeWindow',
+    'enablePartitioning',
+    'enableExpress',
+    'maxSizeInMegabytes',
+    'maxMessageSizeInKilobytes',
+    'deadLetteringOnMessageExpiration',
+    'enableBatchedOperations',
+    'forwardTo',
+    'forwardDeadLetteredMessagesTo',
+    'status',
+    'userMetadata'
+] as const;
+
+const TOPIC_SETTINGS = [
+    'defaultMessageTimeToLive',
+    'autoDeleteOnIdle',
+    'requiresDuplicateDetection',
+    'duplicateDetectionHistoryTimeWindow',
+    'enablePartitioning',
+    'enableExpress',
+    'maxSizeInMegabytes',
+    'maxMessageSizeInKilobytes',
+    'supportOrdering',
+    'enableBatchedOperations',
+    'status',
+    'userMetadata'
+] as const;
+
+const SUBSCRIPTION_SETTINGS = [
+    'lockDuration',
+    'maxDeliveryCount',
+    'defaultMessageTimeToLive',
+    'autoDeleteOnIdle',
+    'requiresSession',
+    'deadLetteringOnMessageExpiration',
+    'deadLetteringOnFilterEvaluationExceptions',
+    'enableBatchedOperations',
+    'forwardTo',
+    'forwardDeadLetteredMessagesTo',
+    'status',
+    'userMetadata'
+] as const;
+
+/**
+ * Settings that point at another entity, applied after every entity has been created
+ */
+const FORWARDING_SETTINGS: readonly string[] = ['forwardTo', 'forwardDeadLetteredMessagesTo'];
+
+/**
+ * Settings that can only be chosen when an entity is created
+ */
+export const FIXED_SETTINGS: readonly string[] = ['requiresSession', 'requiresDuplicateDetection', 'enablePartitioning', 'enableExpress'];
+
+const SETTING_TYPES: Record<string, 'duration' | 'number' | 'boolean' | 'string' | 'status'> = {
+    lockDuration: 'duration',
+    defaultMessageTimeToLive: 'duration',
+    autoDeleteOnIdle: 'duration',
+    duplicateDetectionHistoryTimeWindow: 'duration',
+    maxDeliveryCount: 'number',
+    maxSizeInMegabytes: 'number',
+    maxMessageSizeInKilobytes: 'number',
+    requiresSession: 'boolean',
+    requiresDuplicateDetection: 'boolean',
+    enablePartitioning: 'boolean',
+    enableExpress: 'boolean',
+    deadLetteringOnMessageExpiration: 'boolean',
+    deadLetteringOnFilterEvaluationExceptions: 'boolean',
+    enableBatchedOperations: 'boolean',
+    supportOrdering: 'boolean',
+    forwardTo: 'string',
+    forwardDeadLetteredMessagesTo: 'string',
+    userMetadata: 'string',
+    status: 'status'
+};
+
+export interface QueueTopology extends Pick<CreateQueueOptions, typeof QUEUE_SETTINGS[number]> {
+    name: string;
+}
+
+export interface RuleTopology {
+    name: string;
+    filter: RuleFilter;
+    action?: SqlRuleAction;
+}
+
+export interface SubscriptionTopology extends Pick<CreateSubscriptionOptions, typeof SUBSCRIPTION_SETTINGS[number]> {
+    name: string;
+    rules: RuleTopology[];
+}
+
+export interface TopicTopology extends Pick<CreateTopicOptions, typeof TOPIC_SETTINGS[number]> {
+    name: string;
+    subscriptions: SubscriptionTopology[];
+}
+
+/**
+ * A namespace's queues, topics, subscriptions and rules as written to a topology file
+ */
+export interface Topology {
+    version: number;
+    /** Namespace the topology was exported from; informational only */
+    namespace?: string;
+    queues: QueueTopology[];
+    topics: TopicTopology[];
+}
+
+type ChangeTarget =
+    | { kind: 'queue'; queue: QueueTopology }
+    | { kind: 'topic'; topic: TopicTopology }
+    | { kind: 'subscription'; topicName: string; subscription: SubscriptionTopology }
+    | { kind: 'rule'; topicName: string; subscriptionName: string; rule: RuleTopology };
+
+/**
+ * One step of applying a topology: create an entity or rule, update the settings that differ,
+ * or a conflict on a setting that cannot change after creation, which is reported but not applied
+ */
+export type TopologyChange = ChangeTarget & {
+    action: 'create' | 'update' | 'conflict';
+    /** Entity path such as "orders" or "events/audit/$Default" */
+    path: string;
+    /** Human-readable description of what changes */
+    details: string[];
+    /** Changed settings to send for an update */
+    settings?: Record<string, unknown>;
+};
+
+/**
+ * Read the full topology of a namespace: queues, topics, subscriptions and rules with their settings
+ */
+export async function readTopology(serviceBusService: ServiceBusService, namespace: string): Promise<Topology> {
+    const [queues, topics] = await Promise.all([
+        serviceBusService.listQueues(namespace),
+        serviceBusService.listTopics(namespace)
+    ]);
+
+    return {
+        version: TOPOLOGY_VERSION,
+        namespace,
+        queues: queues.map(queue => toQueueTopology(queue.properties)),
+        topics: await Promise.all(topics.map(async topic => {
+            const subscriptions = await serviceBusService.listSubscriptions(namespace, topic.name);
+            return toTopicTopology(topic.properties, await Promise.all(subscriptions.map(async subscription => {
+                const rules = await serviceBusService.listRules(namespace, topic.name, subscription.name);
+                return toSubscriptionTopology(subscription.properties, rules);
+            })));
+        }))
+    };
+}
+
+function toQueueTopology(properties: QueueProperties): QueueTopology {
+    return { name: properties.name, ...pickSettings(properties, QUEUE_SETTINGS) };
+}
+
+function toTopicTopology(properties: TopicProperties, subscriptions: SubscriptionTopology[]): TopicTopology {
+    return { name: properties.name, ...pickSettings(properties, TOPIC_SETTINGS), subscriptions };
+}
+
+function toSubscriptionTopology(properties: SubscriptionProperties, rules: RuleProperties[]): SubscriptionTopology {
+    return {
+        name: properties.subscriptionName,
+        ...pickSettings(properties, SUBSCRIPTION_SETTINGS),
+        rules: rules.map(rule => {
+            const action = normalizeAction(rule.action);
+            return action
+                ? { name: rule.name, filter: normalizeFilter(rule.filter), action }
+                : { name: rule.name, filter: normalizeFilter(rule.filter) };
+        })
+    };
+}
+
+/**
+ * Copy the settings that are set, with forwarding targets reduced to entity names so the
+ * topology can be applied to another namespace
+ */
+function pickSettings(properties: object, keys: readonly string[]): Record<string, unknown> {
+    const source = properties as Record<string, unknown>;
+    const settings: Record<string, unknown> = {};
+    for (const key of keys) {
+        const value = source[key];
+        if (value === undefined || value === null || value === '') {
+            continue;
+        }
+        settings[key] = key === 'forwardTo' || key === 'forwardDeadLetteredMessagesTo'
+            ? String(value).replace(/^\w+:\/\/[^/]+\//, '')
+            : value;
+    }
+    return settings;
+}
+
+function normalizeFilter(filter: RuleFilter): RuleFilter {
+    if (isSqlRuleFilter(filter)) {
+        return filter.sqlParameters && Object.keys(filter.sqlParameters).length > 0
+            ? { sqlExpression: filter.sqlExpression, sqlParameters: filter.sqlParameters }
+            : { sqlExpression: filter.sqlExpression };
+    }
+    return Object.fromEntries(Object.entries(filter).filter(([key, value]) =>
+        value !== undefined && value !== null && value !== '' &&
+        !(key === 'applicationProperties' && Object.keys(value as object).length === 0)
+    )) as CorrelationRuleFilter;
+}
+
+function normalizeAction(action: SqlRuleAction | undefined): SqlRuleAction | undefined {
+    if (!action?.sqlExpression?.trim()) {
+        return undefined;
+    }
+    return action.sqlParameters && Object.keys(action.sqlParameters).length > 0
+        ? { sqlExpression: action.sqlExpression, sqlParameters: action.sqlParameters }
+        : { sqlExpression: action.sqlExpression };
+}
+
+export function serializeTopology(topology: Topology, format: TopologyFormat): string {
+    return format === 'yaml' ? stringifyYaml(topology) : `${JSON.stringify(topology, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate a topology file. Throws with the location of the first problem found.
+ */
+export function parseTopology(text: string, format: TopologyFormat): Topology {
+    let parsed: unknown;
+    try {
+        parsed = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`The file is not valid ${format === 'yaml' ? 'YAML' : 'JSON'}: ${errorMessage}`);
+    }
+    if (!isObject(parsed)) {
+        throw new Error('The topology must be an object with "queues" and "topics" lists');
+    }
+    checkKeys(parsed, ['version', 'namespace', 'queues', 'topics'], 'the topology');
+    if (parsed.version !== undefined && parsed.version !== TOPOLOGY_VERSION) {
+        throw new Error(`Unsupported topology version ${String(parsed.version)}; expected ${TOPOLOGY_VERSION}`);
+    }
+
+    const queues = readList(parsed, 'queues', 'the topology').map(entry => {
+        const name = readName(entry, 'queue');
+        checkSettings(entry, QUEUE_SETTINGS, 'queue', `queue "${name}"`);
+        return entry as unknown as QueueTopology;
+    });
+
+    const topics = readList(parsed, 'topics', 'the topology').map(entry => {
+        const name = readName(entry, 'topic');
+        checkSettings(entry, TOPIC_SETTINGS, 'topic', `topic "${name}"`, ['subscriptions']);
+        const subscriptions = readList(entry, 'subscriptions', `topic "${name}"`).map(subscriptionEntry => {
+            const subscriptionName = readName(subscriptionEntry, `subscription of topic "${name}"`);
+            const where = `subscription "${name}/${subscriptionName}"`;
+            checkSettings(subscriptionEntry, SUBSCRIPTION_SETTINGS, 'subscription', where, ['rules']);
+            const rules = readList(subscriptionEntry, 'rules', where).map(ruleEntry => readRule(ruleEntry, where));
+            return { ...subscriptionEntry, rules } as unknown as SubscriptionTopology;
+        });
+        return { ...entry, subscriptions } as unknown as TopicTopology;
+    });
+
+    return {
+        version: TOPOLOGY_VERSION,
+        namespace: typeof parsed.namespace === 'string' ? parsed.namespace : undefined,
+        queues,
+        topics
+    };
+}
+
+function readList(owner: Record<string, unknown>, key: string, where: string): Record<string, unknown>[] {
+    const value = owner[key];
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value) || !value.every(isObject)) {
+        throw new Error(`"${key}" of ${where} must be a list of objects`);
+    }
+    return value;
+}
+
+function readName(entry: Record<string, unknown>, what: string): string {
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+        throw new Error(`Every ${what} needs a "name"`);
+    }
+    return entry.name;
+}
+
+function checkKeys(entry: Record<string, unknown>, allowed: readonly string[], where: string): void {
+    const unknownKey = Object.keys(entry).find(key => !allowed.includes(key));
+    if (unknownKey) {
+        throw new Error(`Unknown property "${unknownKey}" in ${where}. Allowed: ${allowed.join(', ')}`);
+    }
+}
+
+function checkSettings(
+    entry: Record<string, unknown>,
+    settings: readonly string[],
+    kind: EntityKind,
+    where: string,
+    childKeys: string[] = []
+): void {
+    checkKeys(entry, ['name', ...settings, ...childKeys], where);
+    for (const key of settings) {
+        const value = entry[key];
+        if (value === undefined) {
+            continue;
+        }
+        switch (SETTING_TYPES[key]) {
+            case 'duration':
+                if (typeof value !== 'string' || !isIsoDuration(value)) {
+                    throw new Error(`"${key}" of ${where} must be an ISO 8601 duration such as PT5M`);
+                }
+                break;
+            case 'number':
+                if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+                    throw new Error(`"${key}" of ${where} must be a whole number of at least 1`);
+                }
+                break;
+            case 'boolean':
+                if (typeof value !== 'boolean') {
+                    throw new Error(`"${key}" of ${where} must be true or false`);
+                }
+                break;
+            case 'string':
+                if (typeof value !== 'string') {
+                    throw new Error(`"${key}" of ${where} must be a string`);
+                }
+                break;
+            case 'status':
+                if (typeof value !== 'string' || !(ENTITY_STATUSES[kind] as string[]).includes(value)) {
+                    throw new Error(`"${key}" of ${where} must be one of ${ENTITY_STATUSES[kind].join(', ')}`);
+                }
+                break;
+        }
+    }
+}
+
+function readRule(entry: Record<string, unknown>, where: string): RuleTopology {
+    const name = readName(entry, `rule of ${where}`);
+    const ruleWhere = `rule "${name}" of ${where}`;
+    checkKeys(entry, ['name', 'filter', 'action'], ruleWhere);
+
+    const filter = entry.filter;
+    if (!isObject(filter)) {
+        throw new Error(`${ruleWhere} needs a "filter" object`);
+    }
+    if ('sqlExpression' in filter) {
+        checkKeys(filter, ['sqlExpression', 'sqlParameters'], `the filter of ${ruleWhere}`);
+        if (typeof filter.sqlExpression !== 'string') {
+            throw new Error(`"sqlExpression" of ${ruleWhere} must be a string`);
+        }
+        const syntaxError = validateSqlFilter(filter.sqlExpression);
+        if (syntaxError) {
+            throw new Error(`Invalid SQL filter in ${ruleWhere}: ${syntaxError}`);
+        }
+    } else {
+        checkKeys(filter, CORRELATION_FILTER_KEYS, `the correlation filter of ${ruleWhere}`);
+    }
+
+    const action = entry.action;
+    if (action === undefined || action === null) {
+        return { name, filter: normalizeFilter(filter as unknown as RuleFilter) };
+    }
+    if (!isObject(action) || (action.sqlExpression !== undefined && typeof action.sqlExpression !== 'string')) {
+        throw new Error(`"action" of ${ruleWhere} must be an object with a "sqlExpression" string`);
+    }
+    if (typeof action.sqlExpression === 'string' && action.sqlExpression.trim()) {
+        const syntaxError = validateSqlAction(action.sqlExpression);
+        if (syntaxError) {
+            throw new Error(`Invalid SQL action in ${ruleWhere}: ${syntaxError}`);
+        }
+    }
+    const normalizedAction = normalizeAction(action as SqlRuleAction);
+    return normalizedAction
+        ? { name, filter: normalizeFilter(filter as unknown as RuleFilter), action: normalizedAction }
+        : { name, filter: normalizeFilter(filter as unknown as RuleFilter) };
+}
+
+/**
+ * Work out the creates and updates that make a namespace match a topology.
+ * Entities and rules that exist only in the namespace are left alone. Forwarding is planned
+ * as updates after all other changes, so it never points at an entity that does not exist yet.
+ */
+export function planTopology(desired: Topology, current: Topology): TopologyChange[] {
+    const changes: TopologyChange[] = [];
+
+    const currentQueues = new Map(current.queues.map(queue => [queue.name, queue]));
+    for (const queue of desired.queues) {
+        const existing = currentQueues.get(queue.name);
+        if (!existing) {
+            changes.push({ kind: 'queue', queue, action: 'create', path: queue.name, details: describeSettings(queue, QUEUE_SETTINGS) });
+        } else {
+            changes.push(...planSettings({ kind: 'queue', queue }, queue.name, queue, existing, QUEUE_SETTINGS));
+        }
+    }
+
+    const currentTopics = new Map(current.topics.map(topic => [topic.name, topic]));
+    for (const topic of desired.topics) {
+        const existingTopic = currentTopics.get(topic.name);
+        if (!existingTopic) {
+            changes.push({ kind: 'topic', topic, action: 'create', path: topic.name, details: describeSettings(topic, TOPIC_SETTINGS) });
+        } else {
+            changes.push(...planSettings({ kind: 'topic', topic }, topic.name, topic, existingTopic, TOPIC_SETTINGS));
+        }
+
+        const currentSubscriptions = new Map((existingTopic?.subscriptions ?? []).map(subscription => [subscription.name, subscription]));
+        for (const subscription of topic.subscriptions) {
+            const path = `${topic.name}/${subscription.name}`;
+            const target = { kind: 'subscription' as const, topicName: topic.name, subscription };
+            const existing = currentSubscriptions.get(subscription.name);
+            if (!existing) {
+                const details = describeSettings(subscription, SUBSCRIPTION_SETTINGS);
+                if (subscription.rules.length > 0) {
+                    details.push(`rules: ${subscription.rules.map(rule => rule.name).join(', ')}`);
+                }
+                changes.push({ ...target, action: 'create', path, details });
+                continue;
+            }
+
+            changes.push(...planSettings(target, path, subscription, existing, SUBSCRIPTION_SETTINGS));
+
+            const currentRules = new Map(existing.rules.map(rule => [rule.name, rule]));
+            for (const rule of subscription.rules) {
+                const existingRule = currentRules.get(rule.name);
+                const ruleTarget = { kind: 'rule' as const, topicName: topic.name, subscriptionName: subscription.name, rule };
+                const description = describeRule(rule);
+                if (!existingRule) {
+                    changes.push({ ...ruleTarget, action: 'create', path: `${path}/${rule.name}`, details: [description] });
+                } else if (description !== describeRule(existingRule)) {
+                    changes.push({
+                        ...ruleTarget,
+                        action: 'update',
+                        path: `${path}/${rule.name}`,
+                        details: [`${describeRule(existingRule)} -> ${description}`]
+                    });
+                }
+            }
+        }
+    }
+
+    return deferForwarding(changes);
+}
+
+/**
+ * Move forwarding settings out of creates and updates into updates at the end of the plan
+ */
+function deferForwarding(changes: TopologyChange[]): TopologyChange[] {
+    const entityChanges: TopologyChange[] = [];
+    const forwardingChanges: TopologyChange[] = [];
+    const isForwardingDetail = (detail: string) => FORWARDING_SETTINGS.some(key => detail.startsWith(`${key}: `));
+
+    for (const change of changes) {
+        if (change.action === 'conflict' || (change.kind !== 'queue' && change.kind !== 'subscription')) {
+            entityChanges.push(change);
+            continue;
+        }
+
+        const entity = (change.kind === 'queue' ? change.queue : change.subscription) as unknown as Record<string, unknown>;
+        const source = change.action === 'create' ? entity : change.settings ?? {};
+        const forwarding: Record<string, unknown> = {};
+        const remaining: Record<string, unknown> = { ...source };
+        for (const key of FORWARDING_SETTINGS) {
+            if (source[key] !== undefined) {
+                forwarding[key] = source[key];
+                delete remaining[key];
+            }
+        }
+        if (Object.keys(forwarding).length === 0) {
+            entityChanges.push(change);
+            continue;
+        }
+
+        if (change.action === 'create') {
+            entityChanges.push(change.kind === 'queue'
+                ? { ...change, queue: remaining as unknown as QueueTopology, details: change.details.filter(detail => !isForwardingDetail(detail)) }
+                : { ...change, subscription: remaining as unknown as SubscriptionTopology, details: change.details.filter(detail => !isForwardingDetail(detail)) });
+            forwardingChanges.push({
+                ...change,
+                action: 'update',
+                details: Object.entries(forwarding).map(([key, value]) => `${key}: ${formatSetting(undefined)} -> ${formatSetting(value)}`),
+                settings: forwarding
+            });
+        } else {
+            const otherDetails = change.details.filter(detail => !isForwardingDetail(detail));
+            if (otherDetails.length > 0) {
+                entityChanges.push({ ...change, details: otherDetails, settings: remaining });
+            }
+            forwardingChanges.push({ ...change, details: change.details.filter(isForwardingDetail), settings: forwarding });
+        }
+    }
+
+    return [...entityChanges, ...forwardingChanges];
+}
+
+function planSettings(
+    target: ChangeTarget,
+    path: string,
+    desired: object,
+    current: object,
+    keys: readonly string[]
+): TopologyChange[] {
+    const desiredSettings = desired as Record<string, unknown>;
+    const currentSettings = current as Record<string, unknown>;
+    const settings: Record<string, unknown> = {};
+    const updates: string[] = [];
+    const conflicts: string[] = [];
+
+    for (const key of keys) {
+        const value = desiredSettings[key];
+        if (value === undefined || isSameSetting(key, value, currentSettings[key])) {
+            continue;
+        }
+        const description = `${key}: ${formatSetting(currentSettings[key])} -> ${formatSetting(value)}`;
+        if (FIXED_SETTINGS.includes(key)) {
+            conflicts.push(`${description} (fixed at creation; recreate the entity to change it)`);
+        } else {
+            settings[key] = value;
+            updates.push(description);
+        }
+    }
+
+    const changes: TopologyChange[] = [];
+    if (updates.length > 0) {
+        changes.push({ ...target, action: 'update', path, details: updates, settings });
+    }
+    if (conflicts.length > 0) {
+        changes.push({ ...target, action: 'conflict', path, details: conflicts });
+    }
+    return changes;
+}
+
+/**
+ * Compare two setting values; durations are compared by length so PT60S equals PT1M
+ */
+export function isSameSetting(key: string, a: unknown, b: unknown): boolean {
+    if (SETTING_TYPES[key] === 'duration' && typeof a === 'string' && typeof b === 'string') {
+        return durationToSeconds(a) === durationToSeconds(b);
+    }
+    if (key === 'userMetadata') {
+        return (a ?? '') === (b ?? '');
+    }
+    return a === b;
+}
+
+function durationToSeconds(duration: string): number {
+    const match = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(duration.toUpperCase());
+    if (!match) {
+        return NaN;
+    }
+    const [years, months, weeks, days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+    return ((((years * 365 + months * 30 + weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60) + seconds;
+}
+
+function describeSettings(entity: object, keys: readonly string[]): string[] {
+    const settings = entity as Record<string, unknown>;
+    return keys.filter(key => settings[key] !== undefined).map(key => `${key}: ${formatSetting(settings[key])}`);
+}
+
+export function formatSetting(value: unknown): string {
+    return value === undefined ? '(not set)' : typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function describeRule(rule: RuleTopology): string {
+    const filter = isSqlRuleFilter(rule.filter)
+        ? `SQL ${rule.filter.sqlExpression}${rule.filter.sqlParameters ? ` ${JSON.stringify(rule.filter.sqlParameters)}` : ''}`
+        : `correlation ${JSON.stringify(rule.filter)}`;
+    return rule.action?.sqlExpression ? `${filter}; action ${rule.action.sqlExpression}` : filter;
+}
+
+/**
+ * An entity or rule that exists on only one side of a comparison, or whose settings differ
+ */
+export interface TopologyDifference {
+    change: 'added' | 'removed' | 'changed';
+    kind: 'queue' | 'topic' | 'subscription' | 'rule';
+    path: string;
+    /** Settings that differ, as "key: left -> right" */
+    details: string[];
+}
+
+/**
+ * Compare two topologies entry by entry: "added" entries exist only on the right,
+ * "removed" entries only on the left
+ */
+export function diffTopologies(left: Topology, right: Topology): TopologyDifference[] {
+    const differences: TopologyDifference[] = [];
+
+    diffEntries(left.queues, right.queues, (leftQueue, rightQueue, name) => {
+        compareEntry(differences, 'queue', name, leftQueue, rightQueue, QUEUE_SETTINGS);
+    });
+
+    diffEntries(left.topics, right.topics, (leftTopic, rightTopic, topicName) => {
+        compareEntry(differences, 'topic', topicName, leftTopic, rightTopic, TOPIC_SETTINGS);
+        if (!leftTopic || !rightTopic) {
+            return;
+        }
+        diffEntries(leftTopic.subscriptions, rightTopic.subscriptions, (leftSubscription, rightSubscription, subscriptionName) => {
+            const path = `${topicName}/${subscriptionName}`;
+            compareEntry(differences, 'subscription', path, leftSubscription, rightSubscription, SUBSCRIPTION_SETTINGS);
+            if (!leftSubscription || !rightSubscription) {
+                return;
+            }
+            diffEntries(leftSubscription.rules, rightSubscription.rules, (leftRule, rightRule, ruleName) => {
+                const rulePath = `${path}/${ruleName}`;
+                if (!leftRule || !rightRule) {
+                    differences.push({ change: leftRule ? 'removed' : 'added', kind: 'rule', path: rulePath, details: [] });
+                } else if (describeRule(leftRule) !== describeRule(rightRule)) {
+                    differences.push({
+                        change: 'changed',
+                        kind: 'rule',
+                        path: rulePath,
+                        details: [`${describeRule(leftRule)} -> ${describeRule(rightRule)}`]
+                    });
+                }
+            });
+        });
+    });
+
+    return differences;
+}
+
+/**
+ * Call back for every name on either side, in name order, with the entry from each side
+ */
+function diffEntries<T extends { name: string }>(
+    left: T[],
+    right: T[],
+    compare: (left: T | undefined, right: T | undefined, name: string) => void
+): void {
+    const leftByName = new Map(left.map(entry => [entry.name, entry]));
+    const rightByName = new Map(right.map(entry => [entry.name, entry]));
+    const names = [...new Set([...leftByName.keys(), ...rightByName.keys()])].sort();
+    for (const name of names) {
+        compare(leftByName.get(name), rightByName.get(name), name);
+    }
+}
+
+function compareEntry(
+    differences: TopologyDifference[],
+    kind: TopologyDifference['kind'],
+    path: string,
+    left: object | undefined,
+    right: object | undefined,
+    keys: readonly string[]
+): void {
+    if (!left || !right) {
+        differences.push({ change: left ? 'removed' : 'added', kind, path, details: [] });
+        return;
+    }
+    const leftSettings = left as Record<string, unknown>;
+    const rightSettings = right as Record<string, unknown>;
+    const details = keys
+        .filter(key => !isSameSetting(key, leftSettings[key], rightSettings[key]))
+        .map(key => `${key}: ${formatSetting(leftSettings[key])} -> ${formatSetting(rightSettings[key])}`);
+    if (details.length > 0) {
+        differences.push({ change: 'changed', kind, path, details });
+    }
+}
+
+/**
+ * Apply one planned change to a namespace; conflicts are never applied
+ */
+export async function applyTopologyChange(
+    serviceBusService: ServiceBusService,
+    namespace: string,
+    change: TopologyChange
+): Promise<void> {
+    if (change.action === 'conflict') {
+        return;
+    }
+
+    switch (change.kind) {
+        case 'queue': {
+            const { name } = change.queue;
+            if (change.action === 'create') {
+                await serviceBusService.createQueue(namespace, name, pickSettings(change.queue, QUEUE_SETTINGS));
+            } else {
+                await serviceBusService.updateQueue(namespace, name, change.settings as Partial<QueueProperties>);
+            }
+            break;
+        }
+        case 'topic': {
+            const { name } = change.topic;
+            if (change.action === 'create') {
+                await serviceBusService.createTopic(namespace, name, pickSettings(change.topic, TOPIC_SETTINGS));
+            } else {
+                await serviceBusService.updateTopic(namespace, name, change.settings as Partial<TopicProperties>);
+            }
+            break;
+        }
+        case 'subscription': {
+            const { name, rules } = change.subscription;
+            if (change.action === 'create') {
+                // The first rule replaces the catch-all $Default rule the service would otherwise add
+                const [firstRule, ...otherRules] = rules;
+                await serviceBusService.createSubscription(namespace, change.topicName, name, {
+                    ...pickSettings(change.subscription, SUBSCRIPTION_SETTINGS),
+                    defaultRuleOptions: firstRule
+                });
+                for (const rule of otherRules) {
+                    await serviceBusService.createRule(namespace, change.topicName, name, rule.name, rule.filter, rule.action);
+                }
+            } else {
+                await serviceBusService.updateSubscription(
+                    namespace,
+                    change.topicName,
+                    name,
+                    change.settings as Partial<SubscriptionProperties>
+                );
+            }
+            break;
+        }
+        case 'rule': {
+            const { topicName, subscriptionName, rule } = change;
+            if (change.action === 'create') {
+                await serviceBusService.createRule(namespace, topicName, subscriptionName, rule.name, rule.filter, rule.action);
+            } else {
+                await serviceBusService.updateRule(namespace, topicName, subscriptionName, rule.name, rule.filter, rule.action);
+            }
+            break;
+        }
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
-import { ServiceBusService } from '../servicebus/serviceBusService';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import Long from 'long';
+import { EntityKind, ServiceBusService } from '../servicebus/serviceBusService';
+import { compileSearch } from '../servicebus/messageSearch';
 import {
     ServiceBusTreeItem,
     NamespaceTreeItem,
@@ -9,9 +12,19 @@ import {
     QueueTreeItem,
     TopicTreeItem,
     SubscriptionTreeItem,
+    RulesTreeItem,
+    RuleTreeItem,
     ActiveMessagesTreeItem,
     DeadLetterQueueTreeItem,
+    TransferDeadLetterQueueTreeItem,
+    SessionsTreeItem,
+    SessionTreeItem,
+    ScheduledMessagesTreeItem,
+    ScheduledMessageTreeItem,
+    MessageFolderTreeItem,
     MessageTreeItem,
+    LoadMoreMessagesTreeItem,
+    SearchResultsTreeItem,
     AddNamespaceTreeItem,
     MessageInfo
 } from './treeItems';
@@ -21,8 +34,10 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private namespaces: Set<string> = new Set();
+    private searchResults: SearchResultsTreeItem[] = [];
     private serviceBusService: ServiceBusService;
     private context: vscode.ExtensionContext;
+    private treeView: vscode.TreeView<ServiceBusTreeItem> | undefined;
 
     constructor(context: vscode.ExtensionContext, serviceBusService: ServiceBusService) {
         this.context = context;
@@ -54,20 +69,75 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
         this.refresh();
     }
 
+    getNamespaces(): string[] {
+        return Array.from(this.namespaces);
+    }
+
+    addSearchResults(searchResults: SearchResultsTreeItem): void {
+        this.searchResults.push(searchResults);
+        this.refresh();
+    }
+
+    removeSearchResults(searchResults: SearchResultsTreeItem): void {
+        this.searchResults = this.searchResults.filter(s => s !== searchResults);
+        this.refresh();
+    }
+
     refresh(element?: ServiceBusTreeItem): void {
-        this._onDidChangeTreeData.fire(element);
+        // Search result folders are not shown in the tree; refresh the search they belong to instead
+        const search = this.searchResults.find(s => s.activeFolder === element || s.deadLetterFolder === element);
+        this._onDidChangeTreeData.fire(search ?? element);
     }
 
     getTreeItem(element: ServiceBusTreeItem): vscode.TreeItem {
         return element;
     }
 
+    setTreeView(treeView: vscode.TreeView<ServiceBusTreeItem>): void {
+        this.treeView = treeView;
+    }
+
+    /**
+     * Parents of entity folders and entities; only used to reveal entities, which are matched by id
+     */
+    getParent(element: ServiceBusTreeItem): ServiceBusTreeItem | undefined {
+        if (element instanceof QueuesFolderTreeItem || element instanceof TopicsFolderTreeItem) {
+            return new NamespaceTreeItem(element.namespace);
+        }
+        if (element instanceof QueueTreeItem) {
+            return new QueuesFolderTreeItem(element.namespace);
+        }
+        if (element instanceof TopicTreeItem) {
+            return new TopicsFolderTreeItem(element.namespace);
+        }
+        if (element instanceof SubscriptionTreeItem) {
+            return new TopicTreeItem(element.namespace, element.topicName);
+        }
+        return undefined;
+    }
+
+    /**
+     * Expand the tree down to a queue, topic or subscription and select it
+     */
+    async revealEntity(namespace: string, kind: EntityKind, name: string, topicName?: string): Promise<void> {
+        if (!this.treeView) {
+            return;
+        }
+        const item = kind === 'queue'
+            ? new QueueTreeItem(namespace, name, 0, 0)
+            : kind === 'topic'
+                ? new TopicTreeItem(namespace, name)
+                : new SubscriptionTreeItem(namespace, topicName ?? '', name, 0, 0);
+        await this.treeView.reveal(item, { select: true, focus: true });
+    }
+
     async getChildren(element?: ServiceBusTreeItem): Promise<ServiceBusTreeItem[]> {
         if (!element) {
             // Root level - show namespaces
             const items: ServiceBusTreeItem[] = Array.from(this.namespaces).map(
-                ns => new NamespaceTreeItem(ns)
+                ns => new NamespaceTreeItem(ns, this.serviceBusService.getTransport(ns))
             );
+            items.push(...this.searchResults);
             items.push(new AddNamespaceTreeItem());
             return items;
         }
@@ -86,10 +156,20 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
                     return this.getTopicChildren(element as TopicTreeItem);
                 case 'subscription':
                     return this.getSubscriptionChildren(element as SubscriptionTreeItem);
+                case 'rules':
+                    return this.getRulesChildren(element as RulesTreeItem);
                 case 'activeMessages':
                     return this.getActiveMessagesChildren(element as ActiveMessagesTreeItem);
                 case 'deadLetterQueue':
                     return this.getDeadLetterQueueChildren(element as DeadLetterQueueTreeItem);
+                case 'sessions':
+                    return this.getSessionsChildren(element as SessionsTreeItem);
+                case 'session':
+                    return this.getSessionChildren(element as SessionTreeItem);
+                case 'scheduledMessages':
+                    return this.getScheduledMessagesChildren(element as ScheduledMessagesTreeItem);
+                case 'searchResults':
+                    return this.getSearchResultsChildren(element as SearchResultsTreeItem);
                 default:
                     return [];
             }
@@ -139,7 +219,11 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
             element.namespace,
             queue.name,
             queue.activeMessageCount,
-            queue.deadLetterMessageCount
+            queue.deadLetterMessageCount,
+            queue.requiresSession,
+            queue.scheduledMessageCount,
+            queue.transferDeadLetterMessageCount,
+            queue.status
         ));
     }
 
@@ -150,13 +234,17 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
             topic.name,
             topic.subscriptionCount,
             topic.activeMessageCount,
-            topic.deadLetterMessageCount
+            topic.deadLetterMessageCount,
+            topic.scheduledMessageCount,
+            topic.status
         ));
     }
 
     private async getQueueChildren(element: QueueTreeItem): Promise<ServiceBusTreeItem[]> {
+        // Session-enabled queues are browsed session by session
+        const ActiveFolder = element.requiresSession ? SessionsTreeItem : ActiveMessagesTreeItem;
         return [
-            new ActiveMessagesTreeItem(
+            new ActiveFolder(
                 element.namespace,
                 element.queueName,
                 undefined,
@@ -169,6 +257,20 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
                 undefined,
                 undefined,
                 element.deadLetterMessageCount
+            ),
+            new TransferDeadLetterQueueTreeItem(
+                element.namespace,
+                element.queueName,
+                undefined,
+                undefined,
+                element.transferDeadLetterMessageCount
+            ),
+            new ScheduledMessagesTreeItem(
+                element.namespace,
+                element.queueName,
+                undefined,
+                element.scheduledMessageCount,
+                true
             )
         ];
     }
@@ -178,18 +280,26 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
             element.namespace,
             element.topicName
         );
-        return subscriptions.map(sub => new SubscriptionTreeItem(
+        const items: ServiceBusTreeItem[] = [
+            new ScheduledMessagesTreeItem(element.namespace, undefined, element.topicName, element.scheduledMessageCount, false)
+        ];
+        items.push(...subscriptions.map(sub => new SubscriptionTreeItem(
             element.namespace,
             element.topicName,
             sub.name,
             sub.activeMessageCount,
-            sub.deadLetterMessageCount
-        ));
+            sub.deadLetterMessageCount,
+            sub.requiresSession,
+            sub.transferDeadLetterMessageCount,
+            sub.status
+        )));
+        return items;
     }
 
     private async getSubscriptionChildren(element: SubscriptionTreeItem): Promise<ServiceBusTreeItem[]> {
+        const ActiveFolder = element.requiresSession ? SessionsTreeItem : ActiveMessagesTreeItem;
         return [
-            new ActiveMessagesTreeItem(
+            new ActiveFolder(
                 element.namespace,
                 undefined,
                 element.topicName,
@@ -202,58 +312,184 @@ export class ServiceBusTreeProvider implements vscode.TreeDataProvider<ServiceBu
                 element.topicName,
                 element.subscriptionName,
                 element.deadLetterMessageCount
-            )
+            ),
+            new TransferDeadLetterQueueTreeItem(
+                element.namespace,
+                undefined,
+                element.topicName,
+                element.subscriptionName,
+                element.transferDeadLetterMessageCount
+            ),
+            new RulesTreeItem(element.namespace, element.topicName, element.subscriptionName)
         ];
     }
 
+    private async getRulesChildren(element: RulesTreeItem): Promise<ServiceBusTreeItem[]> {
+        const rules = await this.serviceBusService.listRules(
+            element.namespace,
+            element.topicName,
+            element.subscriptionName
+        );
+        return rules.map(rule => new RuleTreeItem(element, rule));
+    }
+
     private async getActiveMessagesChildren(element: ActiveMessagesTreeItem): Promise<ServiceBusTreeItem[]> {
-        const messages = await this.serviceBusService.peekActiveMessages(
+        const page = await this.serviceBusService.peekActiveMessages(
             element.namespace,
             element.queueName,
             element.topicName,
-            element.subscriptionName
+            element.subscriptionName,
+            element.pageSize,
+            element.nextSequenceNumber
         );
 
-        return messages.map(message => {
-            const messageInfo: MessageInfo = {
-                namespace: element.namespace,
-                message,
-                queueName: element.queueName,
-                topicName: element.topicName,
-                subscriptionName: element.subscriptionName,
-                isDeadLetter: false
-            };
-            return new MessageTreeItem(messageInfo, element);
-        });
+        return this.buildMessagePage(element, page, false);
     }
 
     private async getDeadLetterQueueChildren(element: DeadLetterQueueTreeItem): Promise<ServiceBusTreeItem[]> {
         try {
-            console.log(`[ServiceBus] Peeking dead-letter messages from ${element.queueName || `${element.topicName}/${element.subscriptionName}`}`);
+            console.log(`[ServiceBus] Peeking dead-letter messages from ${element.queueName || `${element.topicName}/${element.subscriptionName}`} starting at ${element.nextSequenceNumber.toString()}`);
 
-            const messages = await this.serviceBusService.peekDeadLetterMessages(
+            const page = await this.serviceBusService.peekDeadLetterMessages(
                 element.namespace,
                 element.queueName,
                 element.topicName,
-                element.subscriptionName
+                element.subscriptionName,
+                element.pageSize,
+                element.nextSequenceNumber,
+                element.subQueue
             );
 
-            console.log(`[ServiceBus] Found ${messages.length} dead-letter messages`);
-
-            return messages.map(message => {
-                const messageInfo: MessageInfo = {
-                    namespace: element.namespace,
-                    message,
-                    queueName: element.queueName,
-                    topicName: element.topicName,
-                    subscriptionName: element.subscriptionName,
-                    isDeadLetter: true
-                };
-                return new MessageTreeItem(messageInfo, element);
-            });
+            console.log(`[ServiceBus] Found ${page.length} dead-letter messages`);
+
+            return this.buildMessagePage(element, page, true);
         } catch (error) {
             console.error(`[ServiceBus] Error peeking dead-letter messages:`, error);
             throw error;
         }
     }
+
+    private async getSessionsChildren(element: SessionsTreeItem): Promise<ServiceBusTreeItem[]> {
+        const sessionIds = await this.serviceBusService.listSessions(
+            element.namespace,
+            element.queueName,
+            element.topicName,
+            element.subscriptionName
+        );
+        return sessionIds.map(sessionId => new SessionTreeItem(
+            element.namespace,
+            element.queueName,
+            element.topicName,
+            element.subscriptionName,
+            sessionId
+        ));
+    }
+
+    private async getSessionChildren(element: SessionTreeItem): Promise<ServiceBusTreeItem[]> {
+        const page = await this.serviceBusService.peekSessionMessages(
+            element.namespace,
+            element.sessionId,
+            element.queueName,
+            element.topicName,
+            element.subscriptionName,
+            element.pageSize,
+            element.nextSequenceNumber
+        );
+
+        return this.buildMessagePage(element, page, false);
+    }
+
+    private async getScheduledMessagesChildren(element: ScheduledMessagesTreeItem): Promise<ServiceBusTreeItem[]> {
+        // Scheduled messages on a topic stay in the topic until they are enqueued, and topics cannot be peeked
+        if (!element.canList || element.messageCount === 0) {
+            return [];
+        }
+
+        // Scan a bounded page at a time; a large backlog of active messages is otherwise peeked in full
+        const fromSequenceNumber = element.loadNextPage && element.scanSequenceNumber
+            ? element.scanSequenceNumber
+            : Long.fromInt(1);
+        const { messages, nextSequenceNumber } = await this.serviceBusService.scanScheduledMessages(
+            element.namespace,
+            element.queueName ?? '',
+            fromSequenceNumber,
+            element.pageSize
+        );
+        element.loadedMessages = element.loadNextPage ? [...element.loadedMessages, ...messages] : messages;
+        element.scanSequenceNumber = nextSequenceNumber;
+        element.loadNextPage = false;
+
+        const items: ServiceBusTreeItem[] = element.loadedMessages.map(message => new ScheduledMessageTreeItem(
+            {
+                namespace: element.namespace,
+                message,
+                queueName: element.queueName,
+                isDeadLetter: false
+            },
+            element
+        ));
+        if (element.scanSequenceNumber) {
+            items.push(new LoadMoreMessagesTreeItem(element));
+        }
+        return items;
+    }
+
+    private async getSearchResultsChildren(element: SearchResultsTreeItem): Promise<ServiceBusTreeItem[]> {
+        const matches = element.pendingMatches ?? await this.serviceBusService.searchMessages(
+            element.namespace,
+            element.queueName,
+            element.topicName,
+            element.subscriptionName,
+            element.scope,
+            compileSearch(element.query)
+        );
+        element.pendingMatches = undefined;
+
+        return matches.map(({ isDeadLetter, message }) => {
+            const messageInfo: MessageInfo = {
+                namespace: element.namespace,
+                message,
+                queueName: element.queueName,
+                topicName: element.topicName,
+                subscriptionName: element.subscriptionName,
+                isDeadLetter
+            };
+            return new MessageTreeItem(messageInfo, isDeadLetter ? element.deadLetterFolder : element.activeFolder);
+        });
+    }
+
+    /**
+     * Append (or replace with) a freshly peeked page and build the folder's children,
+     * ending with a "Load next N messages" node while more messages may follow.
+     */
+    private buildMessagePage(
+        element: MessageFolderTreeItem,
+        page: ServiceBusReceivedMessage[],
+        isDeadLetter: boolean
+    ): ServiceBusTreeItem[] {
+        element.loadedMessages = element.loadNextPage
+            ? [...element.loadedMessages, ...page]
+            : page;
+        element.loadNextPage = false;
+        element.hasMoreMessages = page.length > 0 &&
+            (page.length >= element.pageSize || element.loadedMessages.length < element.messageCount);
+
+        const items: ServiceBusTreeItem[] = element.loadedMessages.map(message => {
+            const messageInfo: MessageInfo = {
+                namespace: element.namespace,
+                message,
+                queueName: element.queueName,
+                topicName: element.topicName,
+                subscriptionName: element.subscriptionName,
+                isDeadLetter,
+                deadLetterSubQueue: element.subQueue === 'active' ? undefined : element.subQueue
+            };
+            return new MessageTreeItem(messageInfo, element);
+        });
+
+        if (element.hasMoreMessages) {
+            items.push(new LoadMoreMessagesTreeItem(element));
+        }
+        return items;
+    }
 }
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
-import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { ServiceBusReceivedMessage, RuleProperties, CorrelationRuleFilter, EntityStatus } from '@azure/service-bus';
+import Long from 'long';
+import { MessageSearchQuery, describeSearch } from '../servicebus/messageSearch';
+import { MessageSearchMatch, SubQueue, DeadLetterSubQueue, TRANSPORT_LABELS, Transport } from '../servicebus/serviceBusService';
 
 export type TreeItemType =
     | 'namespace'
@@ -9,12 +12,27 @@ export type TreeItemType =
     | 'queue'
     | 'topic'
     | 'subscription'
+    | 'rules'
+    | 'rule'
     | 'activeMessages'
     | 'deadLetterQueue'
+    | 'sessions'
+    | 'session'
+    | 'scheduledMessages'
+    | 'scheduledMessage'
     | 'activeMessage'
     | 'deadLetterMessage'
+    | 'loadMoreMessages'
+    | 'searchResults'
     | 'addNamespace';
 
+/**
+ * Default number of messages peeked per page when expanding a message folder
+ */
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+/** Number of messages peeked per expansion when looking for scheduled messages */
+export const SCHEDULED_MESSAGE_SCAN_SIZE = 1000;
+
 export interface MessageInfo {
     namespace: string;
     message: ServiceBusReceivedMessage;
@@ -22,6 +40,26 @@ export interface MessageInfo {
     topicName?: string;
     subscriptionName?: string;
     isDeadLetter: boolean;
+    /** Which dead-letter queue a dead-letter message was peeked from; 'deadLetter' when not set */
+    deadLetterSubQueue?: DeadLetterSubQueue;
+}
+
+/**
+ * Badge shown next to an entity that is not fully active, colored by how much traffic it blocks
+ */
+function getStatusBadge(status: EntityStatus): { text: string; color: vscode.ThemeColor } | undefined {
+    switch (status) {
+        case 'Active':
+            return undefined;
+        case 'Disabled':
+            return { text: 'disabled', color: new vscode.ThemeColor('list.errorForeground') };
+        case 'SendDisabled':
+            return { text: 'send disabled', color: new vscode.ThemeColor('list.warningForeground') };
+        case 'ReceiveDisabled':
+            return { text: 'receive disabled', color: new vscode.ThemeColor('list.warningForeground') };
+        default:
+            return { text: status.toLowerCase(), color: new vscode.ThemeColor('list.warningForeground') };
+    }
 }
 
 export abstract class ServiceBusTreeItem extends vscode.TreeItem {
@@ -39,12 +77,16 @@ export class NamespaceTreeItem extends ServiceBusTreeItem {
     readonly itemType = 'namespace' as const;
 
     constructor(
-        public readonly namespace: string
+        public readonly namespace: string,
+        public readonly transport: Transport = 'amqp'
     ) {
         super(namespace, vscode.TreeItemCollapsibleState.Collapsed);
+        // Namespaces, entity folders and entities have stable ids so they can be revealed
+        this.id = namespace;
         this.contextValue = 'namespace';
         this.iconPath = new vscode.ThemeIcon('cloud');
-        this.tooltip = `Azure Service Bus Namespace: ${namespace}`;
+        this.description = transport === 'amqp' ? undefined : TRANSPORT_LABELS[transport];
+        this.tooltip = `Azure Service Bus Namespace: ${namespace}\nTransport: ${TRANSPORT_LABELS[transport]}`;
     }
 }
 
@@ -70,6 +112,7 @@ export class QueuesFolderTreeItem extends ServiceBusTreeItem {
         public readonly namespace: string
     ) {
         super('Queues', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${namespace}/queues`;
         this.contextValue = 'queuesFolder';
         this.iconPath = new vscode.ThemeIcon('inbox');
         this.tooltip = 'Queues';
@@ -83,6 +126,7 @@ export class TopicsFolderTreeItem extends ServiceBusTreeItem {
         public readonly namespace: string
     ) {
         super('Topics', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${namespace}/topics`;
         this.contextValue = 'topicsFolder';
         this.iconPath = new vscode.ThemeIcon('broadcast');
         this.tooltip = 'Topics';
@@ -96,12 +140,19 @@ export class QueueTreeItem extends ServiceBusTreeItem {
         public readonly namespace: string,
         public readonly queueName: string,
         public readonly activeMessageCount: number,
-        public readonly deadLetterMessageCount: number
+        public readonly deadLetterMessageCount: number,
+        public readonly requiresSession: boolean = false,
+        public readonly scheduledMessageCount: number = 0,
+        public readonly transferDeadLetterMessageCount: number = 0,
+        public readonly status: EntityStatus = 'Active'
     ) {
         super(`[${activeMessageCount}|${deadLetterMessageCount}] ${queueName}`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${namespace}/queues/${queueName}`;
         this.contextValue = 'queue';
-        this.iconPath = new vscode.ThemeIcon('mail');
-        this.tooltip = `Queue: ${queueName}\nActive Messages: ${activeMessageCount}\nDead Letter Messages: ${deadLetterMessageCount}`;
+        const badge = getStatusBadge(status);
+        this.iconPath = new vscode.ThemeIcon('mail', badge?.color);
+        this.description = [requiresSession ? 'sessions' : undefined, badge?.text].filter(Boolean).join(' · ') || undefined;
+        this.tooltip = `Queue: ${queueName}\nStatus: ${status}\nActive Messages: ${activeMessageCount}\nDead Letter Messages: ${deadLetterMessageCount}${requiresSession ? '\nSession-enabled' : ''}`;
     }
 }
 
@@ -113,16 +164,20 @@ export class TopicTreeItem extends ServiceBusTreeItem {
         public readonly topicName: string,
         public readonly subscriptionCount?: number,
         public readonly activeMessageCount?: number,
-        public readonly deadLetterMessageCount?: number
+        public readonly deadLetterMessageCount?: number,
+        public readonly scheduledMessageCount: number = 0,
+        public readonly status: EntityStatus = 'Active'
     ) {
         const messageCountDisplay = (activeMessageCount !== undefined && deadLetterMessageCount !== undefined)
             ? `[${activeMessageCount}|${deadLetterMessageCount}] `
             : '';
         super(`${messageCountDisplay}${topicName}`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${namespace}/topics/${topicName}`;
         this.contextValue = 'topic';
-        this.iconPath = new vscode.ThemeIcon('broadcast');
-        this.description = `${subscriptionCount ?? 0} subscriptions`;
-        this.tooltip = `Topic: ${topicName}\nSubscriptions: ${subscriptionCount}\nActive Messages: ${activeMessageCount ?? 0}\nDead Letter Messages: ${deadLetterMessageCount ?? 0}`;
+        const badge = getStatusBadge(status);
+        this.iconPath = new vscode.ThemeIcon('broadcast', badge?.color);
+        this.description = `${subscriptionCount ?? 0} subscriptions${badge ? ` · ${badge.text}` : ''}`;
+        this.tooltip = `Topic: ${topicName}\nStatus: ${status}\nSubscriptions: ${subscriptionCount}\nActive Messages: ${activeMessageCount ?? 0}\nDead Letter Messages: ${deadLetterMessageCount ?? 0}`;
     }
 }
 
@@ -134,34 +189,196 @@ export class SubscriptionTreeItem extends ServiceBusTreeItem {
         public readonly topicName: string,
         public readonly subscriptionName: string,
         public readonly activeMessageCount: number,
-        public readonly deadLetterMessageCount: number
+        public readonly deadLetterMessageCount: number,
+        public readonly requiresSession: boolean = false,
+        public readonly transferDeadLetterMessageCount: number = 0,
+        public readonly status: EntityStatus = 'Active'
     ) {
         super(`[${activeMessageCount}|${deadLetterMessageCount}] ${subscriptionName}`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${namespace}/topics/${topicName}/subscriptions/${subscriptionName}`;
         this.contextValue = 'subscription';
-        this.iconPath = new vscode.ThemeIcon('list-tree');
-        this.tooltip = `Subscription: ${subscriptionName}\nActive Messages: ${activeMessageCount}\nDead Letter Messages: ${deadLetterMessageCount}`;
+        const badge = getStatusBadge(status);
+        this.iconPath = new vscode.ThemeIcon('list-tree', badge?.color);
+        this.description = [requiresSession ? 'sessions' : undefined, badge?.text].filter(Boolean).join(' · ') || undefined;
+        this.tooltip = `Subscription: ${subscriptionName}\nStatus: ${status}\nActive Messages: ${activeMessageCount}\nDead Letter Messages: ${deadLetterMessageCount}${requiresSession ? '\nSession-enabled' : ''}`;
     }
 }
 
-export class ActiveMessagesTreeItem extends ServiceBusTreeItem {
-    readonly itemType = 'activeMessages' as const;
+/**
+ * Folder listing the rules that decide which of a topic's messages a subscription receives
+ */
+export class RulesTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'rules' as const;
 
     constructor(
+        public readonly namespace: string,
+        public readonly topicName: string,
+        public readonly subscriptionName: string
+    ) {
+        super('Rules', vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'rules';
+        this.iconPath = new vscode.ThemeIcon('filter');
+        this.tooltip = `Rules of ${topicName}/${subscriptionName}`;
+    }
+}
+
+export class RuleTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'rule' as const;
+
+    constructor(
+        public readonly parentElement: RulesTreeItem,
+        public readonly rule: RuleProperties
+    ) {
+        super(rule.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'rule';
+
+        const { filter, action } = rule;
+        let filterLabel: string;
+        if ('sqlExpression' in filter) {
+            this.iconPath = new vscode.ThemeIcon('symbol-operator');
+            filterLabel = filter.sqlExpression;
+        } else {
+            this.iconPath = new vscode.ThemeIcon('symbol-field');
+            filterLabel = describeCorrelationFilter(filter);
+        }
+        this.description = filterLabel;
+
+        let tooltip = `Rule: ${rule.name}\n${'sqlExpression' in filter ? 'SQL filter' : 'Correlation filter'}: ${filterLabel}`;
+        if (action?.sqlExpression) {
+            tooltip += `\nAction: ${action.sqlExpression}`;
+        }
+        this.tooltip = tooltip;
+
+        this.command = {
+            command: 'azureServiceBus.editRule',
+            title: 'Edit Rule',
+            arguments: [this]
+        };
+    }
+}
+
+function describeCorrelationFilter(filter: CorrelationRuleFilter): string {
+    const { applicationProperties, ...systemProperties } = filter;
+    const conditions = Object.entries(systemProperties)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${key} = '${value}'`);
+    for (const [key, value] of Object.entries(applicationProperties ?? {})) {
+        conditions.push(`${key} = ${typeof value === 'string' ? `'${value}'` : value instanceof Date ? value.toISOString() : value}`);
+    }
+    return conditions.length > 0 ? conditions.join(' AND ') : '(matches all messages)';
+}
+
+/**
+ * Base class for folders that page through peeked messages using the last seen sequence number as the cursor
+ */
+export abstract class MessageFolderTreeItem extends ServiceBusTreeItem {
+    abstract readonly itemType: 'activeMessages' | 'deadLetterQueue' | 'session';
+    /** Queue the folder's messages are peeked from */
+    abstract readonly subQueue: SubQueue;
+
+    /** Number of messages peeked per page */
+    pageSize = DEFAULT_MESSAGE_PAGE_SIZE;
+    /** Sequence number the first page is peeked from */
+    startSequenceNumber: Long = Long.fromInt(1);
+    /** Messages peeked so far, across all loaded pages */
+    loadedMessages: ServiceBusReceivedMessage[] = [];
+    /** Whether the last peeked page suggests there are more messages after it */
+    hasMoreMessages = false;
+    /** When set, the next expansion appends the following page instead of reloading from the start */
+    loadNextPage = false;
+
+    constructor(
+        label: string,
         public readonly namespace: string,
         public readonly queueName: string | undefined,
         public readonly topicName: string | undefined,
         public readonly subscriptionName: string | undefined,
         public readonly messageCount: number
     ) {
-        super(`[${messageCount}] Active Messages`, vscode.TreeItemCollapsibleState.Collapsed);
+        super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    }
+
+    /**
+     * Sequence number the next page should be peeked from
+     */
+    get nextSequenceNumber(): Long {
+        const lastMessage = this.loadedMessages[this.loadedMessages.length - 1];
+        if (this.loadNextPage && lastMessage?.sequenceNumber) {
+            return Long.fromValue(lastMessage.sequenceNumber).add(1);
+        }
+        return this.startSequenceNumber;
+    }
+
+    setStartSequenceNumber(sequenceNumber: Long): void {
+        this.startSequenceNumber = sequenceNumber;
+        this.loadNextPage = false;
+        this.description = sequenceNumber.equals(1) ? undefined : `from #${sequenceNumber.toString()}`;
+    }
+}
+
+export class ActiveMessagesTreeItem extends MessageFolderTreeItem {
+    readonly itemType = 'activeMessages' as const;
+    readonly subQueue = 'active' as const;
+
+    constructor(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        messageCount: number
+    ) {
+        super(`[${messageCount}] Active Messages`, namespace, queueName, topicName, subscriptionName, messageCount);
         this.contextValue = 'activeMessages';
         this.iconPath = new vscode.ThemeIcon('mail-read');
         this.tooltip = `Active Messages: ${messageCount}`;
     }
 }
 
-export class DeadLetterQueueTreeItem extends ServiceBusTreeItem {
+export class DeadLetterQueueTreeItem extends MessageFolderTreeItem {
     readonly itemType = 'deadLetterQueue' as const;
+    readonly subQueue: DeadLetterSubQueue = 'deadLetter';
+
+    constructor(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        messageCount: number
+    ) {
+        super(`[${messageCount}] Dead Letter Queue`, namespace, queueName, topicName, subscriptionName, messageCount);
+        this.contextValue = 'deadLetterQueue';
+        this.iconPath = new vscode.ThemeIcon('warning');
+        this.tooltip = `Dead Letter Messages: ${messageCount}`;
+    }
+}
+
+/**
+ * Dead-letter queue for messages that could not be auto-forwarded or sent via a transfer. It behaves
+ * like the regular dead-letter queue, reading from the transfer dead-letter sub-queue instead.
+ */
+export class TransferDeadLetterQueueTreeItem extends DeadLetterQueueTreeItem {
+    readonly subQueue = 'transferDeadLetter' as const;
+
+    constructor(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        messageCount: number
+    ) {
+        super(namespace, queueName, topicName, subscriptionName, messageCount);
+        this.label = `[${messageCount}] Transfer Dead Letter Queue`;
+        this.contextValue = 'transferDeadLetterQueue';
+        this.iconPath = new vscode.ThemeIcon('debug-disconnect');
+        this.tooltip = `Transfer Dead Letter Messages: ${messageCount}\nMessages that could not be auto-forwarded or sent via a transfer`;
+    }
+}
+
+/**
+ * Folder for the active messages of a session-enabled queue or subscription, listing its sessions
+ */
+export class SessionsTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'sessions' as const;
 
     constructor(
         public readonly namespace: string,
@@ -170,10 +387,31 @@ export class DeadLetterQueueTreeItem extends ServiceBusTreeItem {
         public readonly subscriptionName: string | undefined,
         public readonly messageCount: number
     ) {
-        super(`[${messageCount}] Dead Letter Queue`, vscode.TreeItemCollapsibleState.Collapsed);
-        this.contextValue = 'deadLetterQueue';
-        this.iconPath = new vscode.ThemeIcon('warning');
-        this.tooltip = `Dead Letter Messages: ${messageCount}`;
+        super(`[${messageCount}] Sessions`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'sessions';
+        this.iconPath = new vscode.ThemeIcon('layers');
+        this.tooltip = `Active Messages: ${messageCount}\nLists the sessions found by peeking the active messages; no session is locked`;
+    }
+}
+
+/**
+ * A single session, paging through the messages peeked from it
+ */
+export class SessionTreeItem extends MessageFolderTreeItem {
+    readonly itemType = 'session' as const;
+    readonly subQueue = 'active' as const;
+
+    constructor(
+        namespace: string,
+        queueName: string | undefined,
+        topicName: string | undefined,
+        subscriptionName: string | undefined,
+        public readonly sessionId: string
+    ) {
+        super(sessionId, namespace, queueName, topicName, subscriptionName, 0);
+        this.contextValue = 'session';
+        this.iconPath = new vscode.ThemeIcon('symbol-key');
+        this.tooltip = `Session: ${sessionId}`;
     }
 }
 
@@ -182,7 +420,7 @@ export class MessageTreeItem extends ServiceBusTreeItem {
 
     constructor(
         public readonly messageInfo: MessageInfo,
-        public readonly parentElement?: ActiveMessagesTreeItem | DeadLetterQueueTreeItem
+        public readonly parentElement?: MessageFolderTreeItem
     ) {
         const messageId = messageInfo.message.messageId?.toString() || 'Unknown';
         const label = `Message: ${messageId.substring(0, 20)}${messageId.length > 20 ? '...' : ''}`;
@@ -195,9 +433,13 @@ export class MessageTreeItem extends ServiceBusTreeItem {
             : new vscode.ThemeIcon('mail');
 
         const enqueuedTime = messageInfo.message.enqueuedTimeUtc?.toISOString() || 'Unknown';
-        this.description = enqueuedTime;
+        const isDeferred = messageInfo.message.state === 'deferred';
+        this.description = isDeferred ? `deferred · ${enqueuedTime}` : enqueuedTime;
 
         let tooltip = `Message ID: ${messageId}\nEnqueued: ${enqueuedTime}`;
+        if (isDeferred) {
+            tooltip += `\nDeferred (sequence number ${messageInfo.message.sequenceNumber?.toString() ?? 'N/A'})`;
+        }
         if (messageInfo.isDeadLetter) {
             tooltip += `\nDead Letter Reason: ${messageInfo.message.deadLetterReason || 'Unknown'}`;
             tooltip += `\nError Description: ${messageInfo.message.deadLetterErrorDescription || 'N/A'}`;
@@ -213,6 +455,126 @@ export class MessageTreeItem extends ServiceBusTreeItem {
     }
 }
 
+/**
+ * Folder listing the messages scheduled on a queue or topic
+ */
+export class ScheduledMessagesTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'scheduledMessages' as const;
+
+    /** Number of messages peeked per page while looking for scheduled ones */
+    pageSize = SCHEDULED_MESSAGE_SCAN_SIZE;
+    /** Scheduled messages found so far, across all scanned pages */
+    loadedMessages: ServiceBusReceivedMessage[] = [];
+    /** Sequence number the next page is scanned from; undefined once the whole queue has been scanned */
+    scanSequenceNumber: Long | undefined;
+    /** When set, the next expansion scans the following page instead of rescanning from the start */
+    loadNextPage = false;
+
+    constructor(
+        public readonly namespace: string,
+        public readonly queueName: string | undefined,
+        public readonly topicName: string | undefined,
+        public readonly messageCount: number,
+        /** Scheduled messages can only be listed on queues; on topics they are cancelled by sequence number */
+        public readonly canList: boolean
+    ) {
+        super(`[${messageCount}] Scheduled`, canList ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'scheduledMessages';
+        this.iconPath = new vscode.ThemeIcon('clock');
+        this.tooltip = canList
+            ? `Scheduled Messages: ${messageCount}`
+            : `Scheduled Messages: ${messageCount}\nScheduled messages on topics cannot be listed; cancel them by sequence number`;
+    }
+
+    get entityName(): string {
+        return this.queueName ?? this.topicName ?? '';
+    }
+}
+
+export class ScheduledMessageTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'scheduledMessage' as const;
+
+    constructor(
+        public readonly messageInfo: MessageInfo,
+        public readonly parentElement: ScheduledMessagesTreeItem
+    ) {
+        const messageId = messageInfo.message.messageId?.toString() || 'Unknown';
+        super(`Message: ${messageId.substring(0, 20)}${messageId.length > 20 ? '...' : ''}`, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'scheduledMessage';
+        this.iconPath = new vscode.ThemeIcon('watch');
+
+        const scheduledTime = messageInfo.message.scheduledEnqueueTimeUtc?.toISOString() || 'Unknown';
+        this.description = scheduledTime;
+        this.tooltip = `Message ID: ${messageId}\nScheduled for: ${scheduledTime}\nSequence Number: ${messageInfo.message.sequenceNumber?.toString() ?? 'N/A'}`;
+        this.command = {
+            command: 'azureServiceBus.viewMessage',
+            title: 'View Message',
+            arguments: [this]
+        };
+    }
+}
+
+export class LoadMoreMessagesTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'loadMoreMessages' as const;
+
+    constructor(
+        public readonly parentElement: MessageFolderTreeItem | ScheduledMessagesTreeItem
+    ) {
+        const isScheduled = parentElement instanceof ScheduledMessagesTreeItem;
+        super(
+            isScheduled ? `Scan next ${parentElement.pageSize} messages...` : `Load next ${parentElement.pageSize} messages...`,
+            vscode.TreeItemCollapsibleState.None
+        );
+        this.contextValue = 'loadMoreMessages';
+        this.iconPath = new vscode.ThemeIcon('fold-down');
+        this.tooltip = isScheduled
+            ? `Peek the next ${parentElement.pageSize} messages from sequence number ${parentElement.scanSequenceNumber?.toString() ?? 'N/A'} for scheduled ones`
+            : `Peek the next ${parentElement.pageSize} messages after sequence number ${parentElement.loadedMessages[parentElement.loadedMessages.length - 1]?.sequenceNumber?.toString() ?? 'N/A'}`;
+        this.command = {
+            command: 'azureServiceBus.loadMoreMessages',
+            title: 'Load More Messages',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Root-level node holding the results of a message search over one entity. Each match is shown
+ * as a regular message whose parent is a folder for the entity, so message actions work unchanged.
+ */
+export class SearchResultsTreeItem extends ServiceBusTreeItem {
+    readonly itemType = 'searchResults' as const;
+
+    /** Parent folders for active and dead-letter matches; refreshing either re-runs the search */
+    readonly activeFolder: ActiveMessagesTreeItem;
+    readonly deadLetterFolder: DeadLetterQueueTreeItem;
+    /** Matches from the initial scan, shown on first expansion instead of scanning again */
+    pendingMatches?: MessageSearchMatch[];
+
+    constructor(
+        public readonly namespace: string,
+        public readonly queueName: string | undefined,
+        public readonly topicName: string | undefined,
+        public readonly subscriptionName: string | undefined,
+        public readonly query: MessageSearchQuery,
+        public readonly scope: { active: boolean; deadLetter: boolean }
+    ) {
+        super(`Search: ${describeSearch(query)}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'searchResults';
+        this.iconPath = new vscode.ThemeIcon('search');
+
+        const entityLabel = queueName ?? `${topicName}/${subscriptionName}`;
+        const scopeLabel = scope.active && scope.deadLetter
+            ? 'active and dead-letter'
+            : scope.deadLetter ? 'dead-letter' : 'active';
+        this.description = `${entityLabel} (${scopeLabel})`;
+        this.tooltip = `Search ${scopeLabel} messages in ${entityLabel} (${namespace})\n${describeSearch(query)}`;
+
+        this.activeFolder = new ActiveMessagesTreeItem(namespace, queueName, topicName, subscriptionName, 0);
+        this.deadLetterFolder = new DeadLetterQueueTreeItem(namespace, queueName, topicName, subscriptionName, 0);
+    }
+}
+
 export class AddNamespaceTreeItem extends ServiceBusTreeItem {
     readonly itemType = 'addNamespace' as const;
 
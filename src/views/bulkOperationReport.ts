@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { BulkOperationResult } from '../servicebus/serviceBusService';
+
+/**
+ * Summarize a bulk operation and offer a per-message report
+ */
+export async function showBulkOperationReport(operation: string, results: BulkOperationResult[]): Promise<void> {
+    const succeeded = results.filter(r => r.success).length;
+    const failed = results.length - succeeded;
+    const summary = `${operation}: ${succeeded} succeeded, ${failed} failed`;
+
+    const selection = failed > 0
+        ? await vscode.window.showWarningMessage(summary, 'Show Details')
+        : await vscode.window.showInformationMessage(summary, 'Show Details');
+
+    if (selection === 'Show Details') {
+        const lines = results.map(r =>
+            `${r.success ? 'OK    ' : 'FAILED'}  #${r.sequenceNumber}  ${r.messageId ?? ''}${r.error ? `  ${r.error}` : ''}`
+        );
+        const document = await vscode.workspace.openTextDocument({
+            content: `${summary}\n\n${lines.join('\n')}\n`,
+            language: 'plaintext'
+        });
+        await vscode.window.showTextDocument(document);
+    }
+}
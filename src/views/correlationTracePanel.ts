@@ -0,0 +1,311 @@
+import * as vscode from 'vscode';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { ServiceBusService, MessageTraceMatch } from '../servicebus/serviceBusService';
+import { MessagePanel } from './messagePanel';
+
+/**
+ * Which message properties a trace compares against the traced ID
+ */
+export type TraceField = 'correlationId' | 'messageId';
+
+/**
+ * Per-match fields shown in the trace timeline
+ */
+interface TraceRow {
+    enqueuedTime: string;
+    entity: string;
+    queue: 'Active' | 'Dead-letter';
+    sequenceNumber: string;
+    messageId: string;
+    correlationId: string;
+    subject: string;
+    deadLetterReason: string;
+}
+
+interface TraceActionMessage {
+    command: 'viewMessage' | 'rescan';
+    index?: number;
+}
+
+export class CorrelationTracePanel {
+    public static currentPanel: CorrelationTracePanel | undefined;
+    private static readonly viewType = 'azureServiceBusCorrelationTrace';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private readonly _serviceBusService: ServiceBusService;
+    private _namespace: string;
+    private _id: string;
+    private _fields: TraceField[];
+    private _matches: MessageTraceMatch[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    public static async createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        namespace: string,
+        id: string,
+        fields: TraceField[]
+    ): Promise<void> {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (CorrelationTracePanel.currentPanel) {
+            const current = CorrelationTracePanel.currentPanel;
+            current._panel.reveal(column);
+            current._namespace = namespace;
+            current._id = id;
+            current._fields = fields;
+            await current._scan();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            CorrelationTracePanel.viewType,
+            'Correlation Trace',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        CorrelationTracePanel.currentPanel = new CorrelationTracePanel(panel, extensionUri, serviceBusService, namespace, id, fields);
+        await CorrelationTracePanel.currentPanel._scan();
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        namespace: string,
+        id: string,
+        fields: TraceField[]
+    ) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+        this._serviceBusService = serviceBusService;
+        this._namespace = namespace;
+        this._id = id;
+        this._fields = fields;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            (message: TraceActionMessage) => this._handleAction(message),
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        CorrelationTracePanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private get _fieldLabel(): string {
+        return this._fields.map(f => f === 'correlationId' ? 'correlation ID' : 'message ID').join(' or ');
+    }
+
+    /**
+     * Peek every queue and subscription in the namespace and render the matches as a timeline
+     */
+    private async _scan(): Promise<void> {
+        const id = this._id;
+        const fields = this._fields;
+        this._panel.title = `Trace: ${id}`;
+
+        try {
+            this._matches = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Tracing ${id} across ${this._namespace}`,
+                    cancellable: true
+                },
+                (progress, token) => this._serviceBusService.traceMessages(
+                    this._namespace,
+                    (message: ServiceBusReceivedMessage) => fields.some(field => message[field]?.toString() === id),
+                    {
+                        isCancellationRequested: () => token.isCancellationRequested,
+                        onProgress: (completed, total) => progress.report({
+                            increment: 100 / total,
+                            message: `${completed}/${total} entities`
+                        })
+                    }
+                )
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to trace messages: ${errorMessage}`);
+            this._matches = [];
+        }
+
+        this._panel.webview.html = this._getHtmlForWebview(this._matches.map(m => this._toRow(m)));
+    }
+
+    private _toRow(match: MessageTraceMatch): TraceRow {
+        const { message } = match;
+        return {
+            enqueuedTime: message.enqueuedTimeUtc?.toISOString() ?? 'N/A',
+            entity: match.queueName ?? `${match.topicName}/${match.subscriptionName}`,
+            queue: match.isDeadLetter ? 'Dead-letter' : 'Active',
+            sequenceNumber: message.sequenceNumber?.toString() ?? '',
+            messageId: message.messageId?.toString() ?? '',
+            correlationId: message.correlationId?.toString() ?? '',
+            subject: message.subject ?? '',
+            deadLetterReason: message.deadLetterReason ?? ''
+        };
+    }
+
+    private async _handleAction(action: TraceActionMessage): Promise<void> {
+        if (action.command === 'rescan') {
+            await this._scan();
+            return;
+        }
+
+        const match = action.index !== undefined ? this._matches[action.index] : undefined;
+        if (!match) {
+            return;
+        }
+        MessagePanel.createOrShow(this._extensionUri, {
+            namespace: this._namespace,
+            message: match.message,
+            queueName: match.queueName,
+            topicName: match.topicName,
+            subscriptionName: match.subscriptionName,
+            isDeadLetter: match.isDeadLetter
+        });
+    }
+
+    private _getHtmlForWebview(rows: TraceRow[]): string {
+        // Escape '<' so message content can never close the script tag
+        const data = JSON.stringify(rows).replace(/</g, '\\u003c');
+        const entityCount = new Set(rows.map(r => `${r.entity}|${r.queue}`)).size;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Correlation Trace</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 12px;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            text-align: left;
+            padding: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            word-break: break-word;
+        }
+        th {
+            background-color: var(--vscode-textBlockQuote-background);
+        }
+        tbody tr {
+            cursor: pointer;
+        }
+        tbody tr:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        .dead-letter {
+            color: var(--vscode-errorForeground);
+        }
+    </style>
+</head>
+<body>
+    <h1>Trace: ${this._escapeHtml(this._id)}</h1>
+    <div class="toolbar">
+        <span>${rows.length} message${rows.length === 1 ? '' : 's'} with this ${this._escapeHtml(this._fieldLabel)} in ${entityCount} location${entityCount === 1 ? '' : 's'} of ${this._escapeHtml(this._namespace)}. Click a message to view it.</span>
+        <button id="rescan">Rescan</button>
+    </div>
+    <table>
+        <thead>
+            <tr>
+                <th>Enqueued</th>
+                <th>Entity</th>
+                <th>Queue</th>
+                <th>Sequence #</th>
+                <th>Message ID</th>
+                <th>Correlation ID</th>
+                <th>Subject</th>
+                <th>Dead-letter Reason</th>
+            </tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const rows = ${data};
+        const columns = ['enqueuedTime', 'entity', 'queue', 'sequenceNumber', 'messageId', 'correlationId', 'subject', 'deadLetterReason'];
+
+        const tbody = document.getElementById('rows');
+        rows.forEach((row, index) => {
+            const tr = document.createElement('tr');
+            if (row.queue === 'Dead-letter') {
+                tr.className = 'dead-letter';
+            }
+            for (const column of columns) {
+                const cell = document.createElement('td');
+                cell.textContent = row[column];
+                tr.appendChild(cell);
+            }
+            tr.addEventListener('click', () => vscode.postMessage({ command: 'viewMessage', index }));
+            tbody.appendChild(tr);
+        });
+
+        document.getElementById('rescan').addEventListener('click', () => vscode.postMessage({ command: 'rescan' }));
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
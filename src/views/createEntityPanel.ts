@@ -0,0 +1,452 @@
+import * as vscode from 'vscode';
+import { CreateQueueOptions, CreateSubscriptionOptions, CreateTopicOptions } from '@azure/service-bus';
+import { EntityKind, ServiceBusService, isIsoDuration } from '../servicebus/serviceBusService';
+
+export interface CreateEntityTarget {
+    namespace: string;
+    kind: EntityKind;
+    /** Topic the subscription is created on */
+    topicName?: string;
+}
+
+/**
+ * Raw form values posted back from the create webview
+ */
+interface CreateFormData {
+    name: string;
+    lockDuration: string;
+    maxDeliveryCount: string;
+    defaultMessageTimeToLive: string;
+    requiresSession: boolean;
+    requiresDuplicateDetection: boolean;
+    duplicateDetectionHistoryTimeWindow: string;
+    enablePartitioning: boolean;
+    deadLetteringOnMessageExpiration: boolean;
+    forwardTo: string;
+    forwardDeadLetteredMessagesTo: string;
+}
+
+/**
+ * Form fields shown for each kind of entity
+ */
+const FIELDS: Record<EntityKind, (keyof CreateFormData)[]> = {
+    queue: [
+        'lockDuration', 'maxDeliveryCount', 'defaultMessageTimeToLive', 'requiresSession', 'requiresDuplicateDetection',
+        'duplicateDetectionHistoryTimeWindow', 'enablePartitioning', 'deadLetteringOnMessageExpiration', 'forwardTo',
+        'forwardDeadLetteredMessagesTo'
+    ],
+    topic: ['defaultMessageTimeToLive', 'requiresDuplicateDetection', 'duplicateDetectionHistoryTimeWindow', 'enablePartitioning'],
+    subscription: [
+        'lockDuration', 'maxDeliveryCount', 'defaultMessageTimeToLive', 'requiresSession', 'deadLetteringOnMessageExpiration',
+        'forwardTo', 'forwardDeadLetteredMessagesTo'
+    ]
+};
+
+export class CreateEntityPanel {
+    public static currentPanel: CreateEntityPanel | undefined;
+    private static readonly viewType = 'azureServiceBusCreateEntity';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _target: CreateEntityTarget;
+    private _onCreated: () => void;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        target: CreateEntityTarget,
+        onCreated: () => void
+    ): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (CreateEntityPanel.currentPanel) {
+            CreateEntityPanel.currentPanel._panel.reveal(column);
+            CreateEntityPanel.currentPanel._update(target, onCreated);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            CreateEntityPanel.viewType,
+            'Create Entity',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        CreateEntityPanel.currentPanel = new CreateEntityPanel(panel, serviceBusService, target, onCreated);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        target: CreateEntityTarget,
+        onCreated: () => void
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._target = target;
+        this._onCreated = onCreated;
+
+        this._update(target, onCreated);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message: { command: string; data: CreateFormData }) => {
+                if (message.command === 'create') {
+                    await this._create(message.data);
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        CreateEntityPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private get _kindLabel(): string {
+        return this._target.kind.charAt(0).toUpperCase() + this._target.kind.substring(1);
+    }
+
+    private _update(target: CreateEntityTarget, onCreated: () => void): void {
+        this._target = target;
+        this._onCreated = onCreated;
+        this._panel.title = target.topicName ? `New Subscription on ${target.topicName}` : `New ${this._kindLabel}`;
+        this._panel.webview.html = this._getHtmlForWebview();
+        void this._loadForwardTargets();
+    }
+
+    /**
+     * Offer the namespace's queues and topics as suggestions for the forwarding fields
+     */
+    private async _loadForwardTargets(): Promise<void> {
+        if (!FIELDS[this._target.kind].includes('forwardTo')) {
+            return;
+        }
+        try {
+            const [queues, topics] = await Promise.all([
+                this._serviceBusService.listQueues(this._target.namespace),
+                this._serviceBusService.listTopics(this._target.namespace)
+            ]);
+            this._panel.webview.postMessage({
+                command: 'forwardTargets',
+                names: [...queues.map(q => q.name), ...topics.map(t => t.name)]
+            });
+        } catch (error) {
+            // Suggestions are optional; names can still be typed in
+            console.error('[ServiceBus] Failed to list forwarding targets:', error);
+        }
+    }
+
+    private async _create(data: CreateFormData): Promise<void> {
+        const name = data.name.trim();
+        const { namespace, kind, topicName } = this._target;
+
+        let options: CreateQueueOptions & CreateTopicOptions & CreateSubscriptionOptions;
+        try {
+            this._validateName(name);
+            options = this._buildOptions(data);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, errorMessage);
+            return;
+        }
+
+        try {
+            switch (kind) {
+                case 'queue':
+                    await this._serviceBusService.createQueue(namespace, name, options);
+                    break;
+                case 'topic':
+                    await this._serviceBusService.createTopic(namespace, name, options);
+                    break;
+                case 'subscription':
+                    await this._serviceBusService.createSubscription(namespace, topicName ?? '', name, options);
+                    break;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, `Failed to create ${kind}: ${errorMessage}`);
+            return;
+        }
+
+        this._postResult(true, `${this._kindLabel} "${name}" created${topicName ? ` on ${topicName}` : ''}`);
+        this._onCreated();
+    }
+
+    private _validateName(name: string): void {
+        if (!name) {
+            throw new Error('Name cannot be empty');
+        }
+        if (this._target.kind === 'subscription') {
+            if (name.length > 50 || /[\\/?#*]/.test(name)) {
+                throw new Error('Subscription names can be up to 50 characters and cannot contain \\, /, ?, # or *');
+            }
+        } else if (name.length > 260 || !/^[A-Za-z0-9][A-Za-z0-9._\-/~]*$/.test(name) || /[./]$/.test(name)) {
+            throw new Error('Names can be up to 260 characters of letters, numbers, ".", "-", "_", "/" and "~", must start with a letter or number and cannot end with "." or "/"');
+        }
+    }
+
+    /**
+     * Convert the visible form fields to creation options; empty fields keep the service default
+     */
+    private _buildOptions(data: CreateFormData): CreateQueueOptions & CreateTopicOptions & CreateSubscriptionOptions {
+        const fields = FIELDS[this._target.kind];
+        const options: CreateQueueOptions & CreateTopicOptions & CreateSubscriptionOptions = {};
+
+        const duration = (field: 'lockDuration' | 'defaultMessageTimeToLive' | 'duplicateDetectionHistoryTimeWindow', label: string): string | undefined => {
+            const value = data[field].trim().toUpperCase();
+            if (!fields.includes(field) || !value) {
+                return undefined;
+            }
+            if (!isIsoDuration(value)) {
+                throw new Error(`${label} must be an ISO 8601 duration such as PT30S, PT5M or P14D`);
+            }
+            return value;
+        };
+
+        options.lockDuration = duration('lockDuration', 'Lock duration');
+        options.defaultMessageTimeToLive = duration('defaultMessageTimeToLive', 'Default time to live');
+
+        if (fields.includes('maxDeliveryCount') && data.maxDeliveryCount.trim()) {
+            const maxDeliveryCount = Number(data.maxDeliveryCount.trim());
+            if (!Number.isInteger(maxDeliveryCount) || maxDeliveryCount < 1) {
+                throw new Error('Max delivery count must be a whole number of at least 1');
+            }
+            options.maxDeliveryCount = maxDeliveryCount;
+        }
+
+        if (fields.includes('requiresSession')) {
+            options.requiresSession = data.requiresSession;
+        }
+        if (fields.includes('requiresDuplicateDetection')) {
+            options.requiresDuplicateDetection = data.requiresDuplicateDetection;
+            if (data.requiresDuplicateDetection) {
+                options.duplicateDetectionHistoryTimeWindow = duration('duplicateDetectionHistoryTimeWindow', 'Duplicate detection window');
+            }
+        }
+        if (fields.includes('enablePartitioning')) {
+            options.enablePartitioning = data.enablePartitioning;
+        }
+        if (fields.includes('deadLetteringOnMessageExpiration')) {
+            options.deadLetteringOnMessageExpiration = data.deadLetteringOnMessageExpiration;
+        }
+        if (fields.includes('forwardTo') && data.forwardTo.trim()) {
+            options.forwardTo = data.forwardTo.trim();
+        }
+        if (fields.includes('forwardDeadLetteredMessagesTo') && data.forwardDeadLetteredMessagesTo.trim()) {
+            options.forwardDeadLetteredMessagesTo = data.forwardDeadLetteredMessagesTo.trim();
+        }
+
+        // Leave unset durations out so the service applies its defaults
+        for (const key of Object.keys(options) as (keyof typeof options)[]) {
+            if (options[key] === undefined) {
+                delete options[key];
+            }
+        }
+        return options;
+    }
+
+    private _postResult(success: boolean, text: string): void {
+        this._panel.webview.postMessage({ command: 'createResult', success, text });
+    }
+
+    private _getHtmlForWebview(): string {
+        const { namespace, kind, topicName } = this._target;
+        const fields = FIELDS[kind];
+        const row = (field: keyof CreateFormData, html: string): string => fields.includes(field) ? html : '';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>New ${this._kindLabel}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1, h2 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .section {
+            margin-bottom: 24px;
+        }
+        .property-grid {
+            display: grid;
+            grid-template-columns: 260px 1fr;
+            gap: 8px;
+            align-items: center;
+        }
+        .property-label {
+            font-weight: bold;
+            color: var(--vscode-descriptionForeground);
+        }
+        .hint {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+        }
+        input[type="text"], input[type="number"] {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            padding: 4px 6px;
+            box-sizing: border-box;
+            width: 100%;
+        }
+        input[type="checkbox"] {
+            justify-self: start;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+        .result {
+            margin-top: 16px;
+            padding: 12px;
+            border-radius: 4px;
+            display: none;
+        }
+        .result-success {
+            display: block;
+            border: 1px solid var(--vscode-testing-iconPassed);
+        }
+        .result-error {
+            display: block;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+        }
+    </style>
+</head>
+<body>
+    <h1>New ${this._kindLabel}</h1>
+
+    <div class="section">
+        <div class="property-grid">
+            <span class="property-label">Namespace:</span>
+            <span>${this._escapeHtml(namespace)}</span>
+            ${topicName ? `<span class="property-label">Topic:</span>
+            <span>${this._escapeHtml(topicName)}</span>` : ''}
+            <label class="property-label" for="name">Name:</label>
+            <input id="name" type="text">
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Options</h2>
+        <p class="hint">Durations use ISO 8601, e.g. PT30S, PT5M or P14D. Leave a field empty to use the service default. Sessions, duplicate detection and partitioning cannot be changed after creation.</p>
+        <div class="property-grid">
+            ${row('lockDuration', `<label class="property-label" for="lockDuration">Lock Duration:</label>
+            <input id="lockDuration" type="text" placeholder="PT1M">`)}
+            ${row('maxDeliveryCount', `<label class="property-label" for="maxDeliveryCount">Max Delivery Count:</label>
+            <input id="maxDeliveryCount" type="number" min="1" placeholder="10">`)}
+            ${row('defaultMessageTimeToLive', `<label class="property-label" for="defaultMessageTimeToLive">Default Message Time to Live:</label>
+            <input id="defaultMessageTimeToLive" type="text" placeholder="Unlimited">`)}
+            ${row('requiresSession', `<label class="property-label" for="requiresSession">Enable Sessions:</label>
+            <input id="requiresSession" type="checkbox">`)}
+            ${row('requiresDuplicateDetection', `<label class="property-label" for="requiresDuplicateDetection">Enable Duplicate Detection:</label>
+            <input id="requiresDuplicateDetection" type="checkbox">`)}
+            ${row('duplicateDetectionHistoryTimeWindow', `<label class="property-label" for="duplicateDetectionHistoryTimeWindow">Duplicate Detection Window:</label>
+            <input id="duplicateDetectionHistoryTimeWindow" type="text" placeholder="PT10M">`)}
+            ${row('enablePartitioning', `<label class="property-label" for="enablePartitioning">Enable Partitioning:</label>
+            <input id="enablePartitioning" type="checkbox">`)}
+            ${row('deadLetteringOnMessageExpiration', `<label class="property-label" for="deadLetteringOnMessageExpiration">Dead-letter Expired Messages:</label>
+            <input id="deadLetteringOnMessageExpiration" type="checkbox">`)}
+            ${row('forwardTo', `<label class="property-label" for="forwardTo">Forward Messages To:</label>
+            <input id="forwardTo" type="text" list="forwardTargets" placeholder="Queue or topic name">`)}
+            ${row('forwardDeadLetteredMessagesTo', `<label class="property-label" for="forwardDeadLetteredMessagesTo">Forward Dead-lettered Messages To:</label>
+            <input id="forwardDeadLetteredMessagesTo" type="text" list="forwardTargets" placeholder="Queue or topic name">`)}
+        </div>
+        <datalist id="forwardTargets"></datalist>
+    </div>
+
+    <button id="create">Create</button>
+    <div id="result" class="result"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const textFields = ['name', 'lockDuration', 'maxDeliveryCount', 'defaultMessageTimeToLive', 'duplicateDetectionHistoryTimeWindow', 'forwardTo', 'forwardDeadLetteredMessagesTo'];
+        const checkboxFields = ['requiresSession', 'requiresDuplicateDetection', 'enablePartitioning', 'deadLetteringOnMessageExpiration'];
+        const createButton = document.getElementById('create');
+        const result = document.getElementById('result');
+
+        createButton.addEventListener('click', () => {
+            const data = {};
+            for (const field of textFields) {
+                const input = document.getElementById(field);
+                data[field] = input ? input.value : '';
+            }
+            for (const field of checkboxFields) {
+                const input = document.getElementById(field);
+                data[field] = input ? input.checked : false;
+            }
+            createButton.disabled = true;
+            result.className = 'result';
+            vscode.postMessage({ command: 'create', data });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'createResult') {
+                createButton.disabled = false;
+                result.textContent = message.text;
+                result.className = 'result ' + (message.success ? 'result-success' : 'result-error');
+            } else if (message.command === 'forwardTargets') {
+                const list = document.getElementById('forwardTargets');
+                for (const name of message.names) {
+                    const option = document.createElement('option');
+                    option.value = name;
+                    list.appendChild(option);
+                }
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
@@ -0,0 +1,476 @@
+import * as vscode from 'vscode';
+import Long from 'long';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { ServiceBusService, BulkOperationResult } from '../servicebus/serviceBusService';
+import { DeadLetterQueueTreeItem } from '../tree/treeItems';
+import { showBulkOperationReport } from './bulkOperationReport';
+import { exportMessagesToFile } from './exportMessages';
+
+/**
+ * Per-message fields the webview groups on, keyed by sequence number
+ */
+interface MessageSummary {
+    sequenceNumber: string;
+    enqueuedTime: number | null;
+    reason: string;
+    description: string;
+    source: string;
+    subject: string;
+}
+
+interface GroupActionMessage {
+    command: 'resubmit' | 'delete' | 'export' | 'rescan';
+    label?: string;
+    sequenceNumbers?: string[];
+}
+
+export class DeadLetterAnalyticsPanel {
+    public static currentPanel: DeadLetterAnalyticsPanel | undefined;
+    private static readonly viewType = 'azureServiceBusDeadLetterAnalytics';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _onDidChangeMessages: () => void;
+    private _folder: DeadLetterQueueTreeItem;
+    private _messages: ServiceBusReceivedMessage[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    public static async createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        folder: DeadLetterQueueTreeItem,
+        onDidChangeMessages: () => void
+    ): Promise<void> {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (DeadLetterAnalyticsPanel.currentPanel) {
+            DeadLetterAnalyticsPanel.currentPanel._panel.reveal(column);
+            DeadLetterAnalyticsPanel.currentPanel._folder = folder;
+            DeadLetterAnalyticsPanel.currentPanel._onDidChangeMessages = onDidChangeMessages;
+            await DeadLetterAnalyticsPanel.currentPanel._scan();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DeadLetterAnalyticsPanel.viewType,
+            'Dead Letter Analytics',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        DeadLetterAnalyticsPanel.currentPanel = new DeadLetterAnalyticsPanel(panel, serviceBusService, folder, onDidChangeMessages);
+        await DeadLetterAnalyticsPanel.currentPanel._scan();
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        folder: DeadLetterQueueTreeItem,
+        onDidChangeMessages: () => void
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._folder = folder;
+        this._onDidChangeMessages = onDidChangeMessages;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            (message: GroupActionMessage) => this._handleGroupAction(message),
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        DeadLetterAnalyticsPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private get _entityLabel(): string {
+        return this._folder.queueName ?? `${this._folder.topicName}/${this._folder.subscriptionName}`;
+    }
+
+    /**
+     * Peek the whole dead-letter queue and render the analytics
+     */
+    private async _scan(): Promise<void> {
+        const folder = this._folder;
+        this._panel.title = `DLQ Analytics: ${this._entityLabel}`;
+
+        try {
+            this._messages = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Scanning dead-letter queue of ${this._entityLabel}`,
+                    cancellable: true
+                },
+                (progress, token) => this._serviceBusService.peekAllMessages(
+                    folder.namespace,
+                    folder.subQueue,
+                    folder.queueName,
+                    folder.topicName,
+                    folder.subscriptionName,
+                    {
+                        isCancellationRequested: () => token.isCancellationRequested,
+                        onProgress: (completed) => progress.report({ message: `${completed} messages` })
+                    }
+                )
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to scan dead-letter queue: ${errorMessage}`);
+            this._messages = [];
+        }
+
+        this._panel.webview.html = this._getHtmlForWebview(this._messages.map(m => this._summarize(m)));
+    }
+
+    private _summarize(message: ServiceBusReceivedMessage): MessageSummary {
+        return {
+            sequenceNumber: message.sequenceNumber?.toString() ?? '',
+            enqueuedTime: message.enqueuedTimeUtc?.getTime() ?? null,
+            reason: message.deadLetterReason || '(none)',
+            description: message.deadLetterErrorDescription || '(none)',
+            source: message.deadLetterSource || '(none)',
+            subject: message.subject || '(none)'
+        };
+    }
+
+    private async _handleGroupAction(action: GroupActionMessage): Promise<void> {
+        if (action.command === 'rescan') {
+            await this._scan();
+            return;
+        }
+
+        const selected = new Set(action.sequenceNumbers ?? []);
+        const messages = this._messages.filter(m => selected.has(m.sequenceNumber?.toString() ?? ''));
+        if (messages.length === 0) {
+            return;
+        }
+
+        if (action.command === 'export') {
+            await exportMessagesToFile(messages, `${this._entityLabel}-dlq-${action.label ?? 'group'}`);
+            return;
+        }
+
+        const verb = action.command === 'resubmit' ? 'Resubmit' : 'Delete';
+        const confirm = await vscode.window.showWarningMessage(
+            `Are you sure you want to ${verb.toLowerCase()} ${messages.length} message${messages.length === 1 ? '' : 's'} in group "${action.label}"?${action.command === 'delete' ? ' This action cannot be undone.' : ''}`,
+            { modal: true },
+            verb
+        );
+        if (confirm !== verb) {
+            return;
+        }
+
+        const folder = this._folder;
+        const sequenceNumbers = messages.map(m => Long.fromValue(m.sequenceNumber!));
+        let results: BulkOperationResult[];
+        try {
+            results = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `${verb} messages`,
+                    cancellable: true
+                },
+                (progress, token) => {
+                    let lastCompleted = 0;
+                    const options = {
+                        isCancellationRequested: () => token.isCancellationRequested,
+                        onProgress: (completed: number, total: number) => {
+                            progress.report({ increment: ((completed - lastCompleted) / total) * 100, message: `${completed}/${total}` });
+                            lastCompleted = completed;
+                        }
+                    };
+                    return action.command === 'resubmit'
+                        ? this._serviceBusService.resubmitMessages(folder.namespace, sequenceNumbers, folder.queueName, folder.topicName, folder.subscriptionName, options, undefined, folder.subQueue)
+                        : this._serviceBusService.deleteMessages(folder.namespace, folder.subQueue, sequenceNumbers, folder.queueName, folder.topicName, folder.subscriptionName, options);
+                }
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to ${verb.toLowerCase()} messages: ${errorMessage}`);
+            return;
+        }
+
+        this._onDidChangeMessages();
+        await showBulkOperationReport(verb, results);
+        await this._scan();
+    }
+
+    private _getHtmlForWebview(summaries: MessageSummary[]): string {
+        // Escape '<' so message content can never close the script tag
+        const data = JSON.stringify(summaries).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Dead Letter Analytics</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1, h2 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .section {
+            margin-bottom: 24px;
+        }
+        .toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 12px;
+        }
+        select {
+            color: var(--vscode-dropdown-foreground);
+            background-color: var(--vscode-dropdown-background);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 4px;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            text-align: left;
+            padding: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            word-break: break-word;
+        }
+        th {
+            background-color: var(--vscode-textBlockQuote-background);
+        }
+        tbody tr {
+            cursor: pointer;
+        }
+        tbody tr:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        tbody tr.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .histogram {
+            display: flex;
+            align-items: flex-end;
+            gap: 2px;
+            height: 120px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .bar {
+            flex: 1;
+            background-color: var(--vscode-charts-red, var(--vscode-testing-iconFailed));
+            min-height: 1px;
+        }
+        .histogram-axis {
+            display: flex;
+            justify-content: space-between;
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+    </style>
+</head>
+<body>
+    <h1>Dead Letter Analytics: ${this._escapeHtml(this._entityLabel)}</h1>
+    <p>${summaries.length} dead-letter messages scanned in ${this._escapeHtml(this._folder.namespace)}</p>
+
+    <div class="section">
+        <div class="toolbar">
+            <label for="groupBy">Group by:</label>
+            <select id="groupBy">
+                <option value="reason">Dead-letter reason</option>
+                <option value="description">Error description</option>
+                <option value="source">Dead-letter source</option>
+                <option value="subject">Subject</option>
+            </select>
+            <button id="rescan">Rescan</button>
+        </div>
+        <table>
+            <thead>
+                <tr>
+                    <th>Group</th>
+                    <th>Count</th>
+                    <th>First Enqueued</th>
+                    <th>Last Enqueued</th>
+                </tr>
+            </thead>
+            <tbody id="groups"></tbody>
+        </table>
+    </div>
+
+    <div class="section">
+        <h2 id="histogramTitle">Enqueued Time Histogram</h2>
+        <div id="histogram" class="histogram"></div>
+        <div class="histogram-axis"><span id="histogramStart"></span><span id="histogramEnd"></span></div>
+    </div>
+
+    <div class="section">
+        <div class="toolbar">
+            <span id="selection">Select a group to act on it.</span>
+            <button id="resubmit" disabled>Resubmit Group</button>
+            <button id="delete" disabled>Delete Group</button>
+            <button id="export" disabled>Export Group</button>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const messages = ${data};
+        const bucketCount = 24;
+        let selectedGroup;
+        let groups = [];
+
+        function formatTime(time) {
+            return time === null || time === undefined ? 'N/A' : new Date(time).toISOString();
+        }
+
+        function buildGroups() {
+            const field = document.getElementById('groupBy').value;
+            const map = new Map();
+            for (const message of messages) {
+                const key = message[field];
+                let group = map.get(key);
+                if (!group) {
+                    group = { key, messages: [], first: null, last: null };
+                    map.set(key, group);
+                }
+                group.messages.push(message);
+                if (message.enqueuedTime !== null) {
+                    group.first = group.first === null ? message.enqueuedTime : Math.min(group.first, message.enqueuedTime);
+                    group.last = group.last === null ? message.enqueuedTime : Math.max(group.last, message.enqueuedTime);
+                }
+            }
+            groups = Array.from(map.values()).sort((a, b) => b.messages.length - a.messages.length);
+            selectedGroup = undefined;
+            renderGroups();
+            renderSelection();
+        }
+
+        function renderGroups() {
+            const tbody = document.getElementById('groups');
+            tbody.innerHTML = '';
+            for (const group of groups) {
+                const row = document.createElement('tr');
+                if (group === selectedGroup) {
+                    row.className = 'selected';
+                }
+                for (const value of [group.key, String(group.messages.length), formatTime(group.first), formatTime(group.last)]) {
+                    const cell = document.createElement('td');
+                    cell.textContent = value;
+                    row.appendChild(cell);
+                }
+                row.addEventListener('click', () => {
+                    selectedGroup = selectedGroup === group ? undefined : group;
+                    renderGroups();
+                    renderSelection();
+                });
+                tbody.appendChild(row);
+            }
+        }
+
+        function renderHistogram(subset) {
+            const histogram = document.getElementById('histogram');
+            histogram.innerHTML = '';
+            const times = subset.map(m => m.enqueuedTime).filter(t => t !== null);
+            document.getElementById('histogramStart').textContent = times.length ? formatTime(Math.min(...times)) : '';
+            document.getElementById('histogramEnd').textContent = times.length ? formatTime(Math.max(...times)) : '';
+            if (times.length === 0) {
+                return;
+            }
+            const min = Math.min(...times);
+            const span = Math.max(Math.max(...times) - min, 1);
+            const buckets = new Array(bucketCount).fill(0);
+            for (const time of times) {
+                buckets[Math.min(bucketCount - 1, Math.floor(((time - min) / span) * bucketCount))]++;
+            }
+            const peak = Math.max(...buckets);
+            buckets.forEach((count, index) => {
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.height = (count / peak * 100) + '%';
+                bar.title = count + ' messages from ' + formatTime(min + (span / bucketCount) * index);
+                histogram.appendChild(bar);
+            });
+        }
+
+        function renderSelection() {
+            const subset = selectedGroup ? selectedGroup.messages : messages;
+            document.getElementById('histogramTitle').textContent = 'Enqueued Time Histogram' + (selectedGroup ? ': ' + selectedGroup.key : '');
+            document.getElementById('selection').textContent = selectedGroup
+                ? selectedGroup.messages.length + ' messages in "' + selectedGroup.key + '"'
+                : 'Select a group to act on it.';
+            for (const id of ['resubmit', 'delete', 'export']) {
+                document.getElementById(id).disabled = !selectedGroup;
+            }
+            renderHistogram(subset);
+        }
+
+        for (const command of ['resubmit', 'delete', 'export']) {
+            document.getElementById(command).addEventListener('click', () => {
+                if (!selectedGroup) {
+                    return;
+                }
+                vscode.postMessage({
+                    command,
+                    label: selectedGroup.key,
+                    sequenceNumbers: selectedGroup.messages.map(m => m.sequenceNumber)
+                });
+            });
+        }
+        document.getElementById('rescan').addEventListener('click', () => vscode.postMessage({ command: 'rescan' }));
+        document.getElementById('groupBy').addEventListener('change', buildGroups);
+
+        buildGroups();
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
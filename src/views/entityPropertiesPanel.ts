@@ -0,0 +1,527 @@
+import * as vscode from 'vscode';
+import {
+    ENTITY_STATUSES,
+    EntityDetails,
+    EntityKind,
+    ServiceBusService,
+    isIsoDuration
+} from '../servicebus/serviceBusService';
+
+export interface EntityPropertiesTarget {
+    namespace: string;
+    kind: EntityKind;
+    /** Queue, topic or subscription name */
+    name: string;
+    /** Topic a subscription belongs to */
+    topicName?: string;
+}
+
+type FieldType = 'duration' | 'number' | 'boolean' | 'text' | 'status';
+
+interface EditableField {
+    key: string;
+    label: string;
+    type: FieldType;
+}
+
+/**
+ * Properties the update APIs can change; everything else is fixed when the entity is created
+ */
+const EDITABLE_FIELDS: Record<EntityKind, EditableField[]> = {
+    queue: [
+        { key: 'status', label: 'Status', type: 'status' },
+        { key: 'lockDuration', label: 'Lock Duration', type: 'duration' },
+        { key: 'maxDeliveryCount', label: 'Max Delivery Count', type: 'number' },
+        { key: 'defaultMessageTimeToLive', label: 'Default Message Time to Live', type: 'duration' },
+        { key: 'autoDeleteOnIdle', label: 'Auto-delete on Idle', type: 'duration' },
+        { key: 'duplicateDetectionHistoryTimeWindow', label: 'Duplicate Detection Window', type: 'duration' },
+        { key: 'maxSizeInMegabytes', label: 'Max Size (MB)', type: 'number' },
+        { key: 'maxMessageSizeInKilobytes', label: 'Max Message Size (KB)', type: 'number' },
+        { key: 'deadLetteringOnMessageExpiration', label: 'Dead-letter Expired Messages', type: 'boolean' },
+        { key: 'enableBatchedOperations', label: 'Batched Operations', type: 'boolean' },
+        { key: 'forwardTo', label: 'Forward Messages To', type: 'text' },
+        { key: 'forwardDeadLetteredMessagesTo', label: 'Forward Dead-lettered Messages To', type: 'text' },
+        { key: 'userMetadata', label: 'User Metadata', type: 'text' }
+    ],
+    topic: [
+        { key: 'status', label: 'Status', type: 'status' },
+        { key: 'defaultMessageTimeToLive', label: 'Default Message Time to Live', type: 'duration' },
+        { key: 'autoDeleteOnIdle', label: 'Auto-delete on Idle', type: 'duration' },
+        { key: 'duplicateDetectionHistoryTimeWindow', label: 'Duplicate Detection Window', type: 'duration' },
+        { key: 'maxSizeInMegabytes', label: 'Max Size (MB)', type: 'number' },
+        { key: 'maxMessageSizeInKilobytes', label: 'Max Message Size (KB)', type: 'number' },
+        { key: 'supportOrdering', label: 'Support Ordering', type: 'boolean' },
+        { key: 'enableBatchedOperations', label: 'Batched Operations', type: 'boolean' },
+        { key: 'userMetadata', label: 'User Metadata', type: 'text' }
+    ],
+    subscription: [
+        { key: 'status', label: 'Status', type: 'status' },
+        { key: 'lockDuration', label: 'Lock Duration', type: 'duration' },
+        { key: 'maxDeliveryCount', label: 'Max Delivery Count', type: 'number' },
+        { key: 'defaultMessageTimeToLive', label: 'Default Message Time to Live', type: 'duration' },
+        { key: 'autoDeleteOnIdle', label: 'Auto-delete on Idle', type: 'duration' },
+        { key: 'deadLetteringOnMessageExpiration', label: 'Dead-letter Expired Messages', type: 'boolean' },
+        { key: 'deadLetteringOnFilterEvaluationExceptions', label: 'Dead-letter on Filter Exceptions', type: 'boolean' },
+        { key: 'enableBatchedOperations', label: 'Batched Operations', type: 'boolean' },
+        { key: 'forwardTo', label: 'Forward Messages To', type: 'text' },
+        { key: 'forwardDeadLetteredMessagesTo', label: 'Forward Dead-lettered Messages To', type: 'text' },
+        { key: 'userMetadata', label: 'User Metadata', type: 'text' }
+    ]
+};
+
+type PropertyBag = Record<string, unknown>;
+
+export class EntityPropertiesPanel {
+    public static currentPanel: EntityPropertiesPanel | undefined;
+    private static readonly viewType = 'azureServiceBusEntityProperties';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _target: EntityPropertiesTarget;
+    private _onSaved: () => void;
+    private _properties: PropertyBag = {};
+    private _disposables: vscode.Disposable[] = [];
+
+    public static async createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        target: EntityPropertiesTarget,
+        onSaved: () => void
+    ): Promise<void> {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (EntityPropertiesPanel.currentPanel) {
+            const current = EntityPropertiesPanel.currentPanel;
+            current._panel.reveal(column);
+            current._target = target;
+            current._onSaved = onSaved;
+            await current._load();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            EntityPropertiesPanel.viewType,
+            'Properties',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        EntityPropertiesPanel.currentPanel = new EntityPropertiesPanel(panel, serviceBusService, target, onSaved);
+        await EntityPropertiesPanel.currentPanel._load();
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        target: EntityPropertiesTarget,
+        onSaved: () => void
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._target = target;
+        this._onSaved = onSaved;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message: { command: string; values?: Record<string, string | boolean> }) => {
+                if (message.command === 'save' && message.values) {
+                    await this._save(message.values);
+                } else if (message.command === 'reload') {
+                    await this._load();
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        EntityPropertiesPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private get _entityLabel(): string {
+        return this._target.topicName ? `${this._target.topicName}/${this._target.name}` : this._target.name;
+    }
+
+    /**
+     * Fetch the entity's properties and runtime properties and render them
+     */
+    private async _load(result?: { success: boolean; text: string }): Promise<void> {
+        const { namespace, kind, name, topicName } = this._target;
+        this._panel.title = `Properties: ${this._entityLabel}`;
+
+        let details: EntityDetails<object, object>;
+        try {
+            switch (kind) {
+                case 'queue':
+                    details = await this._serviceBusService.getQueueDetails(namespace, name);
+                    break;
+                case 'topic':
+                    details = await this._serviceBusService.getTopicDetails(namespace, name);
+                    break;
+                case 'subscription':
+                    details = await this._serviceBusService.getSubscriptionDetails(namespace, topicName ?? '', name);
+                    break;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._properties = {};
+            this._panel.webview.html = this._getHtmlForWebview(undefined, `Failed to load properties: ${errorMessage}`);
+            return;
+        }
+
+        this._properties = details.properties as PropertyBag;
+        this._panel.webview.html = this._getHtmlForWebview(details as EntityDetails<PropertyBag, PropertyBag>, undefined, result);
+    }
+
+    private async _save(values: Record<string, string | boolean>): Promise<void> {
+        let changes: PropertyBag;
+        try {
+            changes = this._collectChanges(values);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, errorMessage);
+            return;
+        }
+        if (Object.keys(changes).length === 0) {
+            this._postResult(true, 'No changes to save');
+            return;
+        }
+
+        const { namespace, kind, name, topicName } = this._target;
+        try {
+            switch (kind) {
+                case 'queue':
+                    await this._serviceBusService.updateQueue(namespace, name, changes);
+                    break;
+                case 'topic':
+                    await this._serviceBusService.updateTopic(namespace, name, changes);
+                    break;
+                case 'subscription':
+                    await this._serviceBusService.updateSubscription(namespace, topicName ?? '', name, changes);
+                    break;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, `Failed to update ${kind}: ${errorMessage}`);
+            return;
+        }
+
+        this._onSaved();
+        await this._load({ success: true, text: `Updated ${Object.keys(changes).join(', ')}` });
+    }
+
+    /**
+     * Convert the form values to typed properties and keep only those that differ from the loaded ones
+     */
+    private _collectChanges(values: Record<string, string | boolean>): PropertyBag {
+        const changes: PropertyBag = {};
+
+        for (const field of EDITABLE_FIELDS[this._target.kind]) {
+            const raw = values[field.key];
+            const current = this._properties[field.key];
+            if (raw === undefined) {
+                continue;
+            }
+
+            let value: unknown;
+            switch (field.type) {
+                case 'boolean':
+                    value = raw === true;
+                    break;
+                case 'number': {
+                    const text = String(raw).trim();
+                    if (!text && current === undefined) {
+                        continue;
+                    }
+                    value = Number(text);
+                    if (!text || !Number.isInteger(value) || (value as number) < 1) {
+                        throw new Error(`${field.label} must be a whole number of at least 1`);
+                    }
+                    break;
+                }
+                case 'duration':
+                    value = String(raw).trim().toUpperCase();
+                    if (!isIsoDuration(value as string)) {
+                        throw new Error(`${field.label} must be an ISO 8601 duration such as PT30S, PT5M or P14D`);
+                    }
+                    break;
+                case 'status':
+                    value = raw;
+                    break;
+                case 'text':
+                    // An empty forwarding target turns forwarding off
+                    value = String(raw).trim() || (field.key.startsWith('forward') ? undefined : '');
+                    break;
+            }
+
+            const unchanged = field.type === 'text' ? (value ?? '') === (current ?? '') : value === current;
+            if (!unchanged) {
+                changes[field.key] = value;
+            }
+        }
+
+        return changes;
+    }
+
+    private _postResult(success: boolean, text: string): void {
+        this._panel.webview.postMessage({ command: 'saveResult', success, text });
+    }
+
+    private _formatValue(value: unknown): string {
+        if (value === undefined || value === null || value === '') {
+            return 'N/A';
+        }
+        if (value instanceof Date) {
+            return value.toISOString();
+        }
+        if (Array.isArray(value)) {
+            return value.length === 0 ? 'None' : value.map(v => (v as { keyName?: string }).keyName ?? JSON.stringify(v)).join(', ');
+        }
+        if (typeof value === 'object') {
+            return JSON.stringify(value);
+        }
+        return String(value);
+    }
+
+    /**
+     * Turn a property name such as "maxSizeInMegabytes" into "Max Size In Megabytes"
+     */
+    private _labelFor(key: string): string {
+        const words = key.replace(/([a-z])([A-Z])/g, '$1 $2');
+        return words.charAt(0).toUpperCase() + words.substring(1);
+    }
+
+    private _getEditorHtml(field: EditableField, value: unknown): string {
+        const id = this._escapeHtml(field.key);
+        switch (field.type) {
+            case 'boolean':
+                return `<input id="${id}" data-field="${id}" type="checkbox"${value === true ? ' checked' : ''}>`;
+            case 'status': {
+                // Transitional statuses such as Creating are shown but cannot be chosen
+                const statuses: string[] = [...ENTITY_STATUSES[this._target.kind]];
+                if (typeof value === 'string' && !statuses.includes(value)) {
+                    statuses.push(value);
+                }
+                return `<select id="${id}" data-field="${id}">${statuses.map(status =>
+                    `<option value="${this._escapeHtml(status)}"${status === value ? ' selected' : ''}>${this._escapeHtml(status)}</option>`
+                ).join('')}</select>`;
+            }
+            case 'number':
+                return `<input id="${id}" data-field="${id}" type="number" min="1" value="${value === undefined ? '' : this._escapeHtml(String(value))}">`;
+            default:
+                return `<input id="${id}" data-field="${id}" type="text" value="${this._escapeHtml(value === undefined || value === null ? '' : String(value))}">`;
+        }
+    }
+
+    private _getHtmlForWebview(
+        details: EntityDetails<PropertyBag, PropertyBag> | undefined,
+        loadError?: string,
+        result?: { success: boolean; text: string }
+    ): string {
+        const { namespace, kind } = this._target;
+        const kindLabel = kind.charAt(0).toUpperCase() + kind.substring(1);
+        const fields = EDITABLE_FIELDS[kind];
+        // Premium-only properties are not returned for standard namespaces
+        const editable = fields.filter(f => !details || f.key in details.properties);
+        const editableKeys = new Set(fields.map(f => f.key));
+
+        const row = (label: string, valueHtml: string): string =>
+            `<span class="property-label">${this._escapeHtml(label)}:</span>\n            <span>${valueHtml}</span>`;
+
+        const readOnlyRows = details
+            ? Object.entries(details.properties)
+                .filter(([key]) => !editableKeys.has(key) && !key.startsWith('_'))
+                .map(([key, value]) => row(this._labelFor(key), this._escapeHtml(this._formatValue(value))))
+                .join('\n            ')
+            : '';
+        const runtimeRows = details
+            ? Object.entries(details.runtimeProperties)
+                .filter(([key]) => !key.startsWith('_') && !['name', 'topicName', 'subscriptionName'].includes(key))
+                .map(([key, value]) => {
+                    const label = key === 'sizeInBytes' ? 'Size' : this._labelFor(key);
+                    const text = key === 'sizeInBytes' && typeof value === 'number'
+                        ? `${value.toLocaleString()} bytes`
+                        : this._formatValue(value);
+                    return row(label, this._escapeHtml(text));
+                })
+                .join('\n            ')
+            : '';
+        const editableRows = details
+            ? editable.map(field =>
+                `<label class="property-label" for="${this._escapeHtml(field.key)}">${this._escapeHtml(field.label)}:</label>
+            ${this._getEditorHtml(field, details.properties[field.key])}`
+            ).join('\n            ')
+            : '';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Properties</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1, h2 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .section {
+            margin-bottom: 24px;
+        }
+        .property-grid {
+            display: grid;
+            grid-template-columns: 260px 1fr;
+            gap: 8px;
+            align-items: center;
+        }
+        .property-label {
+            font-weight: bold;
+            color: var(--vscode-descriptionForeground);
+        }
+        .hint {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+        }
+        input[type="text"], input[type="number"], select {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            padding: 4px 6px;
+            box-sizing: border-box;
+            width: 100%;
+        }
+        input[type="checkbox"] {
+            justify-self: start;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+            margin-right: 8px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+        .result {
+            margin-top: 16px;
+            padding: 12px;
+            border-radius: 4px;
+            display: none;
+        }
+        .result-success {
+            display: block;
+            border: 1px solid var(--vscode-testing-iconPassed);
+        }
+        .result-error {
+            display: block;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+        }
+    </style>
+</head>
+<body>
+    <h1>${kindLabel}: ${this._escapeHtml(this._entityLabel)}</h1>
+    <p class="hint">Namespace: ${this._escapeHtml(namespace)}</p>
+    ${loadError ? `<div class="result result-error">${this._escapeHtml(loadError)}</div>` : `
+    <div class="section">
+        <h2>Runtime</h2>
+        <div class="property-grid">
+            ${runtimeRows}
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Settings</h2>
+        <p class="hint">Durations use ISO 8601, e.g. PT30S, PT5M or P14D. Clear a forwarding field to stop forwarding.</p>
+        <div class="property-grid">
+            ${editableRows}
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Fixed at Creation</h2>
+        <div class="property-grid">
+            ${readOnlyRows}
+        </div>
+    </div>
+
+    <button id="save">Save</button>`}
+    <button id="reload">Reload</button>
+    <div id="result" class="result${result ? (result.success ? ' result-success' : ' result-error') : ''}">${result ? this._escapeHtml(result.text) : ''}</div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const saveButton = document.getElementById('save');
+        const result = document.getElementById('result');
+
+        if (saveButton) {
+            saveButton.addEventListener('click', () => {
+                const values = {};
+                for (const input of document.querySelectorAll('[data-field]')) {
+                    values[input.dataset.field] = input.type === 'checkbox' ? input.checked : input.value;
+                }
+                saveButton.disabled = true;
+                result.className = 'result';
+                vscode.postMessage({ command: 'save', values });
+            });
+        }
+
+        document.getElementById('reload').addEventListener('click', () => {
+            vscode.postMessage({ command: 'reload' });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'saveResult') {
+                saveButton.disabled = false;
+                result.textContent = message.text;
+                result.className = 'result ' + (message.success ? 'result-success' : 'result-error');
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+import { toCsv, toJsonLines } from '../servicebus/messageSerializer';
+
+/**
+ * Ask for a format and a file in the workspace, then write the messages to it
+ */
+export async function exportMessagesToFile(messages: ServiceBusReceivedMessage[], baseName: string): Promise<void> {
+    const format = await vscode.window.showQuickPick(
+        [
+            { label: 'JSON Lines', description: 'Full fidelity: body, system and application properties', extension: 'jsonl' },
+            { label: 'CSV', description: 'Flattened summary, one row per message', extension: 'csv' }
+        ],
+        { placeHolder: `Export ${messages.length} messages as...` }
+    );
+    if (!format) {
+        return;
+    }
+
+    const fileName = baseName.replace(/[^\w.-]+/g, '_').substring(0, 120);
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `${fileName}.${format.extension}`) : undefined,
+        filters: { [format.label]: [format.extension] }
+    });
+    if (!uri) {
+        return;
+    }
+
+    const content = format.extension === 'csv' ? toCsv(messages) : toJsonLines(messages);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    vscode.window.showInformationMessage(`Exported ${messages.length} messages to ${vscode.workspace.asRelativePath(uri)}`);
+}
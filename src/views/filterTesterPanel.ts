@@ -0,0 +1,504 @@
+import * as vscode from 'vscode';
+import { CorrelationRuleFilter } from '@azure/service-bus';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+import { FilterableMessage } from '../servicebus/sqlFilter';
+import { RuleFilter, compileRuleFilter, isSqlRuleFilter } from '../servicebus/ruleFilter';
+
+export interface FilterTestTarget {
+    namespace: string;
+    /** Filter to start from, e.g. taken from an existing rule */
+    filter?: RuleFilter;
+    /** Where the filter came from, shown in the panel title */
+    filterLabel?: string;
+    /** Subscription whose messages are peeked by default */
+    topicName?: string;
+    subscriptionName?: string;
+}
+
+/**
+ * A queue or subscription messages can be peeked from for testing
+ */
+interface MessageSource {
+    label: string;
+    queueName?: string;
+    topicName?: string;
+    subscriptionName?: string;
+}
+
+/**
+ * Raw form values posted back from the tester webview
+ */
+interface TestFormData {
+    filterType: 'sql' | 'correlation';
+    filterText: string;
+    parametersText: string;
+    source: 'entity' | 'sample';
+    sourceIndex: string;
+    count: string;
+    sampleText: string;
+}
+
+interface TestResultRow {
+    sequenceNumber: string;
+    messageId: string;
+    subject: string;
+    matched: boolean;
+    explanation: string;
+}
+
+const SAMPLE_MESSAGE = {
+    messageId: 'sample-1',
+    correlationId: 'order-42',
+    subject: 'OrderCreated',
+    contentType: 'application/json',
+    applicationProperties: { region: 'eu', quantity: 12 },
+    body: { orderId: 42 }
+};
+
+export class FilterTesterPanel {
+    public static currentPanel: FilterTesterPanel | undefined;
+    private static readonly viewType = 'azureServiceBusFilterTester';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _target: FilterTestTarget;
+    private _sources: MessageSource[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        target: FilterTestTarget
+    ): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (FilterTesterPanel.currentPanel) {
+            FilterTesterPanel.currentPanel._panel.reveal(column);
+            FilterTesterPanel.currentPanel._update(target);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            FilterTesterPanel.viewType,
+            'Test Filter',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        FilterTesterPanel.currentPanel = new FilterTesterPanel(panel, serviceBusService, target);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        target: FilterTestTarget
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._target = target;
+
+        this._update(target);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message: { command: string; data: TestFormData }) => {
+                if (message.command === 'test') {
+                    await this._test(message.data);
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        FilterTesterPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private _update(target: FilterTestTarget): void {
+        this._target = target;
+        this._sources = [];
+        this._panel.title = target.filterLabel ? `Test Filter: ${target.filterLabel}` : 'Test Filter';
+        this._panel.webview.html = this._getHtmlForWebview();
+        void this._loadSources();
+    }
+
+    /**
+     * List the queues and subscriptions whose messages can be peeked
+     */
+    private async _loadSources(): Promise<void> {
+        const { namespace } = this._target;
+        try {
+            const [queues, topics] = await Promise.all([
+                this._serviceBusService.listQueues(namespace),
+                this._serviceBusService.listTopics(namespace)
+            ]);
+            const subscriptions = (await Promise.all(
+                topics.map(topic => this._serviceBusService.listSubscriptions(namespace, topic.name))
+            )).flat();
+
+            this._sources = [
+                ...subscriptions.map(s => ({
+                    label: `${s.topicName}/${s.name} (${s.activeMessageCount} active)`,
+                    topicName: s.topicName,
+                    subscriptionName: s.name
+                })),
+                ...queues.map(q => ({
+                    label: `${q.name} (${q.activeMessageCount} active)`,
+                    queueName: q.name
+                }))
+            ];
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResults({ error: `Failed to list queues and subscriptions: ${errorMessage}` });
+            return;
+        }
+
+        const selected = this._sources.findIndex(s =>
+            s.topicName === this._target.topicName && s.subscriptionName === this._target.subscriptionName);
+        this._panel.webview.postMessage({
+            command: 'sources',
+            labels: this._sources.map(s => s.label),
+            selected: Math.max(selected, 0)
+        });
+    }
+
+    private async _test(data: TestFormData): Promise<void> {
+        let test: (message: FilterableMessage) => { matched: boolean; explanation: string };
+        let messages: FilterableMessage[];
+        try {
+            test = compileRuleFilter(this._buildFilter(data));
+            messages = data.source === 'sample'
+                ? this._parseSample(data.sampleText)
+                : await this._peek(data);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResults({ error: errorMessage });
+            return;
+        }
+
+        const rows: TestResultRow[] = messages.map(message => ({
+            sequenceNumber: message.sequenceNumber?.toString() ?? '',
+            messageId: message.messageId?.toString() ?? '',
+            subject: message.subject ?? '',
+            ...test(message)
+        }));
+        this._postResults({ rows });
+    }
+
+    private _buildFilter(data: TestFormData): RuleFilter {
+        if (data.filterType === 'sql') {
+            const filter: RuleFilter = { sqlExpression: data.filterText };
+            if (data.parametersText.trim()) {
+                const parameters = parseJsonObject(data.parametersText, 'SQL parameters');
+                for (const [key, value] of Object.entries(parameters)) {
+                    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                        throw new Error(`SQL parameter "${key}" must be a string, number or boolean`);
+                    }
+                }
+                filter.sqlParameters = parameters as Record<string, string | number | boolean>;
+            }
+            return filter;
+        }
+        return parseJsonObject(data.filterText, 'The correlation filter') as CorrelationRuleFilter;
+    }
+
+    private _parseSample(text: string): FilterableMessage[] {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`The sample message is not valid JSON: ${errorMessage}`);
+        }
+        const samples = Array.isArray(parsed) ? parsed : [parsed];
+        if (samples.some(sample => sample === null || typeof sample !== 'object' || Array.isArray(sample))) {
+            throw new Error('The sample must be a message object or an array of message objects');
+        }
+        return samples as FilterableMessage[];
+    }
+
+    private async _peek(data: TestFormData): Promise<FilterableMessage[]> {
+        const source = this._sources[Number(data.sourceIndex)];
+        if (!source) {
+            throw new Error('Select a queue or subscription to peek messages from');
+        }
+        const count = Number(data.count);
+        if (!Number.isInteger(count) || count < 1 || count > 100) {
+            throw new Error('The number of messages must be between 1 and 100');
+        }
+        return this._serviceBusService.peekActiveMessages(
+            this._target.namespace,
+            source.queueName,
+            source.topicName,
+            source.subscriptionName,
+            count
+        );
+    }
+
+    private _postResults(results: { rows?: TestResultRow[]; error?: string }): void {
+        this._panel.webview.postMessage({ command: 'results', ...results });
+    }
+
+    private _getHtmlForWebview(): string {
+        const { namespace, filter } = this._target;
+        const isCorrelation = filter !== undefined && !isSqlRuleFilter(filter);
+        const filterText = filter === undefined
+            ? "sys.Label = 'OrderCreated' AND region = 'eu'"
+            : isSqlRuleFilter(filter) ? filter.sqlExpression : JSON.stringify(filter, null, 2);
+        const parametersText = filter && isSqlRuleFilter(filter) && filter.sqlParameters
+            ? JSON.stringify(filter.sqlParameters, null, 2)
+            : '';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Test Filter</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1, h2 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .section {
+            margin-bottom: 24px;
+        }
+        .options {
+            display: flex;
+            gap: 16px;
+            align-items: center;
+            margin-bottom: 8px;
+        }
+        input, textarea, select {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            padding: 4px 6px;
+            box-sizing: border-box;
+        }
+        textarea {
+            width: 100%;
+            min-height: 100px;
+            resize: vertical;
+        }
+        input[type="radio"] {
+            width: auto;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+        .hidden {
+            display: none;
+        }
+        .error {
+            margin-top: 16px;
+            padding: 12px;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-top: 12px;
+        }
+        th, td {
+            text-align: left;
+            padding: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            word-break: break-word;
+        }
+        th {
+            background-color: var(--vscode-textBlockQuote-background);
+        }
+        .match {
+            color: var(--vscode-testing-iconPassed);
+        }
+        .no-match {
+            color: var(--vscode-errorForeground);
+        }
+    </style>
+</head>
+<body>
+    <h1>Test Filter</h1>
+    <p>Evaluates a rule filter locally against peeked or sample messages in ${this._escapeHtml(namespace)}. Nothing is sent or changed.</p>
+
+    <div class="section">
+        <h2>Filter</h2>
+        <div class="options">
+            <label><input type="radio" name="filterType" value="sql"${isCorrelation ? '' : ' checked'}> SQL filter</label>
+            <label><input type="radio" name="filterType" value="correlation"${isCorrelation ? ' checked' : ''}> Correlation filter (JSON)</label>
+        </div>
+        <textarea id="filterText">${this._escapeHtml(filterText)}</textarea>
+        <div id="parametersSection">
+            <p>SQL parameters (JSON object, optional):</p>
+            <textarea id="parametersText" placeholder='{ "@region": "eu" }'>${this._escapeHtml(parametersText)}</textarea>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Messages</h2>
+        <div class="options">
+            <label><input type="radio" name="source" value="entity" checked> Peek from</label>
+            <select id="sourceIndex"><option>Loading queues and subscriptions...</option></select>
+            <label>Messages: <input id="count" type="number" min="1" max="100" value="20"></label>
+        </div>
+        <div class="options">
+            <label><input type="radio" name="source" value="sample"> Sample message (JSON object or array)</label>
+        </div>
+        <textarea id="sampleText" class="hidden">${this._escapeHtml(JSON.stringify(SAMPLE_MESSAGE, null, 2))}</textarea>
+    </div>
+
+    <button id="test">Test</button>
+    <div id="error" class="error hidden"></div>
+    <p id="summary"></p>
+    <table id="resultsTable" class="hidden">
+        <thead>
+            <tr>
+                <th>Sequence #</th>
+                <th>Message ID</th>
+                <th>Subject</th>
+                <th>Result</th>
+                <th>Explanation</th>
+            </tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const testButton = document.getElementById('test');
+        const error = document.getElementById('error');
+        const summary = document.getElementById('summary');
+        const table = document.getElementById('resultsTable');
+        const tbody = document.getElementById('rows');
+
+        const checked = name => document.querySelector('input[name="' + name + '"]:checked').value;
+        const updateVisibility = () => {
+            document.getElementById('parametersSection').classList.toggle('hidden', checked('filterType') !== 'sql');
+            document.getElementById('sampleText').classList.toggle('hidden', checked('source') !== 'sample');
+        };
+        document.querySelectorAll('input[type="radio"]').forEach(radio => radio.addEventListener('change', updateVisibility));
+        updateVisibility();
+
+        testButton.addEventListener('click', () => {
+            testButton.disabled = true;
+            error.classList.add('hidden');
+            vscode.postMessage({
+                command: 'test',
+                data: {
+                    filterType: checked('filterType'),
+                    filterText: document.getElementById('filterText').value,
+                    parametersText: document.getElementById('parametersText').value,
+                    source: checked('source'),
+                    sourceIndex: document.getElementById('sourceIndex').value,
+                    count: document.getElementById('count').value,
+                    sampleText: document.getElementById('sampleText').value
+                }
+            });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'sources') {
+                const select = document.getElementById('sourceIndex');
+                select.innerHTML = '';
+                message.labels.forEach((label, index) => {
+                    const option = document.createElement('option');
+                    option.value = String(index);
+                    option.textContent = label;
+                    select.appendChild(option);
+                });
+                select.value = String(message.selected);
+            } else if (message.command === 'results') {
+                testButton.disabled = false;
+                tbody.innerHTML = '';
+                if (message.error) {
+                    error.textContent = message.error;
+                    error.classList.remove('hidden');
+                    table.classList.add('hidden');
+                    summary.textContent = '';
+                    return;
+                }
+
+                const matched = message.rows.filter(row => row.matched).length;
+                summary.textContent = matched + ' of ' + message.rows.length + ' message' + (message.rows.length === 1 ? '' : 's') + ' matched.';
+                for (const row of message.rows) {
+                    const tr = document.createElement('tr');
+                    for (const value of [row.sequenceNumber, row.messageId, row.subject, row.matched ? 'Match' : 'No match', row.explanation]) {
+                        const cell = document.createElement('td');
+                        cell.textContent = value;
+                        tr.appendChild(cell);
+                    }
+                    tr.children[3].className = row.matched ? 'match' : 'no-match';
+                    tbody.appendChild(tr);
+                }
+                table.classList.toggle('hidden', message.rows.length === 0);
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
+
+function parseJsonObject(text: string, what: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`${what} is not valid JSON: ${errorMessage}`);
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`${what} must be a JSON object`);
+    }
+    return parsed as Record<string, unknown>;
+}
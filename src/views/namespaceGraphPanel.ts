@@ -0,0 +1,515 @@
+import * as vscode from 'vscode';
+import { EntityStatus } from '@azure/service-bus';
+import { EntityKind, ServiceBusService } from '../servicebus/serviceBusService';
+
+interface GraphNode {
+    id: string;
+    /** 'missing' marks a forwarding target that is not a queue or topic of the namespace */
+    kind: EntityKind | 'missing';
+    name: string;
+    topicName?: string;
+    activeMessageCount: number;
+    deadLetterMessageCount: number;
+    status?: EntityStatus;
+    x: number;
+    y: number;
+}
+
+interface GraphEdge {
+    from: string;
+    to: string;
+    kind: 'fanOut' | 'forward' | 'deadLetterForward';
+}
+
+const NODE_WIDTH = 220;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 90;
+const ROW_GAP = 18;
+const REFRESH_INTERVAL_MS = 15000;
+
+export class NamespaceGraphPanel {
+    public static currentPanel: NamespaceGraphPanel | undefined;
+    private static readonly viewType = 'azureServiceBusNamespaceGraph';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _namespace: string;
+    private _onReveal: (namespace: string, kind: EntityKind, name: string, topicName?: string) => void;
+    private _nodes: GraphNode[] = [];
+    private _autoRefresh = true;
+    private _loading = false;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        namespace: string,
+        onReveal: (namespace: string, kind: EntityKind, name: string, topicName?: string) => void
+    ): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (NamespaceGraphPanel.currentPanel) {
+            const current = NamespaceGraphPanel.currentPanel;
+            current._panel.reveal(column);
+            current._namespace = namespace;
+            current._onReveal = onReveal;
+            current._panel.title = `Graph: ${namespace}`;
+            void current._load();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            NamespaceGraphPanel.viewType,
+            `Graph: ${namespace}`,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        NamespaceGraphPanel.currentPanel = new NamespaceGraphPanel(panel, serviceBusService, namespace, onReveal);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        namespace: string,
+        onReveal: (namespace: string, kind: EntityKind, name: string, topicName?: string) => void
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._namespace = namespace;
+        this._onReveal = onReveal;
+
+        // The webview asks for the first load once its script is ready
+        this._panel.webview.html = this._getHtmlForWebview();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message: { command: string; id?: string; enabled?: boolean }) => {
+                switch (message.command) {
+                    case 'refresh':
+                        await this._load();
+                        break;
+                    case 'autoRefresh':
+                        this._autoRefresh = message.enabled === true;
+                        break;
+                    case 'reveal': {
+                        const node = this._nodes.find(n => n.id === message.id);
+                        if (node && node.kind !== 'missing') {
+                            this._onReveal(this._namespace, node.kind, node.name, node.topicName);
+                        }
+                        break;
+                    }
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        // Keep the counts live while the graph is visible
+        const timer = setInterval(() => {
+            if (this._autoRefresh && this._panel.visible) {
+                void this._load();
+            }
+        }, REFRESH_INTERVAL_MS);
+        this._disposables.push(new vscode.Disposable(() => clearInterval(timer)));
+    }
+
+    public dispose(): void {
+        NamespaceGraphPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private async _load(): Promise<void> {
+        if (this._loading) {
+            return;
+        }
+        this._loading = true;
+        const namespace = this._namespace;
+        try {
+            const { nodes, edges } = await this._buildGraph(namespace);
+            if (namespace !== this._namespace) {
+                return;
+            }
+            this._nodes = nodes;
+            this._panel.webview.postMessage({
+                command: 'graph',
+                namespace,
+                nodes,
+                edges,
+                width: Math.max(...nodes.map(n => n.x + NODE_WIDTH), NODE_WIDTH),
+                height: Math.max(...nodes.map(n => n.y + NODE_HEIGHT), NODE_HEIGHT),
+                updatedAt: new Date().toLocaleTimeString()
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._panel.webview.postMessage({ command: 'error', text: `Failed to load ${namespace}: ${errorMessage}` });
+        } finally {
+            this._loading = false;
+        }
+    }
+
+    /**
+     * Collect the namespace's entities as nodes, with edges for topic fan-out and auto-forwarding
+     */
+    private async _buildGraph(namespace: string): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
+        const [queues, topics] = await Promise.all([
+            this._serviceBusService.listQueues(namespace),
+            this._serviceBusService.listTopics(namespace)
+        ]);
+        const subscriptions = (await Promise.all(
+            topics.map(topic => this._serviceBusService.listSubscriptions(namespace, topic.name))
+        )).flat();
+
+        const nodes: GraphNode[] = [
+            ...queues.map(queue => ({
+                id: `queue:${queue.name}`,
+                kind: 'queue' as const,
+                name: queue.name,
+                activeMessageCount: queue.activeMessageCount,
+                deadLetterMessageCount: queue.deadLetterMessageCount,
+                status: queue.status,
+                x: 0,
+                y: 0
+            })),
+            ...topics.map(topic => ({
+                id: `topic:${topic.name}`,
+                kind: 'topic' as const,
+                name: topic.name,
+                activeMessageCount: topic.activeMessageCount ?? 0,
+                deadLetterMessageCount: topic.deadLetterMessageCount ?? 0,
+                status: topic.status,
+                x: 0,
+                y: 0
+            })),
+            ...subscriptions.map(subscription => ({
+                id: `subscription:${subscription.topicName}/${subscription.name}`,
+                kind: 'subscription' as const,
+                name: subscription.name,
+                topicName: subscription.topicName,
+                activeMessageCount: subscription.activeMessageCount,
+                deadLetterMessageCount: subscription.deadLetterMessageCount,
+                status: subscription.status,
+                x: 0,
+                y: 0
+            }))
+        ];
+
+        // Forwarding targets are queue or topic names, or absolute URLs; entity names are case-insensitive
+        const targets = new Map(nodes.filter(n => n.kind !== 'subscription').map(n => [n.name.toLowerCase(), n.id]));
+        const resolveTarget = (forwardTo: string): string => {
+            const name = forwardTo.replace(/^\w+:\/\/[^/]+\//, '');
+            const id = targets.get(name.toLowerCase());
+            if (id) {
+                return id;
+            }
+            const missingId = `missing:${name}`;
+            if (!nodes.some(n => n.id === missingId)) {
+                nodes.push({ id: missingId, kind: 'missing', name, activeMessageCount: 0, deadLetterMessageCount: 0, x: 0, y: 0 });
+            }
+            return missingId;
+        };
+
+        const edges: GraphEdge[] = subscriptions.map(subscription => ({
+            from: `topic:${subscription.topicName}`,
+            to: `subscription:${subscription.topicName}/${subscription.name}`,
+            kind: 'fanOut' as const
+        }));
+        const forwarders = [
+            ...queues.map(queue => ({ id: `queue:${queue.name}`, properties: queue.properties })),
+            ...subscriptions.map(subscription => ({
+                id: `subscription:${subscription.topicName}/${subscription.name}`,
+                properties: subscription.properties
+            }))
+        ];
+        for (const { id, properties } of forwarders) {
+            if (properties.forwardTo) {
+                edges.push({ from: id, to: resolveTarget(properties.forwardTo), kind: 'forward' });
+            }
+            if (properties.forwardDeadLetteredMessagesTo) {
+                edges.push({ from: id, to: resolveTarget(properties.forwardDeadLetteredMessagesTo), kind: 'deadLetterForward' });
+            }
+        }
+
+        this._layout(nodes, edges);
+        return { nodes, edges };
+    }
+
+    /**
+     * Place each node one column to the right of everything that sends to it, and stack the
+     * nodes of a column with subscriptions next to their topic's other subscriptions
+     */
+    private _layout(nodes: GraphNode[], edges: GraphEdge[]): void {
+        const columns = new Map(nodes.map(n => [n.id, 0]));
+        // Bounded by the node count so forwarding cycles cannot loop forever
+        for (let pass = 0; pass < nodes.length; pass++) {
+            let changed = false;
+            for (const edge of edges) {
+                const next = (columns.get(edge.from) ?? 0) + 1;
+                if (next > (columns.get(edge.to) ?? 0)) {
+                    columns.set(edge.to, next);
+                    changed = true;
+                }
+            }
+            if (!changed) {
+                break;
+            }
+        }
+
+        const kindOrder = { topic: 0, queue: 1, subscription: 2, missing: 3 };
+        const sorted = [...nodes].sort((a, b) =>
+            (columns.get(a.id) ?? 0) - (columns.get(b.id) ?? 0) ||
+            kindOrder[a.kind] - kindOrder[b.kind] ||
+            (a.topicName ?? '').localeCompare(b.topicName ?? '') ||
+            a.name.localeCompare(b.name)
+        );
+        const rows = new Map<number, number>();
+        for (const node of sorted) {
+            const column = columns.get(node.id) ?? 0;
+            const row = rows.get(column) ?? 0;
+            rows.set(column, row + 1);
+            node.x = column * (NODE_WIDTH + COLUMN_GAP);
+            node.y = row * (NODE_HEIGHT + ROW_GAP);
+        }
+    }
+
+    private _getHtmlForWebview(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Namespace Graph</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+        }
+        h1 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .toolbar {
+            display: flex;
+            gap: 16px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+        .hint {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        .legend span {
+            margin-right: 16px;
+        }
+        .error {
+            padding: 12px;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+            display: none;
+        }
+        svg {
+            overflow: visible;
+        }
+        .node rect {
+            fill: var(--vscode-editorWidget-background);
+            stroke: var(--vscode-panel-border);
+            rx: 4;
+        }
+        .node.queue rect, .node.topic rect, .node.subscription rect {
+            cursor: pointer;
+        }
+        .node:hover rect {
+            stroke: var(--vscode-focusBorder);
+        }
+        .node.missing rect {
+            stroke-dasharray: 4 3;
+        }
+        .node.inactive rect {
+            stroke: var(--vscode-list-warningForeground);
+        }
+        .node text {
+            fill: var(--vscode-foreground);
+            font-size: 12px;
+        }
+        .node text.counts {
+            fill: var(--vscode-descriptionForeground);
+        }
+        .node text.dead-letter {
+            fill: var(--vscode-errorForeground);
+        }
+        .edge {
+            fill: none;
+            stroke-width: 1.5;
+        }
+        .edge.fanOut {
+            stroke: var(--vscode-descriptionForeground);
+        }
+        .edge.forward {
+            stroke: var(--vscode-textLink-foreground);
+        }
+        .edge.deadLetterForward {
+            stroke: var(--vscode-errorForeground);
+            stroke-dasharray: 6 4;
+        }
+        .arrow.fanOut {
+            fill: var(--vscode-descriptionForeground);
+        }
+        .arrow.forward {
+            fill: var(--vscode-textLink-foreground);
+        }
+        .arrow.deadLetterForward {
+            fill: var(--vscode-errorForeground);
+        }
+    </style>
+</head>
+<body>
+    <h1 id="title">Namespace Graph</h1>
+    <div class="toolbar">
+        <button id="refresh">Refresh</button>
+        <label><input id="autoRefresh" type="checkbox" checked> Refresh every ${REFRESH_INTERVAL_MS / 1000} seconds</label>
+        <span id="updated" class="hint">Loading...</span>
+    </div>
+    <p class="hint legend">
+        <span><svg width="30" height="8"><line class="edge fanOut" x1="0" y1="4" x2="30" y2="4"/></svg> topic to subscription</span>
+        <span><svg width="30" height="8"><line class="edge forward" x1="0" y1="4" x2="30" y2="4"/></svg> auto-forward</span>
+        <span><svg width="30" height="8"><line class="edge deadLetterForward" x1="0" y1="4" x2="30" y2="4"/></svg> dead-letter forward</span>
+        Counts are [active|dead-letter]. Click a queue, topic or subscription to reveal it in the explorer.
+    </p>
+    <div id="error" class="error"></div>
+    <svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const NODE_WIDTH = ${NODE_WIDTH};
+        const NODE_HEIGHT = ${NODE_HEIGHT};
+        const SVG_NS = 'http://www.w3.org/2000/svg';
+        const graph = document.getElementById('graph');
+
+        function element(name, attributes, text) {
+            const el = document.createElementNS(SVG_NS, name);
+            for (const [key, value] of Object.entries(attributes)) {
+                el.setAttribute(key, value);
+            }
+            if (text !== undefined) {
+                el.textContent = text;
+            }
+            return el;
+        }
+
+        function truncate(text, length) {
+            return text.length > length ? text.substring(0, length - 1) + '…' : text;
+        }
+
+        function render(message) {
+            document.getElementById('title').textContent = 'Namespace Graph: ' + message.namespace;
+            document.getElementById('updated').textContent = 'Updated ' + message.updatedAt;
+            document.getElementById('error').style.display = 'none';
+            graph.innerHTML = '';
+            graph.setAttribute('width', message.width + 20);
+            graph.setAttribute('height', message.height + 20);
+
+            const defs = element('defs', {});
+            for (const kind of ['fanOut', 'forward', 'deadLetterForward']) {
+                const marker = element('marker', { id: 'arrow-' + kind, viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '8', markerHeight: '8', orient: 'auto' });
+                marker.appendChild(element('path', { d: 'M0,0 L10,5 L0,10 z', class: 'arrow ' + kind }));
+                defs.appendChild(marker);
+            }
+            graph.appendChild(defs);
+
+            const byId = new Map(message.nodes.map(node => [node.id, node]));
+            for (const edge of message.edges) {
+                const from = byId.get(edge.from);
+                const to = byId.get(edge.to);
+                if (!from || !to) {
+                    continue;
+                }
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+                graph.appendChild(element('path', {
+                    class: 'edge ' + edge.kind,
+                    d: 'M' + x1 + ',' + y1 + ' C' + (x1 + bend) + ',' + y1 + ' ' + (x2 - bend) + ',' + y2 + ' ' + x2 + ',' + y2,
+                    'marker-end': 'url(#arrow-' + edge.kind + ')'
+                }));
+            }
+
+            for (const node of message.nodes) {
+                const inactive = node.status && node.status !== 'Active';
+                const group = element('g', { class: 'node ' + node.kind + (inactive ? ' inactive' : ''), transform: 'translate(' + node.x + ',' + node.y + ')' });
+                const title = node.kind === 'subscription' ? node.topicName + '/' + node.name : node.name;
+                group.appendChild(element('title', {}, node.kind + ': ' + title + (node.status ? '\\nStatus: ' + node.status : '')));
+                group.appendChild(element('rect', { width: NODE_WIDTH, height: NODE_HEIGHT }));
+                const icon = { queue: '✉', topic: '⇶', subscription: '☰', missing: '?' }[node.kind];
+                group.appendChild(element('text', { x: 10, y: 20 }, icon + ' ' + truncate(node.name, 26)));
+                if (node.kind === 'missing') {
+                    group.appendChild(element('text', { x: 10, y: 40, class: 'counts' }, 'not found in this namespace'));
+                } else {
+                    const counts = element('text', { x: 10, y: 40, class: 'counts' });
+                    counts.appendChild(element('tspan', {}, '[' + node.activeMessageCount + '|'));
+                    counts.appendChild(element('tspan', node.deadLetterMessageCount > 0 ? { class: 'dead-letter' } : {}, String(node.deadLetterMessageCount)));
+                    counts.appendChild(element('tspan', {}, ']' + (inactive ? ' ' + node.status : '')));
+                    group.appendChild(counts);
+                    group.addEventListener('click', () => vscode.postMessage({ command: 'reveal', id: node.id }));
+                }
+                graph.appendChild(group);
+            }
+        }
+
+        document.getElementById('refresh').addEventListener('click', () => {
+            document.getElementById('updated').textContent = 'Loading...';
+            vscode.postMessage({ command: 'refresh' });
+        });
+
+        document.getElementById('autoRefresh').addEventListener('change', event => {
+            vscode.postMessage({ command: 'autoRefresh', enabled: event.target.checked });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'graph') {
+                render(message);
+            } else if (message.command === 'error') {
+                const error = document.getElementById('error');
+                error.textContent = message.text;
+                error.style.display = 'block';
+                document.getElementById('updated').textContent = '';
+            }
+        });
+
+        vscode.postMessage({ command: 'refresh' });
+    </script>
+</body>
+</html>`;
+    }
+}
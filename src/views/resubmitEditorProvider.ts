@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { ServiceBusService, MessageEdits, convertToPlainObject } from '../servicebus/serviceBusService';
+import { MessageInfo } from '../tree/treeItems';
+
+/**
+ * How the original body was encoded, so the edited JSON can be sent back in the same shape
+ */
+type BodyEncoding = 'value' | 'jsonString' | 'text' | 'binary' | 'base64';
+
+interface EditSession {
+    messageInfo: MessageInfo;
+    encoding: BodyEncoding;
+    content: Uint8Array;
+    mtime: number;
+    resubmitted: boolean;
+    onResubmitted: () => void;
+}
+
+/**
+ * Virtual file system that opens a dead-letter message's body and application properties as a JSON
+ * document. Saving the document resubmits the edited message to its original queue or topic.
+ */
+export class ResubmitEditorProvider implements vscode.FileSystemProvider {
+    static readonly scheme = 'azureservicebus-edit';
+
+    private readonly _sessions = new Map<string, EditSession>();
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private readonly serviceBusService: ServiceBusService) {}
+
+    /**
+     * Open an editor for a dead-letter message
+     */
+    async openForEdit(messageInfo: MessageInfo, onResubmitted: () => void): Promise<void> {
+        const { message } = messageInfo;
+        const { encoding, body } = this._decodeBody(message.body);
+
+        // Binary bodies that are not valid UTF-8 are shown as base64 and flagged, so they survive the round trip
+        const document = {
+            applicationProperties: convertToPlainObject(message.applicationProperties ?? {}),
+            ...(encoding === 'base64' ? { encoding } : {}),
+            body
+        };
+
+        const fileName = `${String(message.messageId ?? 'message').replace(/[\\/:*?"<>|]/g, '_')}-${message.sequenceNumber?.toString() ?? Date.now()}.json`;
+        const uri = vscode.Uri.from({ scheme: ResubmitEditorProvider.scheme, path: `/${fileName}` });
+
+        this._sessions.set(uri.path, {
+            messageInfo,
+            encoding,
+            content: Buffer.from(JSON.stringify(document, null, 2), 'utf8'),
+            mtime: Date.now(),
+            resubmitted: false,
+            onResubmitted
+        });
+
+        const textDocument = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(textDocument, { preview: false });
+        vscode.window.showInformationMessage('Edit the message, then save (Ctrl+S / Cmd+S) to resubmit it.');
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { /* nothing to watch */ });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const session = this._getSession(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: session.mtime,
+            mtime: session.mtime,
+            size: session.content.byteLength
+        };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Creating directories is not supported');
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this._getSession(uri).content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const session = this._getSession(uri);
+        if (session.resubmitted) {
+            throw vscode.FileSystemError.NoPermissions('This message has already been resubmitted');
+        }
+
+        const edits = this._parseEdits(Buffer.from(content).toString('utf8'), session.encoding);
+
+        const confirm = await vscode.window.showWarningMessage(
+            'Resubmit the edited message to the main queue and remove the original from the dead-letter queue?',
+            { modal: true },
+            'Resubmit'
+        );
+        if (confirm !== 'Resubmit') {
+            throw vscode.FileSystemError.Unavailable('Resubmit cancelled; the message was not sent');
+        }
+
+        const { namespace, message, queueName, topicName, subscriptionName, deadLetterSubQueue } = session.messageInfo;
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Resubmitting edited message...',
+                    cancellable: false
+                },
+                () => this.serviceBusService.resubmitMessage(
+                    namespace,
+                    message,
+                    queueName,
+                    topicName,
+                    subscriptionName,
+                    edits,
+                    deadLetterSubQueue
+                )
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`Failed to resubmit message: ${errorMessage}`);
+        }
+
+        session.content = content;
+        session.mtime = Date.now();
+        session.resubmitted = true;
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+
+        vscode.window.showInformationMessage('Edited message resubmitted successfully');
+        session.onResubmitted();
+    }
+
+    delete(uri: vscode.Uri): void {
+        this._sessions.delete(uri.path);
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Renaming is not supported');
+    }
+
+    private _getSession(uri: vscode.Uri): EditSession {
+        const session = this._sessions.get(uri.path);
+        if (!session) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return session;
+    }
+
+    private _decodeBody(body: unknown): { encoding: BodyEncoding; body: unknown } {
+        if (Buffer.isBuffer(body)) {
+            const text = body.toString('utf8');
+            if (!Buffer.from(text, 'utf8').equals(body)) {
+                return { encoding: 'base64', body: body.toString('base64') };
+            }
+            return { encoding: 'binary', body: text };
+        }
+        if (typeof body === 'string') {
+            try {
+                return { encoding: 'jsonString', body: JSON.parse(body) };
+            } catch {
+                return { encoding: 'text', body };
+            }
+        }
+        return { encoding: 'value', body: convertToPlainObject(body) };
+    }
+
+    private _parseEdits(text: string, encoding: BodyEncoding): MessageEdits {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`The document is not valid JSON: ${errorMessage}`);
+        }
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed) || !('body' in parsed)) {
+            throw vscode.FileSystemError.Unavailable('The document must be an object with "body" and "applicationProperties"');
+        }
+
+        const { body, applicationProperties, encoding: documentEncoding } = parsed as { body: unknown; applicationProperties?: unknown; encoding?: unknown };
+        if (documentEncoding !== (encoding === 'base64' ? 'base64' : undefined)) {
+            throw vscode.FileSystemError.Unavailable(encoding === 'base64'
+                ? 'The body is binary; keep "encoding": "base64" and edit the base64 body'
+                : '"encoding" is only used for binary bodies and must not be added or changed');
+        }
+        if (applicationProperties !== undefined
+            && (applicationProperties === null || typeof applicationProperties !== 'object' || Array.isArray(applicationProperties))) {
+            throw vscode.FileSystemError.Unavailable('"applicationProperties" must be a JSON object');
+        }
+        const properties: Record<string, string | number | boolean | null> = {};
+        for (const [key, value] of Object.entries((applicationProperties ?? {}) as Record<string, unknown>)) {
+            if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+                throw vscode.FileSystemError.Unavailable(`Application property "${key}" must be a string, number, boolean or null`);
+            }
+            properties[key] = value as string | number | boolean | null;
+        }
+
+        let encodedBody: unknown;
+        switch (encoding) {
+            case 'base64':
+                if (typeof body !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(body.replace(/\s/g, ''))) {
+                    throw vscode.FileSystemError.Unavailable('"body" must be a base64 string when "encoding" is "base64"');
+                }
+                encodedBody = Buffer.from(body, 'base64');
+                break;
+            case 'binary':
+                encodedBody = Buffer.from(typeof body === 'string' ? body : JSON.stringify(body), 'utf8');
+                break;
+            case 'jsonString':
+                encodedBody = JSON.stringify(body);
+                break;
+            case 'text':
+                encodedBody = typeof body === 'string' ? body : JSON.stringify(body);
+                break;
+            default:
+                encodedBody = body;
+        }
+
+        return { body: encodedBody, applicationProperties: properties };
+    }
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { CorrelationRuleFilter, SqlRuleAction, SqlRuleFilter } from '@azure/service-bus';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+import { validateSqlAction, validateSqlFilter } from '../servicebus/sqlFilter';
+import { CORRELATION_FILTER_KEYS } from '../servicebus/ruleFilter';
+import { RulesTreeItem } from '../tree/treeItems';
+
+interface RuleDocument {
+    rules: RulesTreeItem;
+    ruleName: string;
+    /** Whether the rule still has to be created on the first save */
+    isNew: boolean;
+    content: Uint8Array;
+    mtime: number;
+    onSaved: () => void;
+}
+
+interface RuleDefinition {
+    filter: SqlRuleFilter | CorrelationRuleFilter;
+    action?: SqlRuleAction;
+}
+
+/**
+ * Virtual file system that opens a subscription rule's filter and action as a JSON document.
+ * SQL filters and actions are syntax-checked when saving, before anything is sent to the service.
+ */
+export class RuleEditorProvider implements vscode.FileSystemProvider {
+    static readonly scheme = 'azureservicebus-rule';
+
+    private readonly _documents = new Map<string, RuleDocument>();
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private readonly serviceBusService: ServiceBusService) {}
+
+    /**
+     * Open an editor for an existing rule, or for a new rule that is created on the first save
+     */
+    async openForEdit(
+        rules: RulesTreeItem,
+        ruleName: string,
+        definition: RuleDefinition,
+        isNew: boolean,
+        onSaved: () => void
+    ): Promise<void> {
+        const text = JSON.stringify({ filter: definition.filter, action: definition.action ?? {} }, null, 2);
+
+        const fileName = `${rules.topicName}-${rules.subscriptionName}-${ruleName}.json`.replace(/[\\/:*?"<>|]/g, '_');
+        const uri = vscode.Uri.from({ scheme: RuleEditorProvider.scheme, path: `/${fileName}` });
+
+        this._documents.set(uri.path, {
+            rules,
+            ruleName,
+            isNew,
+            content: Buffer.from(text, 'utf8'),
+            mtime: Date.now(),
+            onSaved
+        });
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+
+        const textDocument = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(textDocument, { preview: false });
+        vscode.window.showInformationMessage(
+            `Edit the filter and action, then save (Ctrl+S / Cmd+S) to ${isNew ? 'create' : 'update'} rule "${ruleName}".`
+        );
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { /* nothing to watch */ });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const document = this._getDocument(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: document.mtime,
+            mtime: document.mtime,
+            size: document.content.byteLength
+        };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Creating directories is not supported');
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this._getDocument(uri).content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const document = this._getDocument(uri);
+        const { filter, action } = this._parseDefinition(Buffer.from(content).toString('utf8'));
+
+        const { rules, ruleName } = document;
+        try {
+            if (document.isNew) {
+                await this.serviceBusService.createRule(rules.namespace, rules.topicName, rules.subscriptionName, ruleName, filter, action);
+            } else {
+                await this.serviceBusService.updateRule(rules.namespace, rules.topicName, rules.subscriptionName, ruleName, filter, action);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`Failed to save rule "${ruleName}": ${errorMessage}`);
+        }
+
+        vscode.window.showInformationMessage(`Rule "${ruleName}" ${document.isNew ? 'created' : 'updated'} on ${rules.topicName}/${rules.subscriptionName}`);
+        document.isNew = false;
+        document.content = content;
+        document.mtime = Date.now();
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        document.onSaved();
+    }
+
+    delete(uri: vscode.Uri): void {
+        this._documents.delete(uri.path);
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Renaming is not supported');
+    }
+
+    private _getDocument(uri: vscode.Uri): RuleDocument {
+        const document = this._documents.get(uri.path);
+        if (!document) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return document;
+    }
+
+    private _parseDefinition(text: string): RuleDefinition {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`The document is not valid JSON: ${errorMessage}`);
+        }
+        if (!isObject(parsed) || !isObject(parsed.filter)) {
+            throw vscode.FileSystemError.Unavailable('The document must be an object with a "filter" object and an optional "action" object');
+        }
+
+        const filter = parsed.filter;
+        let ruleFilter: SqlRuleFilter | CorrelationRuleFilter;
+        if ('sqlExpression' in filter) {
+            if (typeof filter.sqlExpression !== 'string') {
+                throw vscode.FileSystemError.Unavailable('"filter.sqlExpression" must be a string');
+            }
+            const syntaxError = validateSqlFilter(filter.sqlExpression);
+            if (syntaxError) {
+                throw vscode.FileSystemError.Unavailable(`Invalid SQL filter: ${syntaxError}`);
+            }
+            ruleFilter = filter as unknown as SqlRuleFilter;
+        } else {
+            const unknownKey = Object.keys(filter).find(key => !CORRELATION_FILTER_KEYS.includes(key));
+            if (unknownKey) {
+                throw vscode.FileSystemError.Unavailable(
+                    `Unknown correlation filter property "${unknownKey}". Use "sqlExpression" for a SQL filter, or ${CORRELATION_FILTER_KEYS.join(', ')}`
+                );
+            }
+            if (filter.applicationProperties !== undefined && !isObject(filter.applicationProperties)) {
+                throw vscode.FileSystemError.Unavailable('"filter.applicationProperties" must be a JSON object');
+            }
+            // Empty template fields are left out rather than matched against empty strings
+            ruleFilter = Object.fromEntries(
+                Object.entries(filter).filter(([, value]) => value !== '' && value !== null)
+            ) as CorrelationRuleFilter;
+        }
+
+        const action = parsed.action;
+        if (action !== undefined && !isObject(action)) {
+            throw vscode.FileSystemError.Unavailable('"action" must be a JSON object');
+        }
+        if (action?.sqlExpression !== undefined && typeof action.sqlExpression !== 'string') {
+            throw vscode.FileSystemError.Unavailable('"action.sqlExpression" must be a string');
+        }
+        if (typeof action?.sqlExpression === 'string' && action.sqlExpression.trim()) {
+            const syntaxError = validateSqlAction(action.sqlExpression);
+            if (syntaxError) {
+                throw vscode.FileSystemError.Unavailable(`Invalid SQL action: ${syntaxError}`);
+            }
+            return { filter: ruleFilter, action: action as SqlRuleAction };
+        }
+        return { filter: ruleFilter };
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,376 @@
+import * as vscode from 'vscode';
+import { ServiceBusMessage } from '@azure/service-bus';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+
+export interface SendMessageTarget {
+    namespace: string;
+    queueName?: string;
+    topicName?: string;
+}
+
+/**
+ * Raw form values posted back from the composer webview
+ */
+interface ComposerFormData {
+    body: string;
+    contentType: string;
+    messageId: string;
+    correlationId: string;
+    subject: string;
+    sessionId: string;
+    replyTo: string;
+    timeToLive: string;
+    scheduledEnqueueTime: string;
+    applicationProperties: string;
+}
+
+export class SendMessagePanel {
+    public static currentPanel: SendMessagePanel | undefined;
+    private static readonly viewType = 'azureServiceBusSendMessage';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _serviceBusService: ServiceBusService;
+    private _target: SendMessageTarget;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        serviceBusService: ServiceBusService,
+        target: SendMessageTarget
+    ): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        // If we already have a panel, retarget it
+        if (SendMessagePanel.currentPanel) {
+            SendMessagePanel.currentPanel._panel.reveal(column);
+            SendMessagePanel.currentPanel._update(target);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            SendMessagePanel.viewType,
+            'Send Message',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        SendMessagePanel.currentPanel = new SendMessagePanel(panel, serviceBusService, target);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        serviceBusService: ServiceBusService,
+        target: SendMessageTarget
+    ) {
+        this._panel = panel;
+        this._serviceBusService = serviceBusService;
+        this._target = target;
+
+        this._update(target);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Handle send requests from the webview
+        this._panel.webview.onDidReceiveMessage(
+            async (message: { command: string; data: ComposerFormData }) => {
+                if (message.command === 'send') {
+                    await this._send(message.data);
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose(): void {
+        SendMessagePanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private get _entityName(): string {
+        return this._target.queueName ?? this._target.topicName ?? '';
+    }
+
+    private _update(target: SendMessageTarget): void {
+        this._target = target;
+        const entityKind = target.queueName ? 'Queue' : 'Topic';
+        this._panel.title = `Send to ${this._entityName}`;
+        this._panel.webview.html = this._getHtmlForWebview(entityKind);
+    }
+
+    private async _send(data: ComposerFormData): Promise<void> {
+        let message: ServiceBusMessage;
+        try {
+            message = this._buildMessage(data);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, errorMessage);
+            return;
+        }
+
+        let scheduledEnqueueTime: Date | undefined;
+        if (data.scheduledEnqueueTime.trim()) {
+            // datetime-local values carry no time zone and are parsed as local time
+            scheduledEnqueueTime = new Date(data.scheduledEnqueueTime.trim());
+            if (isNaN(scheduledEnqueueTime.getTime()) || scheduledEnqueueTime.getTime() <= Date.now()) {
+                this._postResult(false, 'The scheduled enqueue time must be a valid date/time in the future');
+                return;
+            }
+        }
+
+        try {
+            if (scheduledEnqueueTime) {
+                const sequenceNumber = await this._serviceBusService.scheduleMessage(
+                    this._target.namespace,
+                    this._entityName,
+                    message,
+                    scheduledEnqueueTime
+                );
+                this._postResult(true, `Message scheduled on ${this._entityName} for ${scheduledEnqueueTime.toISOString()} (sequence number ${sequenceNumber.toString()})`);
+                return;
+            }
+            await this._serviceBusService.sendMessage(this._target.namespace, this._entityName, message);
+            this._postResult(true, `Message sent to ${this._entityName} at ${new Date().toISOString()}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this._postResult(false, `Failed to send message: ${errorMessage}`);
+        }
+    }
+
+    private _buildMessage(data: ComposerFormData): ServiceBusMessage {
+        const message: ServiceBusMessage = { body: data.body };
+
+        if (data.contentType.trim()) {
+            message.contentType = data.contentType.trim();
+        }
+        if (data.messageId.trim()) {
+            message.messageId = data.messageId.trim();
+        }
+        if (data.correlationId.trim()) {
+            message.correlationId = data.correlationId.trim();
+        }
+        if (data.subject.trim()) {
+            message.subject = data.subject.trim();
+        }
+        if (data.sessionId.trim()) {
+            message.sessionId = data.sessionId.trim();
+        }
+        if (data.replyTo.trim()) {
+            message.replyTo = data.replyTo.trim();
+        }
+
+        if (data.timeToLive.trim()) {
+            const ttl = Number(data.timeToLive.trim());
+            if (!Number.isInteger(ttl) || ttl <= 0) {
+                throw new Error('Time to live must be a positive whole number of milliseconds');
+            }
+            message.timeToLive = ttl;
+        }
+
+        if (data.applicationProperties.trim()) {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(data.applicationProperties);
+            } catch {
+                throw new Error('Application properties must be valid JSON');
+            }
+            if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error('Application properties must be a JSON object');
+            }
+            const properties: Record<string, string | number | boolean | null> = {};
+            for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+                if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+                    throw new Error(`Application property "${key}" must be a string, number, boolean or null`);
+                }
+                properties[key] = value as string | number | boolean | null;
+            }
+            message.applicationProperties = properties;
+        }
+
+        return message;
+    }
+
+    private _postResult(success: boolean, text: string): void {
+        this._panel.webview.postMessage({ command: 'sendResult', success, text });
+    }
+
+    private _getHtmlForWebview(entityKind: string): string {
+        const { namespace } = this._target;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Send Message</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            line-height: 1.5;
+        }
+        h1, h2 {
+            color: var(--vscode-foreground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 8px;
+        }
+        .section {
+            margin-bottom: 24px;
+        }
+        .property-grid {
+            display: grid;
+            grid-template-columns: 200px 1fr;
+            gap: 8px;
+            align-items: center;
+        }
+        .property-label {
+            font-weight: bold;
+            color: var(--vscode-descriptionForeground);
+        }
+        input, textarea {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            padding: 4px 6px;
+            box-sizing: border-box;
+            width: 100%;
+        }
+        textarea {
+            min-height: 120px;
+            resize: vertical;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+        .result {
+            margin-top: 16px;
+            padding: 12px;
+            border-radius: 4px;
+            display: none;
+        }
+        .result-success {
+            display: block;
+            border: 1px solid var(--vscode-testing-iconPassed);
+        }
+        .result-error {
+            display: block;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+        }
+    </style>
+</head>
+<body>
+    <h1>Send Message</h1>
+
+    <div class="section">
+        <div class="property-grid">
+            <span class="property-label">Namespace:</span>
+            <span>${this._escapeHtml(namespace)}</span>
+            <span class="property-label">${entityKind}:</span>
+            <span>${this._escapeHtml(this._entityName)}</span>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Message Properties</h2>
+        <div class="property-grid">
+            <label class="property-label" for="contentType">Content Type:</label>
+            <input id="contentType" type="text" value="application/json">
+            <label class="property-label" for="messageId">Message ID:</label>
+            <input id="messageId" type="text" placeholder="Generated by the service if empty">
+            <label class="property-label" for="correlationId">Correlation ID:</label>
+            <input id="correlationId" type="text">
+            <label class="property-label" for="subject">Subject:</label>
+            <input id="subject" type="text">
+            <label class="property-label" for="sessionId">Session ID:</label>
+            <input id="sessionId" type="text">
+            <label class="property-label" for="replyTo">Reply To:</label>
+            <input id="replyTo" type="text">
+            <label class="property-label" for="timeToLive">Time to Live (ms):</label>
+            <input id="timeToLive" type="number" min="1">
+            <label class="property-label" for="scheduledEnqueueTime">Schedule For (local time):</label>
+            <input id="scheduledEnqueueTime" type="datetime-local" title="Leave empty to send now">
+        </div>
+    </div>
+
+    <div class="section">
+        <h2>Application Properties</h2>
+        <textarea id="applicationProperties" placeholder='{ "key": "value" }'></textarea>
+    </div>
+
+    <div class="section">
+        <h2>Message Body</h2>
+        <textarea id="body"></textarea>
+    </div>
+
+    <button id="send">Send</button>
+    <div id="result" class="result"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const fields = ['body', 'contentType', 'messageId', 'correlationId', 'subject', 'sessionId', 'replyTo', 'timeToLive', 'scheduledEnqueueTime', 'applicationProperties'];
+        const sendButton = document.getElementById('send');
+        const result = document.getElementById('result');
+
+        sendButton.addEventListener('click', () => {
+            const data = {};
+            for (const field of fields) {
+                data[field] = document.getElementById(field).value;
+            }
+            sendButton.disabled = true;
+            result.className = 'result';
+            vscode.postMessage({ command: 'send', data });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'sendResult') {
+                sendButton.disabled = false;
+                result.textContent = message.text;
+                result.className = 'result ' + (message.success ? 'result-success' : 'result-error');
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private _escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
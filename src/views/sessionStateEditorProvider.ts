@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { ServiceBusService } from '../servicebus/serviceBusService';
+import { SessionTreeItem } from '../tree/treeItems';
+
+/**
+ * How the state was stored, so the edited JSON is written back in the same shape: a value the SDK
+ * decoded, UTF-8 JSON bytes, or other bytes shown as `{ "encoding": "base64", "state": "..." }`
+ */
+type StateEncoding = 'value' | 'jsonBytes' | 'base64';
+
+interface SessionStateDocument {
+    session: SessionTreeItem;
+    encoding: StateEncoding;
+    content: Uint8Array;
+    mtime: number;
+}
+
+/**
+ * Virtual file system that opens a session's state as a JSON document. Saving the document
+ * replaces the session state; saving `null` clears it.
+ */
+export class SessionStateEditorProvider implements vscode.FileSystemProvider {
+    static readonly scheme = 'azureservicebus-session';
+
+    private readonly _documents = new Map<string, SessionStateDocument>();
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private readonly serviceBusService: ServiceBusService) {}
+
+    /**
+     * Read a session's current state and open it in an editor
+     */
+    async openForEdit(session: SessionTreeItem): Promise<void> {
+        const state = await this.serviceBusService.getSessionState(
+            session.namespace,
+            session.sessionId,
+            session.queueName,
+            session.topicName,
+            session.subscriptionName
+        );
+        const { encoding, value } = this._decodeState(state);
+        const text = JSON.stringify(value, null, 2);
+
+        const entityLabel = session.queueName ?? `${session.topicName}-${session.subscriptionName}`;
+        const fileName = `${entityLabel}-${session.sessionId}-state.json`.replace(/[\\/:*?"<>|]/g, '_');
+        const uri = vscode.Uri.from({ scheme: SessionStateEditorProvider.scheme, path: `/${fileName}` });
+
+        this._documents.set(uri.path, {
+            session,
+            encoding,
+            content: Buffer.from(text, 'utf8'),
+            mtime: Date.now()
+        });
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+
+        const textDocument = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(textDocument, { preview: false });
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { /* nothing to watch */ });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const document = this._getDocument(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: document.mtime,
+            mtime: document.mtime,
+            size: document.content.byteLength
+        };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Creating directories is not supported');
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this._getDocument(uri).content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const document = this._getDocument(uri);
+        const text = Buffer.from(content).toString('utf8');
+
+        let state: unknown;
+        try {
+            state = text.trim() ? JSON.parse(text) : null;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`The document is not valid JSON: ${errorMessage}`);
+        }
+        if (state !== null && document.encoding === 'base64') {
+            state = this._decodeBinaryState(state);
+        } else if (state !== null && document.encoding === 'jsonBytes') {
+            state = Buffer.from(JSON.stringify(state), 'utf8');
+        }
+
+        const { session } = document;
+        try {
+            await this.serviceBusService.setSessionState(
+                session.namespace,
+                session.sessionId,
+                state,
+                session.queueName,
+                session.topicName,
+                session.subscriptionName
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.Unavailable(`Failed to update session state: ${errorMessage}`);
+        }
+
+        document.content = content;
+        document.mtime = Date.now();
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+
+        vscode.window.showInformationMessage(
+            state === null ? `Session state of ${session.sessionId} cleared` : `Session state of ${session.sessionId} updated`
+        );
+    }
+
+    delete(uri: vscode.Uri): void {
+        this._documents.delete(uri.path);
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Renaming is not supported');
+    }
+
+    /**
+     * Other SDKs store state as bytes, which arrive as a Buffer even when they hold UTF-8 JSON;
+     * only bytes that are not UTF-8 JSON are shown as base64
+     */
+    private _decodeState(state: unknown): { encoding: StateEncoding; value: unknown } {
+        if (!Buffer.isBuffer(state)) {
+            return { encoding: 'value', value: state ?? null };
+        }
+        const text = state.toString('utf8');
+        if (Buffer.from(text, 'utf8').equals(state)) {
+            try {
+                return { encoding: 'jsonBytes', value: JSON.parse(text) };
+            } catch {
+                // Not JSON; fall back to base64
+            }
+        }
+        return { encoding: 'base64', value: { encoding: 'base64', state: state.toString('base64') } };
+    }
+
+    private _decodeBinaryState(state: unknown): Buffer {
+        const { encoding, state: data } = (state ?? {}) as { encoding?: unknown; state?: unknown };
+        if (encoding !== 'base64' || typeof data !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(data.replace(/\s/g, ''))) {
+            throw vscode.FileSystemError.Unavailable('The session state is binary; keep "encoding": "base64" and edit the base64 "state", or save null to clear it');
+        }
+        return Buffer.from(data, 'base64');
+    }
+
+    private _getDocument(uri: vscode.Uri): SessionStateDocument {
+        const document = this._documents.get(uri.path);
+        if (!document) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return document;
+    }
+}